@@ -0,0 +1,118 @@
+/**
+ * API Call Test Suite
+ * Tests JSONPath response mapping and the API client's URL, header and error handling
+ * @author Labor2Hire Team
+ */
+
+import { mapResponse, selectJsonPath } from '../src/utils/JsonPathSelector';
+import { ApiError, getApiClientConfig, resolveApiUrl, sendApiRequest } from '../src/services/ApiClient';
+import { API_BASE_URL } from '../src/constants/ApiConfig';
+
+const response = {
+    data: {
+        jobs: [
+            { id: 1, title: 'Mason', 'pay-rate': 700 },
+            { id: 2, title: 'Painter', 'pay-rate': 650 },
+        ],
+    },
+    meta: { total: 2 },
+};
+
+describe('selectJsonPath', () => {
+    test('selects nested keys, indexes and quoted keys', () => {
+        expect(selectJsonPath(response, '$.meta.total')).toBe(2);
+        expect(selectJsonPath(response, '$.data.jobs[1].title')).toBe('Painter');
+        expect(selectJsonPath(response, "$.data.jobs[0]['pay-rate']")).toBe(700);
+        expect(selectJsonPath(response, '$')).toBe(response);
+        expect(selectJsonPath(response, '$.data.missing.title')).toBeUndefined();
+    });
+
+    test('returns every match for wildcards', () => {
+        expect(selectJsonPath(response, '$.data.jobs[*].title')).toEqual(['Mason', 'Painter']);
+        expect(selectJsonPath(response, '$.meta.*')).toEqual([2]);
+        expect(selectJsonPath(response, '$.missing[*]')).toEqual([]);
+    });
+
+    test('rejects malformed selectors', () => {
+        expect(() => selectJsonPath(response, '$.data..jobs')).toThrow('Invalid JSONPath selector');
+    });
+
+    test('maps responses with one selector or a selector per key', () => {
+        expect(mapResponse(response, '$.data.jobs[*].id')).toEqual([1, 2]);
+        expect(mapResponse(response, { titles: '$.data.jobs[*].title', total: '$.meta.total' })).toEqual({
+            titles: ['Mason', 'Painter'],
+            total: 2,
+        });
+    });
+});
+
+describe('ApiClient', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    test('takes the base URL and default headers from the App config', () => {
+        expect(getApiClientConfig({ api: { baseUrl: 'https://api.test', headers: { 'X-App': 'labor2hire' } } }, 'token')).toEqual({
+            baseUrl: 'https://api.test',
+            headers: { 'X-App': 'labor2hire' },
+            timeout: expect.any(Number),
+            accessToken: 'token',
+        });
+        expect(getApiClientConfig(undefined, null)).toEqual({
+            baseUrl: API_BASE_URL,
+            headers: {},
+            timeout: expect.any(Number),
+            accessToken: null,
+        });
+    });
+
+    test('resolves relative URLs and keeps absolute ones', () => {
+        expect(resolveApiUrl('/jobs', 'https://api.test/v1/')).toBe('https://api.test/v1/jobs');
+        expect(resolveApiUrl('jobs?page=2', 'https://api.test')).toBe('https://api.test/jobs?page=2');
+        expect(resolveApiUrl('https://other.test/jobs', 'https://api.test')).toBe('https://other.test/jobs');
+    });
+
+    test('sends merged headers and parses the JSON response', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(response) }));
+        global.fetch = fetchMock as any;
+        const config = getApiClientConfig({ api: { baseUrl: 'https://api.test' } }, 'token');
+
+        await expect(sendApiRequest({ url: '/jobs', method: 'POST', data: { page: 1 }, headers: { 'X-Trace': '1' } }, config))
+            .resolves.toEqual(response);
+        expect(fetchMock).toHaveBeenCalledWith('https://api.test/jobs', expect.objectContaining({
+            method: 'POST',
+            body: '{"page":1}',
+            headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token', 'X-Trace': '1' },
+        }));
+    });
+
+    test('sends the access token only to the base URL origin', async () => {
+        const fetchMock = jest.fn((_url: string, _init: any) => Promise.resolve({ ok: true, json: () => Promise.resolve(response) }));
+        global.fetch = fetchMock as any;
+        const config = getApiClientConfig({ api: { baseUrl: 'https://api.test/v1' } }, 'token');
+
+        await sendApiRequest({ url: 'https://tracker.example/collect' }, config);
+        await sendApiRequest({ url: 'https://api.test.evil.example/jobs' }, config);
+        await sendApiRequest({ url: 'HTTPS://API.TEST/v2/jobs' }, config);
+
+        const sentHeaders = fetchMock.mock.calls.map(([, init]) => init.headers);
+        expect(sentHeaders[0]).not.toHaveProperty('Authorization');
+        expect(sentHeaders[1]).not.toHaveProperty('Authorization');
+        expect(sentHeaders[2]).toHaveProperty('Authorization', 'Bearer token');
+    });
+
+    test('rejects failed responses with the server message', async () => {
+        global.fetch = jest.fn(() => Promise.resolve({
+            ok: false,
+            status: 422,
+            statusText: 'Unprocessable Entity',
+            json: () => Promise.resolve({ message: 'Job is closed' }),
+        })) as any;
+
+        const request = sendApiRequest({ url: '/jobs/1/apply' }, getApiClientConfig(undefined));
+        await expect(request).rejects.toBeInstanceOf(ApiError);
+        await expect(request).rejects.toMatchObject({ status: 422, message: 'Job is closed' });
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Auth Provider Test Suite
+ * Tests the fake and HTTP auth providers and the OTP thunks of the auth slice
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { requestOtp, resendOtp, selectAuth, verifyOtp } from '../src/features/auth/authSlice';
+import { AuthError, FakeAuthProvider, HttpAuthProvider, setAuthProvider } from '../src/services/auth';
+
+const PHONE = '9876543210';
+
+const createStore = () => configureStore({ reducer: { auth: authReducer } });
+
+describe('FakeAuthProvider', () => {
+    test('issues tokens for the OTP it sent and rejects wrong codes', async () => {
+        const provider = new FakeAuthProvider();
+        await provider.requestOtp(PHONE);
+        const otp = provider.getLastOtp(PHONE)!;
+        const wrongOtp = otp === '000000' ? '111111' : '000000';
+
+        await expect(provider.verifyOtp(PHONE, wrongOtp)).rejects.toMatchObject({
+            code: 'invalid_otp',
+        });
+
+        const tokens = await provider.verifyOtp(PHONE, otp);
+        expect(tokens.userId).toBe(`user-${PHONE}`);
+        await expect(provider.verifyOtp(PHONE, otp)).rejects.toMatchObject({ code: 'otp_not_requested' });
+    });
+
+    test('expires OTPs, enforces the resend cooldown and rotates refresh tokens', async () => {
+        let now = 1000;
+        const provider = new FakeAuthProvider({ otpCode: '123456', otpTtlMs: 100, resendCooldownMs: 50, now: () => now });
+
+        await provider.requestOtp(PHONE);
+        await expect(provider.resendOtp(PHONE)).rejects.toMatchObject({ code: 'resend_too_soon' });
+
+        now += 200;
+        await expect(provider.verifyOtp(PHONE, '123456')).rejects.toMatchObject({ code: 'otp_expired' });
+
+        await provider.resendOtp(PHONE);
+        const tokens = await provider.verifyOtp(PHONE, '123456');
+        const refreshed = await provider.refresh(tokens.refreshToken);
+
+        expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+        await expect(provider.refresh(tokens.refreshToken)).rejects.toBeInstanceOf(AuthError);
+    });
+});
+
+describe('HttpAuthProvider', () => {
+    const originalFetch = global.fetch;
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    test('posts to the OTP endpoints and maps token responses', async () => {
+        const fetchMock = jest.fn().mockResolvedValue({
+            ok: true,
+            json: () => Promise.resolve({ accessToken: 'a', refreshToken: 'r', expiresIn: 60, userId: 42 }),
+        });
+        global.fetch = fetchMock as any;
+
+        const tokens = await new HttpAuthProvider({ baseUrl: 'https://api.test/auth' }).verifyOtp(PHONE, '123456');
+
+        expect(fetchMock).toHaveBeenCalledWith(
+            'https://api.test/auth/otp/verify',
+            expect.objectContaining({ method: 'POST', body: JSON.stringify({ phone: PHONE, otp: '123456' }) })
+        );
+        expect(tokens).toEqual({ accessToken: 'a', refreshToken: 'r', expiresAt: expect.any(Number), userId: '42' });
+    });
+
+    test('surfaces backend error codes', async () => {
+        global.fetch = jest.fn().mockResolvedValue({
+            ok: false,
+            status: 400,
+            statusText: 'Bad Request',
+            json: () => Promise.resolve({ code: 'invalid_otp', message: 'Wrong code' }),
+        }) as any;
+
+        await expect(
+            new HttpAuthProvider({ baseUrl: 'https://api.test/auth' }).verifyOtp(PHONE, '000000')
+        ).rejects.toMatchObject({ code: 'invalid_otp', message: 'Wrong code' });
+    });
+});
+
+describe('Auth slice OTP thunks', () => {
+    test('requests, resends and verifies through the configured provider', async () => {
+        const provider = new FakeAuthProvider({ otpCode: '654321' });
+        setAuthProvider(provider);
+        const store = createStore();
+
+        await store.dispatch(requestOtp(PHONE) as any);
+        expect(selectAuth(store.getState())).toMatchObject({ phone: PHONE, status: 'otpSent' });
+
+        await store.dispatch(resendOtp() as any);
+        const tokens = await store.dispatch(verifyOtp('654321') as any);
+
+        expect(tokens.userId).toBe(`user-${PHONE}`);
+        expect(selectAuth(store.getState())).toMatchObject({ status: 'verified', error: null });
+    });
+
+    test('records failures and rethrows them to the caller', async () => {
+        setAuthProvider(new FakeAuthProvider({ otpCode: '654321' }));
+        const store = createStore();
+        await store.dispatch(requestOtp(PHONE) as any);
+
+        await expect(store.dispatch(verifyOtp('111111') as any)).rejects.toBeInstanceOf(AuthError);
+        expect(selectAuth(store.getState())).toMatchObject({ status: 'failed', error: 'Invalid OTP code' });
+    });
+});
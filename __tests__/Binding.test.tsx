@@ -0,0 +1,152 @@
+/**
+ * Two-Way Binding Test Suite
+ * Tests bind normalization, input transforms, bind schema validation and bound inputs in the renderer
+ * @author Labor2Hire Team
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { Switch, TextInput } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import languageSlice from '../src/features/language/languageSlice';
+import remoteConfigSlice from '../src/features/remoteConfig/remoteConfigSlice';
+import screenStateSlice, { applyStateOperation } from '../src/features/screenState/screenStateSlice';
+import ProductionDynamicRenderer, { ComponentDefinition } from '../src/components/common/DynamicRenderer';
+import { applyInputTransforms, normalizeBinding } from '../src/utils/Binding';
+import { validateScreenConfigSchema } from '../src/services/ConfigSchema';
+
+const configWithInput = (bind: any) => ({
+    screenType: 'Auth',
+    metadata: { screenTitle: 'Login' },
+    components: [{ type: 'TextInput', bind }],
+});
+
+describe('normalizeBinding', () => {
+    test('roots string and object bindings under state', () => {
+        expect(normalizeBinding('auth.phoneNumber')).toEqual({ path: 'state.auth.phoneNumber' });
+        expect(normalizeBinding('state.auth.otpCode')).toEqual({ path: 'state.auth.otpCode' });
+        expect(normalizeBinding({ path: 'form.pin', maxLength: 4 })).toEqual({ path: 'state.form.pin', maxLength: 4 });
+    });
+
+    test('ignores missing bindings', () => {
+        expect(normalizeBinding(undefined)).toBeNull();
+        expect(normalizeBinding('')).toBeNull();
+    });
+});
+
+describe('applyInputTransforms', () => {
+    test('applies transforms in order, then max length', () => {
+        const binding = { path: 'state.auth.phoneNumber', transforms: ['trim', 'digits'] as any, maxLength: 10 };
+        expect(applyInputTransforms(' +91 98765-43210 99 ', binding)).toBe('9198765432');
+        expect(applyInputTransforms(' ab12cd ', { path: 'state.code', transforms: ['trim', 'uppercase'] })).toBe('AB12CD');
+    });
+
+    test('passes non-string values through unchanged', () => {
+        const binding = { path: 'state.agreed', transforms: ['trim'] as any, maxLength: 1 };
+        expect(applyInputTransforms(true, binding)).toBe(true);
+        expect(applyInputTransforms(42, binding)).toBe(42);
+    });
+});
+
+describe('bind schema', () => {
+    test('accepts string and object bindings', () => {
+        expect(validateScreenConfigSchema(configWithInput('state.auth.phoneNumber'))).toEqual([]);
+        expect(
+            validateScreenConfigSchema(configWithInput({ path: 'state.auth.otpCode', transforms: ['digits'], maxLength: 6 }))
+        ).toEqual([]);
+    });
+
+    test('rejects unknown transforms and bindings without a path', () => {
+        expect(validateScreenConfigSchema(configWithInput({ path: 'state.pin', transforms: ['reverse'] }))).toEqual([
+            { path: 'components[0].bind.transforms[0]', message: expect.any(String) },
+        ]);
+        expect(validateScreenConfigSchema(configWithInput({ maxLength: 4 }))[0].path).toBe('components[0].bind.path');
+    });
+});
+
+describe('bound components', () => {
+    const globalData = { screen: { name: 'Profile' } };
+    let useNavigation: jest.SpyInstance;
+
+    beforeEach(() => {
+        // The shared mock hands out a new navigation object per call; React Navigation keeps it stable per screen
+        useNavigation = jest.spyOn(jest.requireMock('@react-navigation/native'), 'useNavigation')
+            .mockReturnValue({ navigate: jest.fn() });
+    });
+
+    afterEach(() => {
+        useNavigation.mockRestore();
+    });
+
+    const renderBound = async (tree: ComponentDefinition[]) => {
+        const store = configureStore({
+            reducer: { language: languageSlice, remoteConfig: remoteConfigSlice, screenState: screenStateSlice },
+        });
+        let renderer: ReactTestRenderer.ReactTestRenderer;
+        await ReactTestRenderer.act(async () => {
+            renderer = ReactTestRenderer.create(
+                <Provider store={store}>
+                    <ProductionDynamicRenderer componentTree={tree} globalData={globalData} />
+                </Provider>
+            );
+        });
+        const setState = async (path: string, value: any) => {
+            await ReactTestRenderer.act(async () => {
+                store.dispatch(applyStateOperation({ screen: 'Profile', operation: 'set', path, value }));
+            });
+        };
+        const screen = () => store.getState().screenState.screens.Profile;
+        return { root: renderer!.root, setState, screen, unmount: () => ReactTestRenderer.act(async () => renderer.unmount()) };
+    };
+
+    test('round-trips a TextInput value through screen state, applying transforms', async () => {
+        const { root, setState, screen, unmount } = await renderBound([
+            { type: 'TextInput', bind: { path: 'state.phone', transforms: ['digits'], maxLength: 10 } },
+        ]);
+        const input = () => root.findByType(TextInput);
+        expect(input().props.value).toBe('');
+        expect(input().props.maxLength).toBe(10);
+
+        await ReactTestRenderer.act(async () => input().props.onChangeText('98765-43210 99'));
+        expect(screen().phone).toBe('9876543210');
+        expect(input().props.value).toBe('9876543210');
+
+        await setState('state.phone', 12345);
+        expect(input().props.value).toBe('12345');
+        await unmount();
+    });
+
+    test('round-trips a Switch value through screen state', async () => {
+        const { root, setState, screen, unmount } = await renderBound([{ type: 'Switch', bind: 'agreed' }]);
+        const toggle = () => root.findByType(Switch);
+        expect(toggle().props.value).toBe(false);
+
+        await ReactTestRenderer.act(async () => toggle().props.onValueChange(true));
+        expect(screen().agreed).toBe(true);
+        expect(toggle().props.value).toBe(true);
+
+        await setState('state.agreed', false);
+        expect(toggle().props.value).toBe(false);
+        await unmount();
+    });
+
+    test('round-trips a Picker selection through screen state', async () => {
+        const { root, setState, screen, unmount } = await renderBound([{
+            type: 'Picker',
+            bind: 'state.trade',
+            props: { options: [{ label: 'Mason', value: 'mason' }, { label: 'Painter', value: 'painter' }] },
+        }]);
+        const picker = () => root.findByType(Picker);
+        expect(picker().props.selectedValue).toBeUndefined();
+
+        await ReactTestRenderer.act(async () => picker().props.onValueChange('painter', 1));
+        expect(screen().trade).toBe('painter');
+        expect(picker().props.selectedValue).toBe('painter');
+
+        await setState('state.trade', 'mason');
+        expect(picker().props.selectedValue).toBe('mason');
+        await unmount();
+    });
+});
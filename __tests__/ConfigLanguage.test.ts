@@ -0,0 +1,96 @@
+/**
+ * Config Language Test Suite
+ * Tests per-language screen config variants negotiated with the server
+ * @author Labor2Hire Team
+ */
+
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import {
+    getLanguageConfigKey,
+    getScreenFromConfigKey,
+    stripConfigKeyLanguage,
+} from '../src/utils/ScreenConfigKey';
+
+const termsConfig = (title: string) => ({
+    screenType: 'Terms',
+    metadata: { screenTitle: title },
+    components: [{ type: 'Text', props: { text: title } }],
+});
+
+describe('Language config keys', () => {
+    test('insert the language between the screen and its params', () => {
+        expect(getLanguageConfigKey('Terms', 'hi')).toBe('Terms@hi');
+        expect(getLanguageConfigKey('JobDetails?jobId=42', 'hi')).toBe('JobDetails@hi?jobId=42');
+        expect(getLanguageConfigKey('JobDetails@en?jobId=42', 'hi')).toBe('JobDetails@hi?jobId=42');
+        expect(stripConfigKeyLanguage('JobDetails@hi?jobId=42')).toBe('JobDetails?jobId=42');
+        expect(getScreenFromConfigKey('JobDetails@hi?jobId=42')).toBe('JobDetails');
+    });
+});
+
+describe('ConfigClient language negotiation', () => {
+    test('sends the language, locale and app version with config requests', () => {
+        const { client, socket } = createConnectedClient({ appVersion: '2.4.0' });
+        client.setLanguage('hi', 'hi-IN');
+        expect(socket.emit).toHaveBeenCalledWith('requestFullConfig', { language: 'hi', locale: 'hi-IN', appVersion: '2.4.0' });
+
+        client.requestScreenConfig('JobDetails', { jobId: 7 });
+        expect(socket.emit).toHaveBeenLastCalledWith('requestScreenConfig', 'JobDetails', {
+            params: { jobId: 7 },
+            language: 'hi',
+            locale: 'hi-IN',
+            appVersion: '2.4.0',
+        });
+    });
+
+    test('caches each language variant and serves the current language', async () => {
+        const { client, handlers, onConfigUpdate, onFullConfigSync } = createConnectedClient({ appVersion: '2.4.0' });
+
+        await handlers.screenConfigUpdate({ screen: 'Terms', language: 'en', config: termsConfig('Terms') });
+        await handlers.screenConfigUpdate({ screen: 'Terms', language: 'hi', config: termsConfig('शर्तें') });
+
+        expect(onConfigUpdate).toHaveBeenCalledTimes(1);
+        expect(client.getScreenConfig('Terms')).toEqual(termsConfig('Terms'));
+
+        client.setLanguage('hi');
+        expect(client.getScreenConfig('Terms')).toEqual(termsConfig('शर्तें'));
+        expect(onFullConfigSync).toHaveBeenLastCalledWith(
+            { Terms: termsConfig('शर्तें') },
+            expect.objectContaining({ source: 'cache', language: 'hi' })
+        );
+
+        client.setLanguage('en');
+        expect(client.getAllConfigs()).toEqual({ Terms: termsConfig('Terms') });
+    });
+
+    test('falls back to the language the server declares for a screen, then to English', async () => {
+        const { client, handlers } = createConnectedClient({ appVersion: '2.4.0' });
+
+        await handlers.screenConfigUpdate({ screen: 'Terms', language: 'en', config: termsConfig('Terms') });
+        await handlers.screenConfigUpdate({
+            screen: 'Terms',
+            language: 'hi',
+            fallbackLanguage: 'hi',
+            config: termsConfig('शर्तें'),
+        });
+        await handlers.screenConfigUpdate({ screen: 'Home', language: 'en', config: termsConfig('Home') });
+
+        client.setLanguage('mr');
+        expect(client.getAllConfigs()).toEqual({ Terms: termsConfig('शर्तें'), Home: termsConfig('Home') });
+    });
+
+    test('stores a full sync as the variants of its language', async () => {
+        const { client, handlers, onFullConfigSync } = createConnectedClient({ appVersion: '2.4.0' });
+
+        await handlers.fullConfigSync({ language: 'en', configs: { Terms: termsConfig('Terms') } });
+        client.setLanguage('hi');
+        await handlers.fullConfigSync({ language: 'hi', configs: { Terms: termsConfig('शर्तें') } });
+
+        expect(onFullConfigSync).toHaveBeenLastCalledWith(
+            { Terms: termsConfig('शर्तें') },
+            expect.objectContaining({ source: 'server' })
+        );
+
+        client.setLanguage('en');
+        expect(client.getScreenConfig('Terms')).toEqual(termsConfig('Terms'));
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Delta Config Update Test Suite
+ * Tests JSON Patch application and the screenConfigPatch flow in ConfigClient
+ * @author Labor2Hire Team
+ */
+
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import { applyJsonPatch, JsonPatchError } from '../src/utils/JsonPatch';
+import { canonicalJson, computeConfigHash } from '../src/utils/ConfigHash';
+
+const baseConfig = {
+    screenType: 'Auth',
+    metadata: { screenTitle: 'Login', version: '1.0.0' },
+    components: [
+        { type: 'Text', id: 'title', props: { text: 'Welcome' } },
+        { type: 'Text', id: 'subtitle', props: { text: 'Sign in' } },
+    ],
+};
+
+describe('JSON Patch', () => {
+    test('applies add, replace, remove, move, copy and test operations', () => {
+        const result = applyJsonPatch(baseConfig, [
+            { op: 'test', path: '/screenType', value: 'Auth' },
+            { op: 'replace', path: '/components/0/props/text', value: 'Hello' },
+            { op: 'add', path: '/components/-', value: { type: 'View' } },
+            { op: 'copy', from: '/metadata/version', path: '/metadata/previousVersion' },
+            { op: 'move', from: '/components/1', path: '/components/0' },
+            { op: 'remove', path: '/metadata/screenTitle' },
+        ]);
+
+        expect(result.components.map((c: any) => c.id)).toEqual(['subtitle', 'title', undefined]);
+        expect(result.components[1].props.text).toBe('Hello');
+        expect(result.metadata).toEqual({ version: '1.0.0', previousVersion: '1.0.0' });
+    });
+
+    test('never mutates the source document', () => {
+        applyJsonPatch(baseConfig, [{ op: 'replace', path: '/screenType', value: 'Other' }]);
+        expect(baseConfig.screenType).toBe('Auth');
+    });
+
+    test('rejects operations on missing paths', () => {
+        expect(() =>
+            applyJsonPatch(baseConfig, [{ op: 'replace', path: '/components/5/type', value: 'View' }])
+        ).toThrow(JsonPatchError);
+        expect(() =>
+            applyJsonPatch(baseConfig, [{ op: 'test', path: '/screenType', value: 'Home' }])
+        ).toThrow(JsonPatchError);
+    });
+
+    test('decodes escaped pointer tokens', () => {
+        const result = applyJsonPatch({ 'a/b': { '~c': 1 } }, [{ op: 'replace', path: '/a~1b/~0c', value: 2 }]);
+        expect(result).toEqual({ 'a/b': { '~c': 2 } });
+    });
+});
+
+describe('Config hashing', () => {
+    test('is independent of object key order', () => {
+        expect(canonicalJson({ b: 1, a: [1, { d: 2, c: 3 }] })).toBe('{"a":[1,{"c":3,"d":2}],"b":1}');
+        expect(computeConfigHash({ b: 1, a: 2 })).toBe(computeConfigHash({ a: 2, b: 1 }));
+    });
+});
+
+describe('ConfigClient screenConfigPatch', () => {
+    test('applies a patch and forwards the result to onConfigUpdate', async () => {
+        const { client, handlers, onConfigUpdate } = createConnectedClient();
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: baseConfig });
+
+        const patch = [{ op: 'replace', path: '/components/0/props/text', value: 'Namaste' }];
+        const target = applyJsonPatch(baseConfig, patch as any);
+
+        await handlers.screenConfigPatch({
+            screen: 'Auth',
+            patch,
+            baseHash: computeConfigHash(baseConfig),
+            targetHash: computeConfigHash(target),
+        });
+
+        expect(onConfigUpdate).toHaveBeenLastCalledWith('Auth', target, expect.objectContaining({ source: 'patch' }));
+        expect(client.getScreenConfig('Auth')).toEqual(target);
+        expect(client.getMetrics().patchesApplied).toBe(1);
+    });
+
+    test('requests the full screen when the base hash does not match', async () => {
+        const { client, socket, handlers, onConfigUpdate } = createConnectedClient();
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: baseConfig });
+        onConfigUpdate.mockClear();
+
+        await handlers.screenConfigPatch({
+            screen: 'Auth',
+            patch: [{ op: 'replace', path: '/screenType', value: 'Login' }],
+            baseHash: 'stale',
+        });
+
+        expect(onConfigUpdate).not.toHaveBeenCalled();
+        expect(socket.emit).toHaveBeenCalledWith('requestScreenConfig', 'Auth', expect.objectContaining({ language: 'en' }));
+        expect(client.getScreenConfig('Auth')).toEqual(baseConfig);
+    });
+
+    test('requests the full screen when the result hash does not match', async () => {
+        const { client, socket, handlers } = createConnectedClient();
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: baseConfig });
+
+        await handlers.screenConfigPatch({
+            screen: 'Auth',
+            patch: [{ op: 'replace', path: '/screenType', value: 'Login' }],
+            targetHash: computeConfigHash(baseConfig),
+        });
+
+        expect(socket.emit).toHaveBeenCalledWith('requestScreenConfig', 'Auth', expect.objectContaining({ language: 'en' }));
+        expect(client.getScreenConfig('Auth')).toEqual(baseConfig);
+        expect(client.getMetrics().patchResyncs).toBe(1);
+    });
+
+    test('requests the full screen when no base config is cached', async () => {
+        const { socket, handlers } = createConnectedClient();
+
+        await handlers.screenConfigPatch({
+            screen: 'Home',
+            patch: [{ op: 'add', path: '/components/-', value: { type: 'View' } }],
+        });
+
+        expect(socket.emit).toHaveBeenCalledWith('requestScreenConfig', 'Home', expect.objectContaining({ language: 'en' }));
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * Screen Config Schema Validation Test Suite
+ * Tests path-precise schema validation and rejection of invalid configs at ingest
+ * @author Labor2Hire Team
+ */
+
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import { ConfigValidationError, validateFragmentSchema, validateScreenConfigSchema } from '../src/services/ConfigSchema';
+
+const validConfig = {
+    screenType: 'Auth',
+    metadata: { screenTitle: 'Login' },
+    components: [
+        {
+            type: 'View',
+            children: [
+                { type: 'Text', props: { text: 'Phone' } },
+                {
+                    type: 'TouchableOpacity',
+                    actions: {
+                        onPress: {
+                            type: 'requestOtp',
+                            payload: { phone: '{{state.phoneNumber}}' },
+                            condition: { operator: 'exists', field: 'state.phoneNumber' },
+                            retry: { maxAttempts: 2, backoff: 'exponential' },
+                        },
+                    },
+                    accessibility: { label: 'Send OTP', state: { disabled: false } },
+                    validation: { required: true, pattern: '^\\d{10}$' },
+                },
+            ],
+        },
+    ],
+};
+
+const withComponent = (component: any) => ({
+    ...validConfig,
+    components: [{ type: 'View', children: [{ type: 'Text' }, { type: 'Text' }, { type: 'Text' }, component] }],
+});
+
+describe('Screen config schema', () => {
+    test('accepts a well formed config', () => {
+        expect(validateScreenConfigSchema(validConfig)).toEqual([]);
+    });
+
+    test('reports deep errors with precise paths', () => {
+        const issues = validateScreenConfigSchema(
+            withComponent({ type: 'TouchableOpacity', actions: { onPress: { type: 42 } } })
+        );
+
+        expect(issues).toEqual([
+            { path: 'components[0].children[3].actions.onPress.type', message: 'must be string' },
+        ]);
+    });
+
+    test('reports missing required fields and invalid nested definitions', () => {
+        const issues = validateScreenConfigSchema({
+            screenType: 'Auth',
+            components: [
+                { props: {} },
+                { type: 'Text', conditions: { show: { operator: 'sometimes' } } },
+                { type: 'Text', accessibility: { traits: ['button', 3] } },
+                { type: 'TextInput', validation: { pattern: '([a-z' } },
+            ],
+        });
+
+        expect(issues.map(issue => issue.path)).toEqual([
+            'metadata',
+            'components[0].type',
+            'components[1].conditions.show.operator',
+            'components[2].accessibility.traits[1]',
+            'components[3].validation.pattern',
+        ]);
+    });
+
+    test('validates composite actions and their nested steps', () => {
+        const onPress = {
+            type: 'sequence',
+            actions: [
+                { type: 'validation', payload: { rules: { required: true } } },
+                { type: 'requestOtp', payload: { phone: '{{state.phoneNumber}}' }, resultAs: 'otpResponse', onError: { type: 'showToast' } },
+                {
+                    type: 'if',
+                    condition: { operator: 'exists', field: 'vars.otpResponse' },
+                    then: [{ type: 'showToast' }, { type: 'navigate' }],
+                    else: { type: 'showAlert' },
+                },
+            ],
+        };
+        expect(validateScreenConfigSchema(withComponent({ type: 'TouchableOpacity', actions: { onPress } }))).toEqual([]);
+
+        const issues = validateScreenConfigSchema(withComponent({
+            type: 'TouchableOpacity',
+            actions: { onPress: { type: 'sequence', actions: [{ type: 'navigate', resultAs: '' }, { payload: {} }] } },
+        }));
+        expect(issues.map(issue => issue.path)).toEqual([
+            'components[0].children[3].actions.onPress.actions[0].resultAs',
+            'components[0].children[3].actions.onPress.actions[1].type',
+        ]);
+    });
+
+    test('validates list data sources and item templates', () => {
+        const jobList = {
+            type: 'FlatList',
+            id: 'jobs',
+            dataSource: {
+                api: { url: '/jobs?q={{state.query}}', select: '$.data.jobs' },
+                pagination: { type: 'cursor', nextCursor: '$.meta.next', threshold: 0.3 },
+                loadingPath: 'jobsLoading',
+            },
+            itemTemplate: { type: 'Text', props: { text: '{{item.title}}' } },
+            keyExtractor: 'id',
+            emptyTemplate: { type: 'Text', props: { text: 'No jobs found' } },
+            footerLoadingTemplate: { type: 'ActivityIndicator' },
+        };
+        expect(validateScreenConfigSchema(withComponent(jobList))).toEqual([]);
+        expect(validateScreenConfigSchema(withComponent({ ...jobList, dataSource: 'state.jobs' }))).toEqual([]);
+
+        const issues = validateScreenConfigSchema(withComponent({
+            ...jobList,
+            dataSource: { api: { method: 'GET' } },
+            itemTemplate: { props: {} },
+        }));
+        expect(issues.map(issue => issue.path)).toEqual(expect.arrayContaining([
+            'components[0].children[3].itemTemplate.type',
+        ]));
+        expect(issues.some(issue => issue.path.startsWith('components[0].children[3].dataSource'))).toBe(true);
+
+        const paginationIssues = validateScreenConfigSchema(withComponent({
+            ...jobList,
+            dataSource: { api: { url: '/jobs' }, pagination: { type: 'offset', pageSize: 0 } },
+        }));
+        expect(paginationIssues.map(issue => issue.path)).toEqual(expect.arrayContaining([
+            'components[0].children[3].dataSource.pagination.type',
+            'components[0].children[3].dataSource.pagination.pageSize',
+        ]));
+    });
+});
+
+describe('Fragment references', () => {
+    test('accepts references with overrides and fragments', () => {
+        const config = withComponent({ $ref: 'primaryButton', props: { disabled: true }, children: [{ $ref: 'buttonLabel' }] });
+
+        expect(validateScreenConfigSchema(config)).toEqual([]);
+        expect(validateFragmentSchema('primaryButton', { type: 'TouchableOpacity' })).toEqual([]);
+        expect(validateFragmentSchema('buttonLabel', { $ref: 'label', style: {} })).toEqual([]);
+    });
+
+    test('validates overrides and fragments like components', () => {
+        const issues = validateScreenConfigSchema(withComponent({ $ref: '', actions: { onPress: {} } }));
+
+        expect(issues.map(issue => issue.path)).toEqual([
+            'components[0].children[3].$ref',
+            'components[0].children[3].actions.onPress.type',
+        ]);
+        expect(validateFragmentSchema('header', { props: {} }).map(issue => issue.path)).toEqual(['header.type']);
+    });
+});
+
+describe('Theme', () => {
+    test('validates theme tokens and style references', () => {
+        const config = {
+            ...withComponent({ type: 'View', styleRef: ['card', 'button.primary'], style: { margin: '$spacing.sm' } }),
+            theme: { tokens: { colors: { primary: '#007AFF' } }, dark: { colors: {} }, styles: { card: { padding: 8 } } },
+        };
+        expect(validateScreenConfigSchema(config)).toEqual([]);
+
+        const issues = validateScreenConfigSchema({
+            ...withComponent({ type: 'View', styleRef: [''] }),
+            theme: { tokens: { colors: '#007AFF' } },
+        });
+        expect(issues.map(issue => issue.path)).toEqual([
+            'components[0].children[3].styleRef[0]',
+            'theme.tokens.colors',
+        ]);
+    });
+});
+
+describe('Variants', () => {
+    test('validates variant blocks', () => {
+        const variants = { 'platform:ios': { style: { paddingTop: 20 } }, 'width>600': { props: { numColumns: 2 } } };
+        expect(validateScreenConfigSchema(withComponent({ type: 'FlatList', variants }))).toEqual([]);
+
+        const issues = validateScreenConfigSchema(withComponent({ type: 'View', variants: { 'width>600': { style: 'wide' } } }));
+        expect(issues.map(issue => issue.path)).toEqual(['components[0].children[3].variants["width>600"].style']);
+    });
+});
+
+describe('Expression conditions', () => {
+    test('validates condition expressions', () => {
+        const show = { expr: 'state.auth.phoneNumber.length == 10 && !state.auth.isLoading' };
+        expect(validateScreenConfigSchema(withComponent({ type: 'Text', conditions: { show } }))).toEqual([]);
+
+        const issues = validateScreenConfigSchema(withComponent({ type: 'Text', conditions: { hide: { expr: 'state.count >' } } }));
+        expect(issues).toEqual([
+            { path: 'components[0].children[3].conditions.hide.expr', message: 'must be a valid expression' },
+        ]);
+    });
+});
+
+describe('ConfigClient config ingest', () => {
+    test('rejects an invalid update, keeps the last good config and reports the issues', async () => {
+        const { client, handlers, onConfigUpdate, onError } = createConnectedClient();
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: validConfig });
+        onConfigUpdate.mockClear();
+
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: withComponent({ type: 'Text', children: {} }) });
+
+        expect(onConfigUpdate).not.toHaveBeenCalled();
+        expect(client.getScreenConfig('Auth')).toEqual(validConfig);
+
+        const [type, error] = onError.mock.calls[onError.mock.calls.length - 1];
+        expect(type).toBe('invalid_config');
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect(error.issues[0].path).toBe('components[0].children[3].children');
+    });
+
+    test('keeps the last good version of invalid screens during a full sync', async () => {
+        const { client, handlers, onError } = createConnectedClient();
+        await handlers.screenConfigUpdate({ screen: 'Auth', config: validConfig });
+
+        await handlers.fullConfigSync({
+            configs: {
+                Auth: { ...validConfig, components: 'broken' },
+                Home: { ...validConfig, screenType: 'Home' },
+            },
+        });
+
+        expect(client.getScreenConfig('Auth')).toEqual(validConfig);
+        expect(client.getScreenConfig('Home').screenType).toBe('Home');
+        expect(onError).toHaveBeenCalledWith('invalid_config', expect.any(ConfigValidationError));
+    });
+});
@@ -0,0 +1,270 @@
+/**
+ * Config Signature Verification Test Suite
+ * Tests Ed25519 verification of pushed configs against pinned keys
+ * @author Labor2Hire Team
+ */
+
+import nacl from 'tweetnacl';
+import { encodeBase64 } from 'tweetnacl-util';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ConfigClient } from '../src/services/ConfigClient';
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import {
+    ConfigSignatureError,
+    ConfigSigningKey,
+    getSignedConfigPayload,
+    getSignedFragmentPayload,
+    getSignedTranslationsPayload,
+    verifyConfigSignature,
+} from '../src/services/ConfigSignature';
+
+const config = {
+    screenType: 'Auth',
+    metadata: { screenTitle: 'Login' },
+    components: [{ type: 'Text', props: { text: 'Welcome' } }],
+};
+
+const currentKeys = nacl.sign.keyPair();
+const previousKeys = nacl.sign.keyPair();
+
+const trustedKeys: ConfigSigningKey[] = [
+    { keyId: 'config-2025-06', publicKey: encodeBase64(currentKeys.publicKey) },
+    { keyId: 'config-2025-01', publicKey: encodeBase64(previousKeys.publicKey), expiresAt: '2030-01-01T00:00:00Z' },
+];
+
+const sign = (screen: string, value: any, keyId = 'config-2025-06', secretKey = currentKeys.secretKey) => ({
+    keyId,
+    algorithm: 'ed25519' as const,
+    value: encodeBase64(nacl.sign.detached(getSignedConfigPayload(screen, value), secretKey)),
+});
+
+const signTranslations = (language: string, translations: Record<string, any>) => ({
+    keyId: 'config-2025-06',
+    value: encodeBase64(nacl.sign.detached(getSignedTranslationsPayload(language, translations), currentKeys.secretKey)),
+});
+
+const signFragment = (name: string, fragment: any) => ({
+    keyId: 'config-2025-06',
+    value: encodeBase64(nacl.sign.detached(getSignedFragmentPayload(name, fragment), currentKeys.secretKey)),
+});
+
+const signedClientOptions = { requireSignatures: true, signingKeys: trustedKeys };
+
+describe('verifyConfigSignature', () => {
+    test('accepts a config signed by any active pinned key', () => {
+        expect(verifyConfigSignature('Auth', config, sign('Auth', config), trustedKeys).valid).toBe(true);
+        expect(
+            verifyConfigSignature('Auth', config, sign('Auth', config, 'config-2025-01', previousKeys.secretKey), trustedKeys).valid
+        ).toBe(true);
+    });
+
+    test('rejects tampered configs and configs replayed onto another screen', () => {
+        const signature = sign('Auth', config);
+        expect(verifyConfigSignature('Auth', { ...config, screenType: 'Evil' }, signature, trustedKeys)).toEqual({
+            valid: false,
+            reason: 'signature does not match',
+        });
+        expect(verifyConfigSignature('Home', config, signature, trustedKeys).valid).toBe(false);
+    });
+
+    test('rejects configs replayed onto another language or params', () => {
+        const signature = sign('JobDetails@hi?jobId=42', config);
+        expect(verifyConfigSignature('JobDetails@hi?jobId=42', config, signature, trustedKeys).valid).toBe(true);
+        expect(verifyConfigSignature('JobDetails@en?jobId=42', config, signature, trustedKeys).valid).toBe(false);
+        expect(verifyConfigSignature('JobDetails@hi?jobId=43', config, signature, trustedKeys).valid).toBe(false);
+        expect(verifyConfigSignature('JobDetails@hi', config, signature, trustedKeys).valid).toBe(false);
+    });
+
+    test('rejects missing signatures, unknown keys and expired keys', () => {
+        expect(verifyConfigSignature('Auth', config, undefined, trustedKeys).reason).toBe('missing signature');
+        expect(verifyConfigSignature('Auth', config, sign('Auth', config, 'rogue'), trustedKeys).reason).toBe(
+            'unknown signing key rogue'
+        );
+
+        const expired = sign('Auth', config, 'config-2025-01', previousKeys.secretKey);
+        expect(verifyConfigSignature('Auth', config, expired, trustedKeys, Date.parse('2031-01-01')).reason).toBe(
+            'signing key config-2025-01 has expired'
+        );
+    });
+});
+
+describe('ConfigClient signature enforcement', () => {
+    test('refuses to connect and says why when signatures are required but no keys are pinned', () => {
+        const onError = jest.fn();
+        const client = new ConfigClient({ offlineSupport: false, signingKeys: [], allowUnsignedInDev: false, onError });
+        client.connect();
+
+        expect(client.socket).toBeNull();
+        expect(onError).toHaveBeenCalledWith(
+            'signing_keys_missing',
+            expect.objectContaining({ message: expect.stringContaining('CONFIG_SIGNING_KEYS') })
+        );
+    });
+
+    test('accepts unsigned configs in development builds without pinned keys, with a warning', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const { handlers, onConfigUpdate, onError } = createConnectedClient({ requireSignatures: true, signingKeys: [] });
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('CONFIG SIGNATURES ARE NOT VERIFIED'));
+        await handlers.screenConfigUpdate({ screen: 'Auth', config });
+        expect(onConfigUpdate).toHaveBeenCalledWith('Auth', config, expect.anything());
+        expect(onError).not.toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    test('refuses to connect without pinned keys outside development builds', () => {
+        const dev = (global as any).__DEV__;
+        (global as any).__DEV__ = false;
+        const onError = jest.fn();
+        try {
+            const client = new ConfigClient({ offlineSupport: false, signingKeys: [], onError });
+            client.connect();
+            expect(client.socket).toBeNull();
+            expect(onError).toHaveBeenCalledWith('signing_keys_missing', expect.any(Error));
+        } finally {
+            (global as any).__DEV__ = dev;
+        }
+    });
+
+    test('accepts signed screen updates', async () => {
+        const { client, handlers, onConfigUpdate } = createConnectedClient(signedClientOptions);
+
+        await handlers.screenConfigUpdate({ screen: 'Auth', config, signature: sign('Auth@en', config) });
+
+        expect(onConfigUpdate).toHaveBeenCalledWith('Auth', config, expect.anything());
+        expect(client.getScreenConfig('Auth')).toEqual(config);
+    });
+
+    test('verifies updates against the language and params they are stored under', async () => {
+        const { client, handlers, onConfigUpdate } = createConnectedClient(signedClientOptions);
+        const params = { jobId: 42 };
+
+        await handlers.screenConfigUpdate({
+            screen: 'JobDetails', params, language: 'hi', config, signature: sign('JobDetails@en?jobId=42', config),
+        });
+        await handlers.screenConfigUpdate({
+            screen: 'JobDetails', params: { jobId: 43 }, config, signature: sign('JobDetails@en?jobId=42', config),
+        });
+        expect(onConfigUpdate).not.toHaveBeenCalled();
+
+        await handlers.screenConfigUpdate({
+            screen: 'JobDetails', params, config, signature: sign('JobDetails@en?jobId=42', config),
+        });
+        expect(client.getScreenConfig('JobDetails?jobId=42')).toEqual(config);
+    });
+
+    test('drops unsigned and badly signed updates with signature_invalid', async () => {
+        const { client, handlers, onConfigUpdate, onError } = createConnectedClient(signedClientOptions);
+
+        await handlers.screenConfigUpdate({ screen: 'Auth', config });
+        await handlers.configUpdate({ screen: 'Auth', config, signature: sign('Home@en', config) });
+
+        expect(onConfigUpdate).not.toHaveBeenCalled();
+        expect(client.getScreenConfig('Auth')).toBeNull();
+        expect(onError).toHaveBeenCalledTimes(2);
+        expect(onError).toHaveBeenCalledWith('signature_invalid', expect.any(ConfigSignatureError));
+    });
+
+    test('verifies each screen of a full sync separately', async () => {
+        const home = { ...config, screenType: 'Home' };
+        const { client, handlers, onError } = createConnectedClient(signedClientOptions);
+
+        await handlers.fullConfigSync({
+            configs: { Auth: config, Home: home },
+            signatures: { Auth: sign('Auth@en', config) },
+        });
+
+        expect(client.getScreenConfig('Auth')).toEqual(config);
+        expect(client.getScreenConfig('Home')).toBeNull();
+        expect(onError).toHaveBeenCalledWith('signature_invalid', expect.any(ConfigSignatureError));
+    });
+
+    test('drops cached configs whose signatures no longer verify', async () => {
+        const storage: Record<string, string> = {
+            '@Labor2Hire:ConfigCache:': JSON.stringify({ 'Auth@en': config, 'Home@en': { ...config, screenType: 'Home' } }),
+            '@Labor2Hire:ConfigSignatures': JSON.stringify({ 'Auth@en': sign('Auth@en', config), 'Home@en': sign('Auth@en', config) }),
+        };
+        (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+
+        const client = new ConfigClient({ signingKeys: trustedKeys, onError: jest.fn() });
+        await new Promise<void>(resolve => setImmediate(() => resolve()));
+
+        expect(client.getScreenConfig('Auth')).toEqual(config);
+        expect(client.getScreenConfig('Home')).toBeNull();
+
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(() => Promise.resolve(null));
+    });
+
+    test('restores only verified cached configs into the app', async () => {
+        const storage: Record<string, string> = {
+            '@Labor2Hire:ConfigCache:': JSON.stringify({ 'Auth@en': config, 'Home@en': { ...config, screenType: 'Home' } }),
+            '@Labor2Hire:ConfigSignatures': JSON.stringify({ 'Auth@en': sign('Auth@en', config) }),
+        };
+        (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+
+        const onFullConfigSync = jest.fn();
+        const client = new ConfigClient({ signingKeys: trustedKeys, onFullConfigSync, onError: jest.fn() });
+        await client.restoreCachedConfigurations();
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(() => Promise.resolve(null));
+
+        expect(onFullConfigSync).toHaveBeenCalledWith({ Auth: config }, expect.objectContaining({ source: 'cache' }));
+    });
+});
+
+describe('Fragment signatures', () => {
+    const header = { type: 'Text', props: { text: 'Labor2Hire' } };
+
+    test('accepts signed fragments and drops unsigned or renamed ones', async () => {
+        const { client, handlers, onFragmentsUpdate, onError } = createConnectedClient(signedClientOptions);
+
+        await handlers.fragmentsUpdate({
+            fragments: [
+                { name: 'header', fragment: header, signature: signFragment('header', header) },
+                { name: 'footer', fragment: header, signature: signFragment('header', header) },
+                { name: 'banner', fragment: header },
+            ],
+        });
+
+        expect(client.getFragments()).toEqual({ header });
+        expect(onFragmentsUpdate).toHaveBeenCalledWith({ header }, expect.anything());
+        expect(onError).toHaveBeenCalledTimes(2);
+        expect(onError).toHaveBeenCalledWith('signature_invalid', expect.any(ConfigSignatureError));
+    });
+});
+
+describe('Translation bundle signatures', () => {
+    const translations = { links: { help: 'https://labor2hire.example/help' } };
+
+    test('accepts signed bundles and drops unsigned or re-targeted ones', async () => {
+        const onTranslationsUpdate = jest.fn();
+        const { client, handlers, onError } = createConnectedClient({ ...signedClientOptions, onTranslationsUpdate });
+
+        await handlers.translationsUpdate({ language: 'hi', translations });
+        await handlers.translationsUpdate({ language: 'hi', translations, signature: signTranslations('ta', translations) });
+        expect(onTranslationsUpdate).not.toHaveBeenCalled();
+        expect(client.getTranslations('hi')).toBeNull();
+        expect(onError).toHaveBeenCalledWith('signature_invalid', expect.any(ConfigSignatureError));
+
+        await handlers.translationsUpdate({ language: 'hi', translations, signature: signTranslations('hi', translations) });
+        expect(onTranslationsUpdate).toHaveBeenCalledWith('hi', translations, expect.anything());
+    });
+
+    test('drops cached bundles whose signatures no longer verify', async () => {
+        const tampered = { links: { help: 'https://attacker.example' } };
+        const storage: Record<string, string> = {
+            '@Labor2Hire:Translations:hi': JSON.stringify({ translations: tampered, signature: signTranslations('hi', translations) }),
+            '@Labor2Hire:Translations:mr': JSON.stringify({ translations, signature: signTranslations('mr', translations) }),
+        };
+        (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+
+        const onTranslationsUpdate = jest.fn();
+        const client = new ConfigClient({ signingKeys: trustedKeys, onTranslationsUpdate, onError: jest.fn() });
+        await client.requestTranslations('hi');
+        await client.requestTranslations('mr');
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(() => Promise.resolve(null));
+
+        expect(client.getTranslations('hi')).toBeNull();
+        expect(onTranslationsUpdate).toHaveBeenCalledTimes(1);
+        expect(onTranslationsUpdate).toHaveBeenCalledWith('mr', translations, expect.objectContaining({ source: 'cache' }));
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Deep Link Test Suite
+ * Tests deep link parsing, route path matching and opening links through navigation
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import remoteConfigReducer, { updateScreenConfig } from '../src/features/remoteConfig/remoteConfigSlice';
+import sessionReducer from '../src/features/session/sessionSlice';
+import userReducer from '../src/features/user/userSlice';
+import languageReducer from '../src/features/language/languageSlice';
+import navigationReducer, {
+    openDeepLink,
+    selectCurrentRoute,
+    selectNavigationStack,
+    selectPendingRedirect,
+} from '../src/features/navigation/navigationSlice';
+import { matchRoutePath, parseDeepLink, resolveDeepLink } from '../src/features/navigation/deepLinks';
+
+const appConfig = {
+    navigation: {
+        linkHosts: ['labor2hire.com'],
+        routes: [
+            { name: 'Login', component: 'Auth' },
+            { name: 'Jobs', component: 'JobList', path: '/jobs' },
+            { name: 'JobDetails', component: 'JobDetails', path: '/jobs/:jobId' },
+            { name: 'JobApplication', component: 'JobApplication', path: '/jobs/:jobId/apply', requiresAuth: true },
+        ],
+        guardFallbacks: { auth: 'Login' },
+    },
+};
+
+describe('Deep link parsing', () => {
+    test('treats the host of custom scheme links as the first path segment', () => {
+        expect(parseDeepLink(appConfig, 'labor2hire://jobs/42?ref=sms')).toEqual({
+            path: '/jobs/42',
+            query: { ref: 'sms' },
+        });
+    });
+
+    test('accepts https links only from declared hosts', () => {
+        expect(parseDeepLink(appConfig, 'https://labor2hire.com/jobs/42')).toEqual({ path: '/jobs/42', query: {} });
+        expect(parseDeepLink(appConfig, 'https://example.com/jobs/42')).toBeNull();
+        expect(parseDeepLink(appConfig, 'not a url')).toBeNull();
+    });
+
+    test('matches path patterns and decodes params', () => {
+        expect(matchRoutePath('/jobs/:jobId', '/jobs/a%20b')).toEqual({ jobId: 'a b' });
+        expect(matchRoutePath('/jobs/:jobId', '/jobs/42/apply')).toBeNull();
+        expect(matchRoutePath('/jobs', '/Jobs/')).toEqual({});
+    });
+
+    test('resolves the first declared route whose path matches', () => {
+        expect(resolveDeepLink(appConfig, 'labor2hire://jobs/42/apply?source=push')).toEqual({
+            route: 'JobApplication',
+            params: { source: 'push', jobId: '42' },
+        });
+        expect(resolveDeepLink(appConfig, 'labor2hire://profile')).toBeNull();
+    });
+});
+
+describe('openDeepLink', () => {
+    const createStore = () => {
+        const store = configureStore({
+            reducer: {
+                remoteConfig: remoteConfigReducer,
+                navigation: navigationReducer,
+                session: sessionReducer,
+                user: userReducer,
+                language: languageReducer,
+            },
+        });
+        store.dispatch(updateScreenConfig({ screen: 'App', config: appConfig }));
+        return store;
+    };
+
+    test('pushes the matched route with its params', () => {
+        const store = createStore();
+        expect(store.dispatch(openDeepLink('https://labor2hire.com/jobs/42') as any)).toBe(true);
+
+        expect(selectCurrentRoute(store.getState())).toEqual({
+            name: 'JobDetails',
+            screen: 'JobDetails',
+            params: { jobId: '42' },
+        });
+        expect(selectNavigationStack(store.getState())).toHaveLength(2);
+    });
+
+    test('applies route guards to linked routes', () => {
+        const store = createStore();
+        store.dispatch(openDeepLink('labor2hire://jobs/42/apply') as any);
+
+        expect(selectCurrentRoute(store.getState()).name).toBe('Login');
+        expect(selectPendingRedirect(store.getState())?.route.params).toEqual({ jobId: '42' });
+    });
+
+    test('ignores links without a matching route', () => {
+        const store = createStore();
+        expect(store.dispatch(openDeepLink('labor2hire://unknown') as any)).toBe(false);
+        expect(selectNavigationStack(store.getState())).toHaveLength(1);
+    });
+});
@@ -4,14 +4,23 @@
  * @author Labor2Hire Team
  */
 
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import languageSlice from '../src/features/language/languageSlice';
-import remoteConfigSlice from '../src/features/remoteConfig/remoteConfigSlice';
-import {
+import remoteConfigSlice, { updateScreenConfig } from '../src/features/remoteConfig/remoteConfigSlice';
+import screenStateSlice from '../src/features/screenState/screenStateSlice';
+import sessionSlice from '../src/features/session/sessionSlice';
+import authSlice from '../src/features/auth/authSlice';
+import navigationSlice from '../src/features/navigation/navigationSlice';
+import ProductionDynamicRenderer, {
     EnhancedActionHandler,
     ComponentDefinition,
     ActionDefinition
 } from '../src/components/common/DynamicRenderer';
+import { addTranslations } from '../src/services/i18n';
+import { FakeAuthProvider, setAuthProvider } from '../src/services/auth';
 
 // Create test store
 const createTestStore = () => configureStore({
@@ -194,6 +203,25 @@ describe('🔧 Backend-Driven UI System Validation', () => {
 
             console.log('✅ Language Selection Integration: WORKING');
         });
+
+        test('takes the phone and OTP for auth actions from their payloads only', async () => {
+            setAuthProvider(new FakeAuthProvider({ otpCode: '123456' }));
+            const store = configureStore({
+                reducer: { auth: authSlice, session: sessionSlice, screenState: screenStateSlice, navigation: navigationSlice },
+            });
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Login' } }, undefined, store.getState
+            );
+            actionHandler.setBoundValue('state.auth.phoneNumber', '9876543210');
+            actionHandler.setBoundValue('state.auth.otpCode', '123456');
+
+            await expect(actionHandler.executeAction({ type: 'requestOtp' })).rejects.toThrow(/requestOtp needs a phone number/);
+            await expect(actionHandler.executeAction({ type: 'verifyOtp' })).rejects.toThrow(/verifyOtp needs the entered code/);
+
+            await actionHandler.executeAction({ type: 'requestOtp', payload: { phone: '{{state.auth.phoneNumber}}' } });
+            await actionHandler.executeAction({ type: 'verifyOtp', payload: { otp: '{{state.auth.otpCode}}' } });
+            expect(store.getState().session.accessToken).toBeTruthy();
+        });
     });
 
     describe('🧠 Advanced Features Validation', () => {
@@ -226,6 +254,21 @@ describe('🔧 Backend-Driven UI System Validation', () => {
             console.log(`✅ Condition Operators: ${testCases.length} operators validated`);
         });
 
+        test('evaluates expressions in conditions and templates', () => {
+            const actionHandler = new EnhancedActionHandler(mockStore.dispatch, mockNavigation, {
+                state: { auth: { phoneNumber: '9876543210', isLoading: false }, job: { wage: 650 }, days: 3 },
+            });
+
+            expect(actionHandler.evaluateCondition({ expr: 'state.auth.phoneNumber.length == 10 && !state.auth.isLoading' })).toBe(true);
+            expect(actionHandler.evaluateCondition({ expr: 'item.pay > state.job.wage' }, { item: { pay: 500 } })).toBe(false);
+            expect(actionHandler.evaluateCondition({ expr: 'state.days >' })).toBe(false);
+
+            expect(actionHandler.interpolatePayload('{{ state.job.wage * state.days }}')).toBe(1950);
+            expect(actionHandler.interpolatePayload("{{ state.days > 1 ? state.days + ' days' : '1 day' }}")).toBe('3 days');
+            expect(actionHandler.interpolatePayload("Total {{ state.job.wage * state.days | currency:'INR' }}"))
+                .toBe('Total ₹1,950');
+        });
+
         test('validates error handling in action execution', async () => {
             const actionHandler = new EnhancedActionHandler(
                 mockStore.dispatch,
@@ -245,6 +288,366 @@ describe('🔧 Backend-Driven UI System Validation', () => {
         });
     });
 
+    describe('🔗 Action Chaining Validation', () => {
+        test('runs sequence steps in order and chains results through vars', async () => {
+            const dispatch = jest.fn();
+            const actionHandler = new EnhancedActionHandler(dispatch, mockNavigation, {});
+            actionHandler.setAppActionHandler(jest.fn(() => ({ id: 42 })));
+
+            const result = await actionHandler.executeAction({
+                type: 'sequence',
+                actions: [
+                    { type: 'loadJob', resultAs: 'job' },
+                    { type: 'dispatch', payload: { actionType: 'jobs/open', actionPayload: { id: '{{vars.job.id}}' } } },
+                    { type: 'loadJob' },
+                ],
+            });
+
+            expect(dispatch).toHaveBeenCalledWith({ type: 'jobs/open', payload: { id: 42 } });
+            expect(result).toEqual({ id: 42 });
+        });
+
+        test('picks if branches from conditions on earlier results', async () => {
+            const dispatch = jest.fn();
+            const actionHandler = new EnhancedActionHandler(dispatch, mockNavigation, {});
+            actionHandler.setAppActionHandler(jest.fn(() => ({ id: 42 })));
+
+            await actionHandler.executeAction({
+                type: 'parallel',
+                actions: [
+                    { type: 'loadJob', resultAs: 'job' },
+                    { type: 'analytics', payload: { event: 'jobLoaded' } },
+                ],
+                onSuccess: {
+                    type: 'if',
+                    condition: { operator: 'greaterThan', field: 'vars.job.id', value: 10 },
+                    then: [{ type: 'dispatch', payload: { actionType: 'bigJob' } }],
+                    else: { type: 'dispatch', payload: { actionType: 'smallJob' } },
+                },
+            });
+
+            expect(dispatch).toHaveBeenCalledTimes(1);
+            expect(dispatch).toHaveBeenCalledWith({ type: 'bigJob', payload: undefined });
+        });
+
+        test('runs onError with the failure exposed as vars.error', async () => {
+            const dispatch = jest.fn();
+            const actionHandler = new EnhancedActionHandler(dispatch, mockNavigation, {});
+
+            await actionHandler.executeAction({
+                type: 'validation',
+                payload: { rules: { required: true }, value: '', field: 'Phone' },
+                onSuccess: { type: 'dispatch', payload: { actionType: 'valid' } },
+                onError: { type: 'dispatch', payload: { actionType: 'invalid', actionPayload: '{{vars.error.message}}' } },
+            });
+
+            expect(dispatch).toHaveBeenCalledTimes(1);
+            expect(dispatch).toHaveBeenCalledWith({ type: 'invalid', payload: 'Phone is required' });
+        });
+
+        test('hands unknown action types to the app-level handler', async () => {
+            const appHandler = jest.fn(() => 'handled');
+            const actionHandler = new EnhancedActionHandler(jest.fn(), mockNavigation, { app: { version: '1.0.0' } });
+            actionHandler.setAppActionHandler(appHandler);
+
+            const result = await actionHandler.executeAction({ type: 'reload', payload: { version: '{{app.version}}' } });
+
+            expect(result).toBe('handled');
+            expect(appHandler).toHaveBeenCalledWith({ type: 'reload', payload: { version: '1.0.0' } }, expect.any(Object));
+        });
+    });
+
+    describe('🔁 Screen State Binding Validation', () => {
+        test('writes bound values to screen state and reads them back in templates and conditions', async () => {
+            const store = configureStore({ reducer: { screenState: screenStateSlice } });
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Auth' } }, undefined, store.getState
+            );
+
+            actionHandler.setBoundValue('state.auth.phoneNumber', '9876543210');
+            expect(store.getState().screenState.screens.Auth).toEqual({ auth: { phoneNumber: '9876543210' } });
+            expect(actionHandler.getBoundValue('state.auth.phoneNumber')).toBe('9876543210');
+
+            await actionHandler.executeAction({
+                type: 'updateState',
+                payload: { path: 'state.auth.otpSent', value: '{{state.auth.phoneNumber.length == 10}}' },
+            });
+            expect(actionHandler.evaluateCondition({ operator: 'equals', field: 'state.auth.otpSent', value: true })).toBe(true);
+            expect(actionHandler.interpolatePayload('Sent to {{state.auth.phoneNumber}}')).toBe('Sent to 9876543210');
+        });
+
+        test('keeps separate state for stack entries of the same screen with different params', () => {
+            const store = configureStore({ reducer: { screenState: screenStateSlice } });
+            const openJob = (jobId: string) => new EnhancedActionHandler(
+                store.dispatch,
+                mockNavigation,
+                { screen: { name: 'JobDetails' }, route: { name: 'JobDetails', params: { jobId } } },
+                undefined,
+                store.getState
+            );
+            const first = openJob('41');
+            const second = openJob('42');
+
+            first.setBoundValue('state.note', 'Call before noon');
+            second.setBoundValue('state.note', 'Bring tools');
+
+            expect(first.getBoundValue('state.note')).toBe('Call before noon');
+            expect(second.getBoundValue('state.note')).toBe('Bring tools');
+            expect(Object.keys(store.getState().screenState.screens)).toEqual(['JobDetails?jobId=41', 'JobDetails?jobId=42']);
+        });
+
+        test('keeps writing to the screen an action started on after the handler moves to another screen', async () => {
+            const store = configureStore({ reducer: { screenState: screenStateSlice } });
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Auth' } }, undefined, store.getState
+            );
+            actionHandler.setBoundValue('state.phone', '9876543210');
+
+            const pending = actionHandler.executeAction({
+                type: 'sequence',
+                actions: [
+                    { type: 'updateState', payload: { path: 'state.sending', value: true } },
+                    { type: 'updateState', debounce: 10, payload: { path: 'state.sentTo', value: '{{state.phone}}' } },
+                ],
+            });
+            actionHandler.updateGlobalData({ screen: { name: 'Home' } });
+            await pending;
+
+            expect(store.getState().screenState.screens).toEqual({
+                Auth: { phone: '9876543210', sending: true, sentTo: '9876543210' },
+            });
+        });
+
+        test('reads and writes the screen of the globalData a component passes', () => {
+            const store = configureStore({ reducer: { screenState: screenStateSlice } });
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Home' } }, undefined, store.getState
+            );
+            const auth = { screen: { name: 'Auth' }, user: { name: 'Ravi' } };
+
+            actionHandler.setBoundValue('state.phone', '9876543210', auth);
+
+            expect(actionHandler.getBoundValue('state.phone', auth)).toBe('9876543210');
+            expect(actionHandler.getBoundValue('state.phone')).toBeUndefined();
+            expect(actionHandler.interpolatePayload('{{user.name}}: {{state.phone}}', undefined, auth)).toBe('Ravi: 9876543210');
+        });
+    });
+
+    describe('🌐 API Call Validation', () => {
+        const originalFetch = global.fetch;
+
+        afterEach(() => {
+            global.fetch = originalFetch;
+        });
+
+        const createApiStore = () => configureStore({
+            reducer: { remoteConfig: remoteConfigSlice, screenState: screenStateSlice, session: sessionSlice },
+        });
+
+        test('stores the mapped response and loading flag in screen state', async () => {
+            const store = createApiStore();
+            store.dispatch(updateScreenConfig({ screen: 'App', config: { api: { baseUrl: 'https://api.test' } } }));
+            const fetchMock = jest.fn(() => Promise.resolve({
+                ok: true,
+                json: () => Promise.resolve({ data: { jobs: [{ title: 'Mason' }, { title: 'Painter' }] } }),
+            }));
+            global.fetch = fetchMock as any;
+
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Jobs' } }, undefined, store.getState
+            );
+            await actionHandler.executeAction({
+                type: 'apiCall',
+                payload: {
+                    url: '/jobs',
+                    select: '$.data.jobs[*].title',
+                    resultPath: 'jobs.titles',
+                    loadingPath: 'jobs.loading',
+                    errorPath: 'jobs.error',
+                },
+            });
+
+            expect(fetchMock).toHaveBeenCalledWith('https://api.test/jobs', expect.any(Object));
+            expect(store.getState().screenState.screens.Jobs).toEqual({
+                jobs: { titles: ['Mason', 'Painter'], loading: false, error: null },
+            });
+        });
+
+        test('stores the error message when the call fails', async () => {
+            const store = createApiStore();
+            global.fetch = jest.fn(() => Promise.reject(new Error('offline'))) as any;
+
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'Jobs' } }, undefined, store.getState
+            );
+            await expect(actionHandler.executeAction({
+                type: 'apiCall',
+                payload: { url: '/jobs', loadingPath: 'state.loading', errorPath: 'state.error' },
+            })).rejects.toThrow('API call failed');
+
+            expect(store.getState().screenState.screens.Jobs).toEqual({
+                loading: false,
+                error: 'Network request failed: offline',
+            });
+        });
+    });
+
+    describe('📋 List Template Validation', () => {
+        const row = { item: { id: 7, title: 'Mason', pay: 700 }, index: 2 };
+
+        test('interpolates item and index templates from the row scope', () => {
+            const actionHandler = new EnhancedActionHandler(jest.fn(), mockNavigation, { item: { title: 'global' } });
+
+            expect(actionHandler.interpolatePayload({ title: '{{item.title}}', label: '#{{index}} {{item.title}}' }, row))
+                .toEqual({ title: 'Mason', label: '#2 Mason' });
+            expect(actionHandler.interpolatePayload('{{item.title}}')).toBe('global');
+        });
+
+        test('evaluates row conditions and passes the row to item actions', async () => {
+            const dispatch = jest.fn();
+            const actionHandler = new EnhancedActionHandler(dispatch, mockNavigation, {});
+
+            expect(actionHandler.evaluateCondition({ operator: 'greaterThan', field: 'item.pay', value: 650 }, row)).toBe(true);
+
+            await actionHandler.executeAction(
+                { type: 'dispatch', payload: { actionType: 'jobs/select', actionPayload: '{{item.id}}' } },
+                { componentId: 'jobCard', vars: { ...row } }
+            );
+            expect(dispatch).toHaveBeenCalledWith({ type: 'jobs/select', payload: 7 });
+        });
+    });
+
+    describe('📄 List Pagination Validation', () => {
+        const originalFetch = global.fetch;
+
+        afterEach(() => {
+            global.fetch = originalFetch;
+        });
+
+        const source = {
+            api: { url: '/jobs', select: '$.jobs' },
+            path: 'state.jobs',
+            statusPath: 'state.jobsStatus',
+            pagination: { type: 'page' as const, pageSize: 2 },
+        };
+        const page = (...ids: number[]) => ({ ok: true, json: () => Promise.resolve({ jobs: ids.map(id => ({ id })) }) });
+
+        const createListHandler = () => {
+            const store = configureStore({
+                reducer: { remoteConfig: remoteConfigSlice, screenState: screenStateSlice, session: sessionSlice },
+            });
+            const actionHandler = new EnhancedActionHandler(
+                store.dispatch, mockNavigation, { screen: { name: 'JobSearch' } }, undefined, store.getState
+            );
+            return { store, actionHandler, screen: () => store.getState().screenState.screens.JobSearch };
+        };
+
+        test('appends later pages and ignores overlapping load-more requests', async () => {
+            const fetchMock = jest.fn()
+                .mockResolvedValueOnce(page(1, 2))
+                .mockResolvedValueOnce(page(3));
+            global.fetch = fetchMock as any;
+            const { actionHandler, screen } = createListHandler();
+
+            await actionHandler.loadListPage(source, 'initial');
+            expect(screen().jobsStatus).toMatchObject({ page: 1, hasMore: true, loading: false });
+
+            await Promise.all([actionHandler.loadListPage(source, 'more'), actionHandler.loadListPage(source, 'more')]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(fetchMock.mock.calls[1][0]).toContain('/jobs?limit=2&page=2');
+            expect(screen().jobs.map((job: any) => job.id)).toEqual([1, 2, 3]);
+            expect(screen().jobsStatus).toMatchObject({ page: 2, hasMore: false, loadingMore: false });
+
+            await actionHandler.loadListPage(source, 'more');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        test('keeps loaded items on a failed page and refreshes from the first page', async () => {
+            global.fetch = jest.fn()
+                .mockResolvedValueOnce(page(1, 2))
+                .mockRejectedValueOnce(new Error('offline'))
+                .mockResolvedValueOnce(page(5, 6)) as any;
+            const { actionHandler, screen } = createListHandler();
+            actionHandler.registerList('jobs', source);
+
+            await actionHandler.loadListPage(source, 'initial');
+            await actionHandler.executeAction({ type: 'loadMore', payload: { list: 'jobs' } });
+            expect(screen().jobs).toHaveLength(2);
+            expect(screen().jobsStatus).toMatchObject({ page: 1, error: 'Network request failed: offline' });
+
+            await actionHandler.executeAction({ type: 'refreshList', payload: { list: 'jobs' } });
+            expect((global.fetch as jest.Mock).mock.calls[2][0]).toContain('page=1');
+            expect(screen().jobs.map((job: any) => job.id)).toEqual([5, 6]);
+            expect(screen().jobsStatus).toMatchObject({ page: 1, hasMore: true, refreshing: false, error: null });
+        });
+
+        test('keeps the action handler and loaded lists when globalData changes', async () => {
+            const fetchMock = jest.fn().mockResolvedValue(page(1, 2));
+            global.fetch = fetchMock as any;
+            // The shared mock hands out a new navigation object per call; React Navigation keeps it stable per screen
+            const useNavigation = jest.spyOn(jest.requireMock('@react-navigation/native'), 'useNavigation')
+                .mockReturnValue(mockNavigation);
+            const store = configureStore({
+                reducer: {
+                    language: languageSlice,
+                    remoteConfig: remoteConfigSlice,
+                    screenState: screenStateSlice,
+                    session: sessionSlice,
+                },
+            });
+            const tree: ComponentDefinition[] = [{
+                type: 'FlatList',
+                id: 'jobs',
+                dataSource: source,
+                itemTemplate: { type: 'Text', props: { text: '{{item.id}}' } },
+            }];
+            const renderScreen = (globalData: Record<string, any>) => (
+                <Provider store={store}>
+                    <ProductionDynamicRenderer componentTree={tree} globalData={globalData} />
+                </Provider>
+            );
+
+            let renderer: ReactTestRenderer.ReactTestRenderer;
+            await ReactTestRenderer.act(async () => {
+                renderer = ReactTestRenderer.create(renderScreen({ screen: { name: 'JobSearch' }, language: { current: 'en' } }));
+            });
+            await ReactTestRenderer.act(async () => {
+                renderer.update(renderScreen({ screen: { name: 'JobSearch' }, language: { current: 'hi' } }));
+            });
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(store.getState().screenState.screens.JobSearch.jobs).toHaveLength(2);
+            await ReactTestRenderer.act(async () => renderer.unmount());
+            useNavigation.mockRestore();
+        });
+    });
+
+    describe('🌍 Translation Validation', () => {
+        test('resolves translation keys with interpolated params and defaults', () => {
+            addTranslations('en', { jobs: { nearby_one: '{{count}} job near {{city}}', nearby_other: '{{count}} jobs near {{city}}' } });
+            const actionHandler = new EnhancedActionHandler(jest.fn(), mockNavigation, {
+                state: { jobs: [1, 2, 3], city: 'Pune' },
+            });
+
+            expect(actionHandler.interpolatePayload({
+                text: { $t: 'jobs.nearby', params: { count: '{{state.jobs.length}}', city: '{{state.city}}' } },
+            })).toEqual({ text: '3 jobs near Pune' });
+            expect(actionHandler.interpolatePayload({ $t: 'jobs.missing', default: 'Near {{state.city}}' })).toBe('Near Pune');
+        });
+
+        test('formats template values through pipes in the current language', () => {
+            const actionHandler = new EnhancedActionHandler(jest.fn(), mockNavigation, {
+                language: { current: 'hi' },
+                state: { job: { wage: 650, title: 'mason' }, distance: 2400 },
+            });
+
+            expect(actionHandler.interpolatePayload("{{state.job.wage | currency:'INR'}}/दिन")).toBe('₹650/दिन');
+            expect(actionHandler.interpolatePayload('{{state.job.title | uppercase}}')).toBe('MASON');
+            expect(actionHandler.interpolatePayload("{{state.job.city | default:'—'}}")).toBe('—');
+            expect(actionHandler.interpolatePayload('{{state.distance | distance}}')).toBe('2.4 कि॰मी॰');
+        });
+    });
+
     describe('⚡ Performance Features Validation', () => {
         test('validates performance metrics collection', async () => {
             let metricsCollected: any[] = [];
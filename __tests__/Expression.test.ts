@@ -0,0 +1,66 @@
+/**
+ * Expression Test Suite
+ * Tests parsing and sandboxed evaluation of template and condition expressions
+ * @author Labor2Hire Team
+ */
+
+import { evaluateExpression, ExpressionError, parseExpression } from '../src/utils/Expression';
+
+const scope: Record<string, any> = {
+    state: {
+        auth: { phoneNumber: '9876543210', isLoading: false },
+        pin: '1234',
+        confirmPin: '1234',
+        skills: ['masonry', 'welding'],
+        wage: 650,
+        days: 3,
+    },
+    item: { title: 'Mason', distance: 2.4 },
+};
+
+const run = (source: string) => evaluateExpression(parseExpression(source), name => scope[name]);
+
+describe('Expression evaluation', () => {
+    test('evaluates arithmetic with operator precedence', () => {
+        expect(run('state.wage * state.days + 50')).toBe(2000);
+        expect(run('(state.wage + 50) * 2 - 10 % 4')).toBe(1398);
+        expect(run('-state.days / 2')).toBe(-1.5);
+    });
+
+    test('compares values strictly, including field to field', () => {
+        expect(run('state.auth.phoneNumber.length == 10 && !state.auth.isLoading')).toBe(true);
+        expect(run('state.pin == state.confirmPin')).toBe(true);
+        expect(run('state.days == "3"')).toBe(false);
+        expect(run('state.wage >= 500 && state.days < 3')).toBe(false);
+    });
+
+    test('supports ternaries, string concatenation and fallbacks', () => {
+        expect(run("state.skills.includes('welding') ? 'Welder' : 'Helper'")).toBe('Welder');
+        expect(run("item.title + ' · ' + item.distance + ' km'")).toBe('Mason · 2.4 km');
+        expect(run("state.missing.deep ?? 'none'")).toBe('none');
+        expect(run("state.auth.name || 'Guest'")).toBe('Guest');
+    });
+
+    test('supports array length, includes and literals', () => {
+        expect(run('state.skills.length')).toBe(2);
+        expect(run('state.skills.1.length + state.skills[0].length')).toBe(14);
+        expect(run("['plumbing', 'welding'].includes(state.skills[1])")).toBe(true);
+        expect(run("state.auth.phoneNumber.startsWith('98')")).toBe(true);
+    });
+
+    test('stays inside the data it is given', () => {
+        expect(run('state.constructor')).toBeUndefined();
+        expect(run('state.skills.__proto__')).toBeUndefined();
+        expect(run('state.skills.map')).toBeUndefined();
+        expect(run('globalThis')).toBeUndefined();
+        expect(() => parseExpression('state.skills.map(x)')).toThrow(ExpressionError);
+        expect(() => parseExpression('alert(1)')).toThrow(ExpressionError);
+    });
+
+    test('rejects malformed expressions', () => {
+        expect(() => parseExpression('state.count >')).toThrow(ExpressionError);
+        expect(() => parseExpression("'unterminated")).toThrow(ExpressionError);
+        expect(() => parseExpression('state.a = 1')).toThrow(ExpressionError);
+        expect(() => parseExpression('a ? b')).toThrow(ExpressionError);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Form Subsystem Test Suite
+ * Tests validation rules, form field collection, per-field error state and rendered Form containers
+ * @author Labor2Hire Team
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { Text, TextInput, TouchableOpacity } from 'react-native';
+import languageSlice from '../src/features/language/languageSlice';
+import remoteConfigSlice from '../src/features/remoteConfig/remoteConfigSlice';
+import screenStateSlice from '../src/features/screenState/screenStateSlice';
+import ProductionDynamicRenderer, { ComponentDefinition } from '../src/components/common/DynamicRenderer';
+import formsReducer, { resetForm, selectScreenForms, setFieldError, setFormErrors } from '../src/features/forms/formsSlice';
+import {
+    collectFormFields,
+    validateFormFields,
+    validateValue,
+} from '../src/utils/FormValidation';
+
+const signupChildren: any[] = [
+    { type: 'Text', props: { text: "{{form.signup.errors.phone | default:''}}" } },
+    {
+        type: 'View',
+        children: [
+            { type: 'TextInput', id: 'phone', bind: 'auth.phoneNumber', validation: { required: true, type: 'phone' } },
+            { type: 'TextInput', bind: { path: 'state.profile.name' }, validation: { minLength: 2, message: 'Enter your full name' } },
+            { type: 'TextInput', bind: 'profile.nickname' },
+        ],
+    },
+    { type: 'Form', id: 'nested', children: [{ type: 'TextInput', id: 'otp', bind: 'otp', validation: { required: true } }] },
+];
+
+describe('validateValue', () => {
+    test('reports required, length, type and pattern failures', () => {
+        expect(validateValue('  ', { required: true }, 'phone')).toEqual(['phone is required']);
+        expect(validateValue('12', { minLength: 4, pattern: '^[a-z]+$' }, 'pin')).toEqual([
+            'pin must be at least 4 characters',
+            'pin format is invalid',
+        ]);
+        expect(validateValue('98765', { type: 'phone' }, 'phone')).toEqual(['phone must be a valid phone']);
+        expect(validateValue('9876543210', { required: true, type: 'phone' }, 'phone')).toEqual([]);
+    });
+
+    test('skips format rules for empty optional values and honours custom messages', () => {
+        expect(validateValue('', { minLength: 4, type: 'email' })).toEqual([]);
+        expect(validateValue('a', { minLength: 2, maxLength: 0, message: 'Enter your full name' })).toEqual([
+            'Enter your full name',
+        ]);
+    });
+});
+
+describe('Form fields', () => {
+    test('collects bound, validated fields without entering nested forms', () => {
+        expect(collectFormFields(signupChildren)).toEqual([
+            { name: 'phone', path: 'state.auth.phoneNumber', rules: { required: true, type: 'phone' } },
+            { name: 'name', path: 'state.profile.name', rules: { minLength: 2, message: 'Enter your full name' } },
+        ]);
+    });
+
+    test('returns the first error for each invalid field', () => {
+        const values: Record<string, any> = { 'state.auth.phoneNumber': '', 'state.profile.name': 'A' };
+        const errors = validateFormFields(collectFormFields(signupChildren), path => values[path]);
+
+        expect(errors).toEqual({ phone: 'phone is required', name: 'Enter your full name' });
+    });
+});
+
+describe('Forms slice', () => {
+    test('tracks field errors and form validity per screen', () => {
+        let state = formsReducer(undefined, { type: '@@INIT' });
+        state = formsReducer(state, setFormErrors({ screen: 'Auth', formId: 'signup', errors: { phone: 'phone is required' }, submitted: true }));
+
+        expect(selectScreenForms('Auth')({ forms: state }).signup).toEqual({
+            errors: { phone: 'phone is required' },
+            valid: false,
+            submitted: true,
+        });
+
+        state = formsReducer(state, setFieldError({ screen: 'Auth', formId: 'signup', field: 'phone', error: null }));
+        expect(state.screens.Auth.signup).toEqual({ errors: {}, valid: true, submitted: true });
+
+        state = formsReducer(state, resetForm({ screen: 'Auth', formId: 'signup' }));
+        expect(selectScreenForms('Auth')({ forms: state })).toEqual({});
+    });
+});
+
+describe('Form container', () => {
+    let useNavigation: jest.SpyInstance;
+
+    beforeEach(() => {
+        // The shared mock hands out a new navigation object per call; React Navigation keeps it stable per screen
+        useNavigation = jest.spyOn(jest.requireMock('@react-navigation/native'), 'useNavigation')
+            .mockReturnValue({ navigate: jest.fn() });
+    });
+
+    afterEach(() => {
+        useNavigation.mockRestore();
+    });
+
+    const signupForm = (validateOn?: string): ComponentDefinition[] => [{
+        type: 'Form',
+        id: 'signup',
+        props: validateOn ? { validateOn } : {},
+        children: [
+            { type: 'TextInput', id: 'phone', bind: 'phone', validation: { required: true, type: 'phone' } },
+            { type: 'Text', id: 'phoneError', props: { text: "{{form.signup.errors.phone | default:''}}" } },
+            {
+                type: 'TouchableOpacity',
+                actions: {
+                    onPress: {
+                        type: 'submitForm',
+                        payload: {
+                            onSubmit: { type: 'dispatch', payload: { actionType: 'signup/submitted', actionPayload: '{{state.phone}}' } },
+                        },
+                    },
+                },
+            },
+        ],
+    }];
+
+    const renderForm = async (tree: ComponentDefinition[]) => {
+        const store = configureStore({
+            reducer: {
+                language: languageSlice,
+                remoteConfig: remoteConfigSlice,
+                screenState: screenStateSlice,
+                forms: formsReducer,
+                submitted: (state: string | null = null, action: any) =>
+                    action.type === 'signup/submitted' ? action.payload : state,
+            },
+        });
+        let renderer: ReactTestRenderer.ReactTestRenderer;
+        await ReactTestRenderer.act(async () => {
+            renderer = ReactTestRenderer.create(
+                <Provider store={store}>
+                    <ProductionDynamicRenderer componentTree={tree} globalData={{ screen: { name: 'Signup' } }} />
+                </Provider>
+            );
+        });
+
+        const root = renderer!.root;
+        const input = () => root.findByType(TextInput);
+        return {
+            store,
+            type: (text: string) => ReactTestRenderer.act(async () => input().props.onChangeText(text)),
+            blur: () => ReactTestRenderer.act(async () => input().props.onBlur()),
+            submit: () => ReactTestRenderer.act(async () => {
+                await root.findByType(TouchableOpacity).props.onPress();
+            }),
+            error: () => root.findAllByType(Text).map(text => text.props.children).join(''),
+            form: () => selectScreenForms('Signup')(store.getState()).signup,
+            unmount: () => ReactTestRenderer.act(async () => renderer.unmount()),
+        };
+    };
+
+    test('validates fields as they change in change mode', async () => {
+        const form = await renderForm(signupForm('change'));
+
+        await form.type('98765');
+        expect(form.error()).toBe('phone must be a valid phone');
+
+        await form.type('9876543210');
+        expect(form.error()).toBe('');
+        expect(form.form()).toMatchObject({ errors: {}, valid: true });
+        await form.unmount();
+    });
+
+    test('validates on blur in blur mode, then re-checks invalid fields as they change', async () => {
+        const form = await renderForm(signupForm('blur'));
+
+        await form.type('98765');
+        expect(form.form()).toBeUndefined();
+
+        await form.blur();
+        expect(form.error()).toBe('phone must be a valid phone');
+
+        await form.type('9876543210');
+        expect(form.error()).toBe('');
+        await form.unmount();
+    });
+
+    test('blocks an invalid submission and submits once the fields are valid', async () => {
+        const form = await renderForm(signupForm());
+
+        await form.submit();
+        expect(form.error()).toBe('phone is required');
+        expect(form.form()).toMatchObject({ valid: false, submitted: true });
+        expect(form.store.getState().submitted).toBeNull();
+
+        await form.type('9876543210');
+        await form.submit();
+        expect(form.form()).toMatchObject({ errors: {}, valid: true, submitted: true });
+        expect(form.store.getState().submitted).toBe('9876543210');
+        await form.unmount();
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Formatters Test Suite
+ * Tests template formatter pipes and their locale-aware output
+ * @author Labor2Hire Team
+ */
+
+import {
+    applyFormatters,
+    getFormatter,
+    parseTemplateExpression,
+    registerFormatter,
+} from '../src/utils/Formatters';
+import { addTranslations } from '../src/services/i18n';
+
+const format = (expression: string, value: any, locale = 'en-IN') =>
+    applyFormatters(value, parseTemplateExpression(expression).pipes, locale);
+
+describe('parseTemplateExpression', () => {
+    test('splits the expression from formatter calls and their arguments', () => {
+        expect(parseTemplateExpression("job.wage | currency:'INR':2 | default:'-'")).toEqual({
+            expression: 'job.wage',
+            pipes: [
+                { name: 'currency', args: ['INR', 2] },
+                { name: 'default', args: ['-'] },
+            ],
+        });
+    });
+
+    test('ignores pipes inside quotes and logical or', () => {
+        expect(parseTemplateExpression("name | default:'a | b'").pipes).toEqual([{ name: 'default', args: ['a | b'] }]);
+        expect(parseTemplateExpression('a || b')).toEqual({ expression: 'a || b', pipes: [] });
+    });
+});
+
+describe('Built-in formatters', () => {
+    test('format numbers and currency in the locale', () => {
+        expect(format('x | number', 1234567.891)).toBe('12,34,567.891');
+        expect(format('x | number:1', 1234.56, 'en-US')).toBe('1,234.6');
+        expect(format("x | currency:'INR'", 650, 'hi-IN')).toBe('₹650');
+        expect(format("x | currency:'USD'", 12.5, 'en-US')).toBe('$12.50');
+    });
+
+    test('format relative times', () => {
+        jest.useFakeTimers().setSystemTime(new Date('2026-03-10T12:00:00Z'));
+        expect(format('x | relativeTime', '2026-03-08T12:00:00Z', 'hi-IN')).toBe('2 दिन पहले');
+        expect(format('x | relativeTime', '2026-03-10T09:00:00Z', 'en-IN')).toBe('3 hours ago');
+        expect(format("x | relativeTime:'auto'", '2026-03-09T12:00:00Z', 'en-IN')).toBe('yesterday');
+        jest.useRealTimers();
+    });
+
+    test('format relative times from translations without Intl.RelativeTimeFormat', () => {
+        const { RelativeTimeFormat } = Intl;
+        (Intl as any).RelativeTimeFormat = undefined;
+        addTranslations('hi', {
+            time: {
+                relative: {
+                    day: { past_one: '{{count}} दिन पहले', past_other: '{{count}} दिन पहले' },
+                    hour: { future_one: '{{count}} घंटे में', future_other: '{{count}} घंटे में' },
+                },
+            },
+        });
+        jest.useFakeTimers().setSystemTime(new Date('2026-03-10T12:00:00Z'));
+
+        try {
+            expect(format('x | relativeTime', '2026-03-08T12:00:00Z', 'hi-IN')).toBe('2 दिन पहले');
+            expect(format('x | relativeTime', '2026-03-10T15:00:00Z', 'hi-IN')).toBe('3 घंटे में');
+            expect(format('x | relativeTime', '2026-03-10T09:00:00Z', 'en-IN')).toBe('3 hours ago');
+            expect(format('x | relativeTime', '2026-03-11T12:00:00Z', 'en-IN')).toBe('in 1 day');
+        } finally {
+            jest.useRealTimers();
+            (Intl as any).RelativeTimeFormat = RelativeTimeFormat;
+        }
+    });
+
+    test('format distances, dates and text', () => {
+        expect(format('x | distance', 850)).toBe('850 m');
+        expect(format("x | distance:'km'", 2.45)).toBe('2.5 km');
+        expect(format("x | date:'short'", '2026-03-08T12:00:00Z', 'en-GB')).toBe('08/03/2026');
+        expect(format('x | uppercase', 'mason')).toBe('MASON');
+        expect(format('x | lowercase', 'MASON')).toBe('mason');
+    });
+
+    test('pass through values they cannot format', () => {
+        expect(format('x | number', undefined)).toBeUndefined();
+        expect(format('x | date', 'not a date')).toBe('not a date');
+        expect(format("x | default:'n/a'", null)).toBe('n/a');
+        expect(format('x | unknownFormatter', 5)).toBe(5);
+    });
+});
+
+describe('registerFormatter', () => {
+    test('adds custom formatters that receive the locale and arguments', () => {
+        registerFormatter('truncate', (value, _locale, length = 10) =>
+            String(value).length > length ? `${String(value).slice(0, length)}…` : value
+        );
+
+        expect(getFormatter('truncate')).toBeDefined();
+        expect(format('x | truncate:5', 'Carpenter')).toBe('Carpe…');
+    });
+});
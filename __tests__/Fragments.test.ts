@@ -0,0 +1,145 @@
+/**
+ * Fragments Test Suite
+ * Tests `$ref` resolution with deep-merged overrides and fragment delivery through ConfigClient and the store
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { mergeFragment, resolveFragments } from '../src/utils/Fragments';
+import remoteConfigReducer, {
+    selectFragments,
+    updateFragments,
+    updateScreenConfig,
+} from '../src/features/remoteConfig/remoteConfigSlice';
+import { ConfigClient } from '../src/services/ConfigClient';
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+
+const fragments = {
+    primaryButton: {
+        type: 'TouchableOpacity',
+        style: { backgroundColor: '#007AFF', padding: 12 },
+        children: [{ type: 'Text', props: { text: 'Continue' } }],
+    },
+    header: {
+        type: 'View',
+        children: [{ $ref: 'backButton' }, { type: 'Text', props: { text: '{{route.name}}' } }],
+    },
+    backButton: { $ref: 'primaryButton', actions: { onPress: { type: 'goBack' } } },
+    loopA: { $ref: 'loopB' },
+    loopB: { type: 'View', children: [{ $ref: 'loopA' }] },
+};
+
+describe('mergeFragment', () => {
+    test('merges objects deeply and replaces arrays and values', () => {
+        expect(mergeFragment(
+            { style: { padding: 12, margin: 4 }, children: [1, 2], props: { text: 'a' } },
+            { style: { padding: 8 }, children: [3], props: undefined }
+        )).toEqual({ style: { padding: 8, margin: 4 }, children: [3], props: { text: 'a' } });
+    });
+});
+
+describe('resolveFragments', () => {
+    test('applies overrides over the referenced fragment', () => {
+        const [button] = resolveFragments([{ $ref: 'primaryButton', id: 'submit', style: { padding: 16 } }], fragments);
+
+        expect(button).toEqual({
+            type: 'TouchableOpacity',
+            id: 'submit',
+            style: { backgroundColor: '#007AFF', padding: 16 },
+            children: [{ type: 'Text', props: { text: 'Continue' } }],
+        });
+        expect(fragments.primaryButton.style.padding).toBe(12);
+    });
+
+    test('resolves references inside fragments and overrides', () => {
+        const header = resolveFragments({ $ref: 'header' }, fragments);
+
+        expect(header.children[0]).toMatchObject({ type: 'TouchableOpacity', actions: { onPress: { type: 'goBack' } } });
+        expect(resolveFragments({ type: 'View', itemTemplate: { $ref: 'backButton' } }, fragments).itemTemplate.type)
+            .toBe('TouchableOpacity');
+    });
+
+    test('drops unknown and circular references', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(resolveFragments([{ $ref: 'missing' }, { type: 'Text' }], fragments)).toEqual([{ type: 'Text' }]);
+        expect(resolveFragments({ $ref: 'loopA' }, fragments)).toEqual({ type: 'View', children: [] });
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('loopA -> loopB -> loopA'));
+        warn.mockRestore();
+    });
+
+    test('keeps subtrees without references unchanged', () => {
+        const plain = { type: 'Text', props: { text: 'Hi' } };
+        const tree = [{ type: 'View', children: [plain, { $ref: 'primaryButton' }] }];
+
+        const resolved = resolveFragments(tree, fragments);
+        expect(resolved).not.toBe(tree);
+        expect(resolved[0].children[0]).toBe(plain);
+        expect(resolveFragments([plain], fragments)[0]).toBe(plain);
+    });
+});
+
+describe('selectFragments', () => {
+    test('reads the fragment store, not the App config', () => {
+        const store = configureStore({ reducer: { remoteConfig: remoteConfigReducer } });
+        expect(selectFragments(store.getState())).toEqual({});
+
+        store.dispatch(updateScreenConfig({
+            screen: 'App',
+            config: { screenType: 'App', metadata: {}, components: [], fragments: { header: fragments.header } },
+        }));
+        store.dispatch(updateFragments({ primaryButton: fragments.primaryButton }));
+        expect(Object.keys(selectFragments(store.getState()))).toEqual(['primaryButton']);
+    });
+});
+
+describe('ConfigClient fragments', () => {
+    test('updates, removes and replaces fragments one event at a time', async () => {
+        const { client, socket, handlers, onFragmentsUpdate } = createConnectedClient({}, { connected: false });
+        handlers.connect();
+        expect(socket.emit).toHaveBeenCalledWith('requestFragments');
+
+        await handlers.fragmentsUpdate({
+            full: true,
+            fragments: [
+                { name: 'primaryButton', fragment: fragments.primaryButton },
+                { name: 'backButton', fragment: fragments.backButton },
+            ],
+        });
+        await handlers.fragmentsUpdate({ fragments: [{ name: 'backButton', fragment: null }] });
+        await handlers.fragmentsUpdate({
+            fragments: [{ name: 'primaryButton', fragment: { ...fragments.primaryButton, style: { padding: 8 } } }],
+        });
+
+        expect(onFragmentsUpdate).toHaveBeenCalledTimes(3);
+        expect(Object.keys(client.getFragments())).toEqual(['primaryButton']);
+        expect(client.getFragments().primaryButton.style).toEqual({ padding: 8 });
+
+        await handlers.fragmentsUpdate({ full: true, fragments: [{ name: 'header', fragment: fragments.header }] });
+        expect(Object.keys(client.getFragments())).toEqual(['header']);
+    });
+
+    test('drops invalid fragments and restores verified cached ones', async () => {
+        const { client, handlers, onError } = createConnectedClient({ offlineSupport: true });
+        await handlers.fragmentsUpdate({
+            fragments: [
+                { name: 'header', fragment: { props: {} } },
+                { name: 'primaryButton', fragment: fragments.primaryButton },
+            ],
+        });
+        expect(onError).toHaveBeenCalledWith('invalid_config', expect.objectContaining({ screen: 'fragment header' }));
+        expect(Object.keys(client.getFragments())).toEqual(['primaryButton']);
+
+        const cache = (AsyncStorage.setItem as jest.Mock).mock.calls.find(([key]) => key === '@Labor2Hire:Fragments')[1];
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(key =>
+            Promise.resolve(key === '@Labor2Hire:Fragments' ? cache : null)
+        );
+        const onFragmentsUpdate = jest.fn();
+        const restarted = new ConfigClient({ requireSignatures: false, onFragmentsUpdate, onError: jest.fn() });
+        await restarted.restoreCachedConfigurations();
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(() => Promise.resolve(null));
+
+        expect(onFragmentsUpdate).toHaveBeenCalledWith({ primaryButton: fragments.primaryButton }, { source: 'cache' });
+    });
+});
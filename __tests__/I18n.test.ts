@@ -0,0 +1,125 @@
+/**
+ * I18n Test Suite
+ * Tests config text translation, translation bundle delivery and language switching
+ * @author Labor2Hire Team
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import languageReducer, { changeLanguage } from '../src/features/language/languageSlice';
+import i18n, { addTranslations, isTranslationReference, setTranslationLanguage, translate } from '../src/services/i18n';
+
+describe('translate', () => {
+    beforeAll(() => {
+        addTranslations('en', {
+            auth: { enterPhone: 'Enter your phone number', welcome: 'Welcome, {{name}}' },
+            jobs: { count_one: '{{count}} job', count_other: '{{count}} jobs' },
+        });
+        addTranslations('hi', { auth: { enterPhone: 'अपना फ़ोन नंबर दर्ज करें' } });
+    });
+
+    afterEach(async () => {
+        await setTranslationLanguage('en');
+    });
+
+    test('interpolates params and picks plural forms', () => {
+        expect(translate('auth.welcome', { name: 'Asha' })).toBe('Welcome, Asha');
+        expect(translate('jobs.count', { count: 1 })).toBe('1 job');
+        expect(translate('jobs.count', { count: 4 })).toBe('4 jobs');
+    });
+
+    test('falls back to English for keys missing from the current language', async () => {
+        await setTranslationLanguage('hi');
+
+        expect(i18n.language).toBe('hi');
+        expect(translate('auth.enterPhone')).toBe('अपना फ़ोन नंबर दर्ज करें');
+        expect(translate('auth.welcome', { name: 'Asha' })).toBe('Welcome, Asha');
+    });
+
+    test('uses the default value, then the key, for unknown keys', () => {
+        expect(translate('auth.unknown', { defaultValue: 'Continue' })).toBe('Continue');
+        expect(translate('auth.unknown')).toBe('auth.unknown');
+    });
+
+    test('recognizes translation references', () => {
+        expect(isTranslationReference({ $t: 'auth.enterPhone' })).toBe(true);
+        expect(isTranslationReference({ t: 'auth.enterPhone' })).toBe(false);
+        expect(isTranslationReference('auth.enterPhone')).toBe(false);
+    });
+});
+
+describe('ConfigClient translations', () => {
+    test('requests a language and hands received bundles to the listener', async () => {
+        const { client, socket, handlers, onTranslationsUpdate } = createConnectedClient();
+
+        await client.requestTranslations('hi');
+        expect(socket.emit).toHaveBeenCalledWith('requestTranslations', 'hi');
+
+        const translations = { auth: { enterPhone: 'फ़ोन नंबर' } };
+        await handlers.translationsUpdate({ language: 'hi', translations, version: '3' });
+
+        expect(onTranslationsUpdate).toHaveBeenCalledWith('hi', translations, expect.objectContaining({ version: '3' }));
+        expect(client.getTranslations('hi')).toEqual(translations);
+    });
+
+    test('ignores updates without a language or bundle', async () => {
+        const { client, handlers, onTranslationsUpdate } = createConnectedClient();
+
+        await handlers.translationsUpdate({ translations: { a: 'b' } });
+        await handlers.translationsUpdate({ language: 'hi', translations: ['a'] });
+
+        expect(onTranslationsUpdate).not.toHaveBeenCalled();
+        expect(client.getTranslations('hi')).toBeNull();
+    });
+
+    test('queues requests made while disconnected until the socket connects', async () => {
+        const { client, socket, handlers } = createConnectedClient({}, { connected: false });
+
+        await client.requestTranslations('ta');
+        expect(socket.emit).not.toHaveBeenCalledWith('requestTranslations', 'ta');
+
+        handlers.connect();
+        expect(socket.emit).toHaveBeenCalledWith('requestTranslations', 'ta');
+    });
+
+    test('caches bundles and serves the cached bundle before the server answers', async () => {
+        const { client, handlers } = createConnectedClient({ offlineSupport: true });
+        const translations = { auth: { enterPhone: 'ফোন নম্বর' } };
+
+        await handlers.translationsUpdate({ language: 'bn', translations, version: '1' });
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+            '@Labor2Hire:Translations:bn',
+            expect.stringContaining('"version":"1"')
+        );
+
+        const cached = (AsyncStorage.setItem as jest.Mock).mock.calls
+            .find(([key]) => key === '@Labor2Hire:Translations:bn')[1];
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) =>
+            key === '@Labor2Hire:Translations:bn' ? cached : null
+        );
+
+        const restarted = createConnectedClient({ offlineSupport: true });
+        await restarted.client.requestTranslations('bn');
+        (AsyncStorage.getItem as jest.Mock).mockImplementation(async () => null);
+
+        expect(restarted.onTranslationsUpdate).toHaveBeenCalledWith('bn', translations, expect.objectContaining({ source: 'cache' }));
+        expect(restarted.socket.emit).toHaveBeenCalledWith('requestTranslations', 'bn');
+        client.disconnect();
+    });
+});
+
+describe('changeLanguage', () => {
+    test('switches translated text to the new language', async () => {
+        addTranslations('mr', { auth: { enterPhone: 'फोन नंबर टाका' } });
+        const store = configureStore({ reducer: { language: languageReducer } });
+
+        store.dispatch(changeLanguage('mr') as any);
+        await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+        expect(store.getState().language.currentLanguage).toBe('mr');
+        expect(i18n.language).toBe('mr');
+        expect(translate('auth.enterPhone')).toBe('फोन नंबर टाका');
+        await setTranslationLanguage('en');
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Language Catalogue Test Suite
+ * Tests the App config's language declaration and downloading bundles before a language switch
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import { ConfigClient, configClient } from '../src/services/ConfigClient';
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import i18n, { addTranslations, setTranslationLanguage, translate } from '../src/services/i18n';
+import languageReducer, {
+    changeLanguage,
+    LanguageOption,
+    selectAvailableLanguages,
+    selectCurrentLanguageOption,
+    selectIsRTL,
+    setAvailableLanguages,
+    setLanguage,
+} from '../src/features/language/languageSlice';
+import remoteConfigReducer, {
+    selectLanguageCatalogue,
+    updateScreenConfig,
+} from '../src/features/remoteConfig/remoteConfigSlice';
+import { validateScreenConfigSchema } from '../src/services/ConfigSchema';
+
+const catalogue: LanguageOption[] = [
+    { code: 'en', name: 'English', direction: 'ltr', ready: true },
+    { code: 'hi', name: 'हिन्दी', direction: 'ltr', fontFamily: 'NotoSansDevanagari', ready: true },
+    { code: 'ur', name: 'اردو', direction: 'rtl', fontFamily: 'NotoNastaliqUrdu', ready: true },
+    { code: 'ta', name: 'தமிழ்', ready: false },
+];
+
+const createStore = () => configureStore({
+    reducer: { language: languageReducer, remoteConfig: remoteConfigReducer },
+});
+
+describe('Language catalogue', () => {
+    test('is read from the App config', () => {
+        const store = createStore();
+        expect(selectLanguageCatalogue(store.getState())).toEqual([]);
+
+        store.dispatch(updateScreenConfig({
+            screen: 'App',
+            config: { screenType: 'App', metadata: {}, components: [], languages: catalogue },
+        }));
+        expect(selectLanguageCatalogue(store.getState())).toEqual(catalogue);
+    });
+
+    test('keeps only ready languages and takes the script direction from the declaration', () => {
+        const store = createStore();
+        store.dispatch(setAvailableLanguages(catalogue));
+
+        expect(selectAvailableLanguages(store.getState()).map(language => language.code)).toEqual(['en', 'hi', 'ur']);
+
+        store.dispatch(setLanguage('ur'));
+        expect(selectIsRTL(store.getState())).toBe(true);
+        expect(selectCurrentLanguageOption(store.getState())?.fontFamily).toBe('NotoNastaliqUrdu');
+
+        store.dispatch(setAvailableLanguages([{ code: 'ur', name: 'اردو', direction: 'ltr' }]));
+        expect(selectIsRTL(store.getState())).toBe(false);
+    });
+
+    test('validates the declaration in the App config schema', () => {
+        const base = { screenType: 'App', metadata: {}, components: [] };
+
+        expect(validateScreenConfigSchema({ ...base, languages: catalogue })).toEqual([]);
+        expect(validateScreenConfigSchema({ ...base, languages: [{ code: 'ar', name: 'العربية', direction: 'up' }] }))
+            .not.toEqual([]);
+        expect(validateScreenConfigSchema({ ...base, languages: [{ name: 'English' }] })).not.toEqual([]);
+    });
+});
+
+describe('ensureTranslations', () => {
+    test('resolves once the requested bundle arrives', async () => {
+        const { client, socket, handlers } = createConnectedClient();
+
+        const ready = client.ensureTranslations('kn');
+        await Promise.resolve();
+        expect(socket.emit).toHaveBeenCalledWith('requestTranslations', 'kn');
+
+        await handlers.translationsUpdate({ language: 'kn', translations: { auth: { enterPhone: 'ಫೋನ್ ಸಂಖ್ಯೆ' } } });
+        await expect(ready).resolves.toBe(true);
+    });
+
+    test('gives up after the timeout and right away while offline', async () => {
+        const { client } = createConnectedClient();
+        await expect(client.ensureTranslations('ml', 20)).resolves.toBe(false);
+
+        const offline = new ConfigClient({ offlineSupport: false, requireSignatures: false, onError: jest.fn() });
+        await expect(offline.ensureTranslations('ml')).resolves.toBe(false);
+    });
+});
+
+describe('changeLanguage', () => {
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await setTranslationLanguage('en');
+    });
+
+    test('downloads a bundle that is not cached before switching', async () => {
+        const store = createStore();
+        let resolveDownload: (ready: boolean) => void = () => undefined;
+        jest.spyOn(configClient, 'ensureTranslations').mockImplementation(language =>
+            language === 'te' ? new Promise(resolve => { resolveDownload = resolve; }) : Promise.resolve(true)
+        );
+
+        const switching = store.dispatch(changeLanguage('te') as any);
+        await Promise.resolve();
+        expect(store.getState().language.currentLanguage).toBe('en');
+
+        addTranslations('te', { auth: { enterPhone: 'ఫోన్ నంబర్' } });
+        resolveDownload(true);
+        await switching;
+
+        expect(store.getState().language.currentLanguage).toBe('te');
+        expect(i18n.language).toBe('te');
+        expect(translate('auth.enterPhone')).toBe('ఫోన్ నంబర్');
+    });
+});
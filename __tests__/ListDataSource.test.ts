@@ -0,0 +1,104 @@
+/**
+ * List Data Source Test Suite
+ * Tests data source normalization, pagination requests and row keys for config-driven lists
+ * @author Labor2Hire Team
+ */
+
+import {
+    appendQueryParams,
+    buildPageRequest,
+    getItemKey,
+    normalizeDataSource,
+    readPage,
+} from '../src/utils/ListDataSource';
+
+describe('normalizeDataSource', () => {
+    test('treats strings as screen state paths and arrays as static items', () => {
+        expect(normalizeDataSource('jobs')).toEqual({ path: 'state.jobs' });
+        expect(normalizeDataSource('state.search.results')).toEqual({ path: 'state.search.results' });
+        expect(normalizeDataSource([{ id: 1 }])).toEqual({ items: [{ id: 1 }] });
+        expect(normalizeDataSource(undefined)).toBeNull();
+    });
+
+    test('stores API items at their path or under the list id', () => {
+        const api = { url: '/jobs', select: '$.data.jobs' };
+
+        expect(normalizeDataSource({ api, path: 'jobs', loadingPath: 'jobsLoading' }, 'jobList')).toEqual({
+            api,
+            path: 'state.jobs',
+            loadingPath: 'state.jobsLoading',
+            errorPath: undefined,
+            statusPath: 'state.jobsStatus',
+        });
+        expect(normalizeDataSource({ api }, 'jobList')?.path).toBe('state.lists.jobList');
+    });
+
+    test('rejects API sources with nowhere to store their items', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        expect(normalizeDataSource({ api: { url: '/jobs' } })).toBeNull();
+        warn.mockRestore();
+    });
+});
+
+describe('pagination', () => {
+    const api = { url: '/jobs?q=mason', select: '$.data' };
+
+    test('appends query params to URLs with or without a query string', () => {
+        expect(appendQueryParams('/jobs', { page: 2, cursor: undefined })).toBe('/jobs?page=2');
+        expect(appendQueryParams('/jobs?q=a b', { after: 'x/y' })).toBe('/jobs?q=a b&after=x%2Fy');
+        expect(appendQueryParams('/jobs', {})).toBe('/jobs');
+    });
+
+    test('requests the first page, then the page after the last loaded one', () => {
+        const pagination = { type: 'page' as const, pageSize: 20 };
+
+        expect(buildPageRequest(api, pagination, { page: 3 }, 'initial')).toEqual({
+            request: { ...api, url: '/jobs?q=mason&limit=20&page=1' },
+            page: 1,
+        });
+        expect(buildPageRequest(api, pagination, { page: 3 }, 'more').request.url).toBe('/jobs?q=mason&limit=20&page=4');
+        expect(buildPageRequest(api, { type: 'page', firstPage: 0 }, undefined, 'refresh').page).toBe(0);
+        expect(buildPageRequest(api, undefined, undefined, 'initial')).toEqual({ request: api });
+    });
+
+    test('sends cursors only for later pages, in the body of non-GET requests', () => {
+        const pagination = { type: 'cursor' as const, cursorParam: 'after', nextCursor: '$.next' };
+        const search = { url: '/jobs/search', method: 'POST', data: { q: 'mason' } };
+
+        expect(buildPageRequest(search, pagination, { cursor: 'c2' }, 'refresh').request.data).toEqual({ q: 'mason' });
+        expect(buildPageRequest(search, pagination, { cursor: 'c2' }, 'more').request.data).toEqual({ q: 'mason', after: 'c2' });
+    });
+
+    test('reads items and whether more pages follow', () => {
+        const response = { data: [{ id: 1 }, { id: 2 }], next: 'c3', total: 5 };
+
+        expect(readPage(response, api)).toEqual({ items: response.data, hasMore: false });
+        expect(readPage(response, api, { type: 'page', pageSize: 2 }, 1)).toEqual({
+            items: response.data,
+            hasMore: true,
+            page: 1,
+            cursor: null,
+        });
+        expect(readPage(response, api, { type: 'page', pageSize: 3 }, 1).hasMore).toBe(false);
+        expect(readPage(response, api, { type: 'cursor', nextCursor: '$.next' }).cursor).toBe('c3');
+        expect(readPage({ data: [] }, api, { type: 'cursor', nextCursor: '$.next' }).hasMore).toBe(false);
+        expect(readPage({ data: [], more: true }, api, { type: 'page', hasMore: '$.more' }).hasMore).toBe(true);
+    });
+});
+
+describe('getItemKey', () => {
+    test('reads keyExtractor paths from the item or the row scope', () => {
+        const job = { id: 7, employer: { code: 'ACME' } };
+
+        expect(getItemKey(job, 0, 'employer.code')).toBe('ACME');
+        expect(getItemKey(job, 0, 'item.id')).toBe('7');
+        expect(getItemKey(job, 3, 'index')).toBe('3');
+    });
+
+    test('falls back to id, key and then the index', () => {
+        expect(getItemKey({ id: 7 }, 0)).toBe('7');
+        expect(getItemKey({ key: 'a' }, 0)).toBe('a');
+        expect(getItemKey({ title: 'Mason' }, 2, 'slug')).toBe('2');
+        expect(getItemKey('Mason', 4)).toBe('4');
+    });
+});
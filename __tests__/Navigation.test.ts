@@ -0,0 +1,196 @@
+/**
+ * Navigation Stack Test Suite
+ * Tests the navigation slice, route resolution and route guards against the App config
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import remoteConfigReducer, { updateScreenConfig } from '../src/features/remoteConfig/remoteConfigSlice';
+import sessionReducer, { clearSession, setSession } from '../src/features/session/sessionSlice';
+import userReducer, { setRole } from '../src/features/user/userSlice';
+import languageReducer, { setLanguage } from '../src/features/language/languageSlice';
+import screenStateReducer, { applyStateOperation } from '../src/features/screenState/screenStateSlice';
+import formsReducer, { setFormErrors } from '../src/features/forms/formsSlice';
+import navigationReducer, {
+    getNavigationMode,
+    goBack,
+    navigate,
+    popToScreen,
+    resumePendingRedirect,
+    selectCanGoBack,
+    selectCurrentRoute,
+    selectNavigationStack,
+    selectPendingRedirect,
+    selectStackDepth,
+} from '../src/features/navigation/navigationSlice';
+
+const appConfig = {
+    navigation: {
+        initialRoute: 'Language',
+        routes: [
+            { name: 'Language', component: 'ChooseLanguage' },
+            { name: 'Login', component: 'Auth' },
+            { name: 'Verify', component: 'OTPVerification' },
+            { name: 'Jobs', component: 'JobList', requiresLanguage: true, fallbackRoute: 'Language' },
+            { name: 'JobApplication', component: 'JobApplication', requiresAuth: true, requiredRole: 'labor' },
+            { name: 'PostJob', component: 'PostJob', requiredRole: 'employer', fallbackRoute: 'PostJob' },
+        ],
+        guardFallbacks: { auth: 'Login', role: 'Language' },
+    },
+};
+
+const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresAt: Date.now() + 60000, userId: 'user-1' };
+
+const createStore = () => {
+    const store = configureStore({
+        reducer: {
+            remoteConfig: remoteConfigReducer,
+            navigation: navigationReducer,
+            session: sessionReducer,
+            user: userReducer,
+            language: languageReducer,
+            screenState: screenStateReducer,
+            forms: formsReducer,
+        },
+    });
+    store.dispatch(updateScreenConfig({ screen: 'App', config: appConfig }));
+    return store;
+};
+
+describe('Navigation slice', () => {
+    test('pushes declared routes by name and resolves their screens', () => {
+        const store = createStore();
+        store.dispatch(navigate('Login') as any);
+        store.dispatch(navigate('Verify', { params: { phone: '9876543210' } }) as any);
+
+        expect(selectCurrentRoute(store.getState())).toEqual({
+            name: 'Verify',
+            screen: 'OTPVerification',
+            params: { phone: '9876543210' },
+        });
+        expect(selectStackDepth(store.getState())).toBe(3);
+        expect(selectCanGoBack(store.getState())).toBe(true);
+    });
+
+    test('ignores a push of the route already on top', () => {
+        const store = createStore();
+        store.dispatch(navigate('Login') as any);
+        store.dispatch(navigate('Auth') as any);
+
+        expect(selectStackDepth(store.getState())).toBe(2);
+    });
+
+    test('supports replace, reset, goBack and popToScreen', () => {
+        const store = createStore();
+        store.dispatch(navigate('Login') as any);
+        store.dispatch(navigate('Verify') as any);
+        store.dispatch(navigate('Home', { mode: 'replace' }) as any);
+        expect(selectNavigationStack(store.getState()).map(route => route.screen)).toEqual(['ChooseLanguage', 'Auth', 'Home']);
+
+        store.dispatch(navigate('Profile') as any);
+        store.dispatch(popToScreen('Login') as any);
+        expect(selectCurrentRoute(store.getState()).screen).toBe('Auth');
+
+        store.dispatch(goBack() as any);
+        store.dispatch(goBack() as any);
+        expect(selectNavigationStack(store.getState())).toHaveLength(1);
+        expect(selectCanGoBack(store.getState())).toBe(false);
+
+        store.dispatch(navigate('Home', { mode: 'reset' }) as any);
+        expect(selectNavigationStack(store.getState())).toEqual([{ name: 'Home', screen: 'Home' }]);
+    });
+
+    test('drops the screen state and forms of routes that leave the stack', () => {
+        const store = createStore();
+        const enterScreen = (screen: string) => {
+            store.dispatch(applyStateOperation({ screen, operation: 'set', path: 'state.note', value: screen }));
+            store.dispatch(setFormErrors({ screen, formId: 'details', errors: {} }));
+        };
+        enterScreen('ChooseLanguage');
+        store.dispatch(navigate('Login') as any);
+        enterScreen('Auth');
+        store.dispatch(navigate('JobDetails', { params: { jobId: 42 } }) as any);
+        enterScreen('JobDetails?jobId=42');
+
+        store.dispatch(goBack() as any);
+        expect(Object.keys(store.getState().screenState.screens)).toEqual(['ChooseLanguage', 'Auth']);
+        expect(Object.keys(store.getState().forms.screens)).toEqual(['ChooseLanguage', 'Auth']);
+
+        store.dispatch(navigate('Home', { mode: 'replace' }) as any);
+        expect(Object.keys(store.getState().screenState.screens)).toEqual(['ChooseLanguage']);
+
+        store.dispatch(navigate('Language', { mode: 'reset' }) as any);
+        expect(store.getState().screenState.screens).toEqual({ ChooseLanguage: { note: 'ChooseLanguage' } });
+        expect(Object.keys(store.getState().forms.screens)).toEqual(['ChooseLanguage']);
+    });
+
+    test('maps navigate payload flags to a mode', () => {
+        expect(getNavigationMode({ reset: true, replace: true })).toBe('reset');
+        expect(getNavigationMode({ replace: true })).toBe('replace');
+        expect(getNavigationMode(undefined)).toBe('push');
+    });
+});
+
+describe('Route guards', () => {
+    test('redirects to the route fallback when a requirement is not met', () => {
+        const store = createStore();
+        store.dispatch(navigate('Jobs') as any);
+        expect(selectCurrentRoute(store.getState()).screen).toBe('ChooseLanguage');
+        expect(selectStackDepth(store.getState())).toBe(1);
+
+        store.dispatch(setLanguage('hi'));
+        expect(store.dispatch(navigate('Jobs') as any)).toBe(true);
+        expect(selectCurrentRoute(store.getState()).screen).toBe('JobList');
+    });
+
+    test('sends signed-out users to sign in and resumes the route afterwards', () => {
+        const store = createStore();
+        store.dispatch(setRole({ role: 'labor' }));
+        store.dispatch(navigate('JobApplication', { params: { jobId: '42' } }) as any);
+
+        expect(selectCurrentRoute(store.getState()).name).toBe('Login');
+        expect(selectPendingRedirect(store.getState())).toEqual({
+            route: { name: 'JobApplication', screen: 'JobApplication', params: { jobId: '42' } },
+            depth: 1,
+        });
+
+        store.dispatch(navigate('Verify') as any);
+        store.dispatch(setSession(tokens));
+        expect(store.dispatch(resumePendingRedirect() as any)).toBe(true);
+
+        expect(selectNavigationStack(store.getState()).map(route => route.name)).toEqual(['ChooseLanguage', 'JobApplication']);
+        expect(selectPendingRedirect(store.getState())).toBeNull();
+        expect(store.dispatch(resumePendingRedirect() as any)).toBe(false);
+    });
+
+    test('drops the pending route when the session is cleared', () => {
+        const store = createStore();
+        store.dispatch(setRole({ role: 'labor' }));
+        store.dispatch(navigate('JobApplication', { params: { jobId: '42' } }) as any);
+        expect(selectPendingRedirect(store.getState())).not.toBeNull();
+
+        // Logout and a failed session refresh both clear the session
+        store.dispatch(clearSession());
+        expect(selectPendingRedirect(store.getState())).toBeNull();
+
+        store.dispatch(setSession({ ...tokens, userId: 'user-2' }));
+        expect(store.dispatch(resumePendingRedirect() as any)).toBe(false);
+        expect(selectCurrentRoute(store.getState()).name).toBe('Login');
+    });
+
+    test('checks the required role once signed in', () => {
+        const store = createStore();
+        store.dispatch(setSession(tokens));
+        store.dispatch(setRole({ role: 'employer' }));
+        store.dispatch(navigate('JobApplication') as any);
+
+        expect(selectCurrentRoute(store.getState()).screen).toBe('ChooseLanguage');
+        expect(selectPendingRedirect(store.getState())).toBeNull();
+    });
+
+    test('blocks navigation when the fallback is the route itself', () => {
+        const store = createStore();
+        expect(store.dispatch(navigate('PostJob') as any)).toBe(false);
+        expect(selectStackDepth(store.getState())).toBe(1);
+    });
+});
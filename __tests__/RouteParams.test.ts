@@ -0,0 +1,76 @@
+/**
+ * Route Params Test Suite
+ * Tests parameterized screen config requests, storage and lookup
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import { createConnectedClient } from './helpers/ConfigClientHelpers';
+import { getScreenConfigKey, getScreenFromConfigKey } from '../src/utils/ScreenConfigKey';
+import remoteConfigReducer, {
+    selectScreenConfig,
+    updateScreenConfig,
+} from '../src/features/remoteConfig/remoteConfigSlice';
+
+const jobConfig = (title: string) => ({
+    screenType: 'JobDetails',
+    metadata: { screenTitle: title },
+    components: [{ type: 'Text', props: { text: '{{route.params.jobId}}' } }],
+});
+
+describe('Screen config keys', () => {
+    test('sorts params and leaves plain screens unchanged', () => {
+        expect(getScreenConfigKey('JobDetails', { jobId: 42, tab: 'pay' })).toBe('JobDetails?jobId=42&tab=pay');
+        expect(getScreenConfigKey('JobDetails', { tab: 'pay', jobId: 42 })).toBe('JobDetails?jobId=42&tab=pay');
+        expect(getScreenConfigKey('JobDetails', { jobId: undefined })).toBe('JobDetails');
+        expect(getScreenConfigKey('Home')).toBe('Home');
+        expect(getScreenFromConfigKey('JobDetails?jobId=42')).toBe('JobDetails');
+    });
+});
+
+describe('ConfigClient parameterized requests', () => {
+    test('sends params with the request and stores the response under its key', async () => {
+        const { client, socket, handlers, onConfigUpdate } = createConnectedClient();
+
+        client.requestScreenConfig('JobDetails', { jobId: '42' });
+        expect(socket.emit).toHaveBeenCalledWith(
+            'requestScreenConfig',
+            'JobDetails',
+            expect.objectContaining({ params: { jobId: '42' } })
+        );
+
+        client.requestScreenConfig('Home');
+        expect(socket.emit).toHaveBeenLastCalledWith(
+            'requestScreenConfig',
+            'Home',
+            { language: 'en', locale: 'en', appVersion: expect.any(String) }
+        );
+
+        await handlers.screenConfigUpdate({ screen: 'JobDetails', params: { jobId: '42' }, config: jobConfig('Job 42') });
+        expect(onConfigUpdate).toHaveBeenCalledWith('JobDetails?jobId=42', jobConfig('Job 42'), expect.any(Object));
+        expect(client.getAllConfigs()['JobDetails?jobId=42']).toEqual(jobConfig('Job 42'));
+    });
+
+    test('keeps parameterized configs through a full sync', async () => {
+        const { client, handlers, onFullConfigSync } = createConnectedClient();
+
+        await handlers.screenConfigUpdate({ screen: 'JobDetails', params: { jobId: '42' }, config: jobConfig('Job 42') });
+        await handlers.fullConfigSync({ configs: { JobDetails: jobConfig('Job') } });
+
+        expect(Object.keys(client.getAllConfigs()).sort()).toEqual(['JobDetails', 'JobDetails?jobId=42']);
+        expect(onFullConfigSync.mock.calls[0][0]['JobDetails?jobId=42']).toEqual(jobConfig('Job 42'));
+    });
+});
+
+describe('selectScreenConfig with params', () => {
+    test('prefers the parameterized config and falls back to the plain one', () => {
+        const store = configureStore({ reducer: { remoteConfig: remoteConfigReducer } });
+        store.dispatch(updateScreenConfig({ screen: 'JobDetails', config: jobConfig('Job') }));
+        store.dispatch(updateScreenConfig({ screen: 'JobDetails?jobId=42', config: jobConfig('Job 42') }));
+
+        const state = store.getState();
+        expect(selectScreenConfig('JobDetails', { jobId: '42' })(state).metadata.screenTitle).toBe('Job 42');
+        expect(selectScreenConfig('JobDetails', { jobId: '7' })(state).metadata.screenTitle).toBe('Job');
+        expect(selectScreenConfig('Profile', { id: '1' })(state)).toBeNull();
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * RTL Test Suite
+ * Tests mirroring of config styles for right-to-left languages
+ * @author Labor2Hire Team
+ */
+
+import { mirrorStyle, shouldMirror } from '../src/utils/Rtl';
+
+describe('shouldMirror', () => {
+    test('mirrors only while the language direction differs from the native one', () => {
+        expect(shouldMirror('rtl', false)).toBe(true);
+        expect(shouldMirror('ltr', true)).toBe(true);
+        expect(shouldMirror('rtl', true)).toBe(false);
+        expect(shouldMirror('ltr', false)).toBe(false);
+        expect(shouldMirror(undefined, false)).toBe(false);
+    });
+});
+
+describe('mirrorStyle', () => {
+    test('swaps left and right sides', () => {
+        expect(mirrorStyle({
+            marginLeft: 8,
+            paddingRight: 4,
+            left: 0,
+            borderTopLeftRadius: 12,
+            borderLeftColor: '#ccc',
+            marginTop: 2,
+        })).toEqual({
+            marginRight: 8,
+            paddingLeft: 4,
+            right: 0,
+            borderTopRightRadius: 12,
+            borderRightColor: '#ccc',
+            marginTop: 2,
+        });
+    });
+
+    test('reverses row layouts and text alignment', () => {
+        expect(mirrorStyle({ flexDirection: 'row', textAlign: 'left' })).toEqual({
+            flexDirection: 'row-reverse',
+            textAlign: 'right',
+        });
+        expect(mirrorStyle({ flexDirection: 'column', textAlign: 'center' })).toEqual({
+            flexDirection: 'column',
+            textAlign: 'center',
+        });
+    });
+
+    test('is its own inverse', () => {
+        const style = { marginLeft: 8, right: 4, flexDirection: 'row-reverse', textAlign: 'right' };
+        expect(mirrorStyle(mirrorStyle(style))).toEqual(style);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Screen State Store Test Suite
+ * Tests state path helpers and the per-screen state operations behind `updateState`
+ * @author Labor2Hire Team
+ */
+
+import screenStateReducer, {
+    applyStateOperation,
+    applyStateOperations,
+    clearScreenState,
+    initializeScreenState,
+    selectScreenState,
+    selectScreenStateValue,
+} from '../src/features/screenState/screenStateSlice';
+import {
+    collectPathReferences,
+    getValueAtPath,
+    parsePath,
+    setValueAtPath,
+} from '../src/utils/StatePath';
+
+const reduce = (actions: any[], state = screenStateReducer(undefined, { type: '@@INIT' })) =>
+    actions.reduce((current, action) => screenStateReducer(current, action), state);
+
+describe('State paths', () => {
+    test('parses dotted and indexed paths', () => {
+        expect(parsePath('form.items[2].name')).toEqual(['form', 'items', 2, 'name']);
+        expect(parsePath('')).toEqual([]);
+    });
+
+    test('reads and writes nested values, creating containers as needed', () => {
+        const target: Record<string, any> = {};
+        setValueAtPath(target, 'form.tags[0]', 'plumber');
+
+        expect(target).toEqual({ form: { tags: ['plumber'] } });
+        expect(getValueAtPath(target, 'form.tags[0]')).toBe('plumber');
+        expect(getValueAtPath(target, 'form.missing.deep')).toBeUndefined();
+    });
+
+    test('collects state references from templates and condition fields only', () => {
+        const references = collectPathReferences(
+            {
+                props: { text: 'Hi {{state.form.name}}, {{user.name}}', placeholder: 'state.ignored' },
+                conditions: { show: { field: 'state.flags[0]', operator: 'exists' } },
+            },
+            ['state']
+        );
+
+        expect(Array.from(references)).toEqual(['state.form.name', 'state.flags[0]']);
+    });
+
+    test('collects the values condition expressions read from', () => {
+        const references = collectPathReferences(
+            { show: { expr: "state.auth.phone.length == 10 && state.skills.includes('welding') && !state.auth.isLoading" } },
+            ['state']
+        );
+
+        expect(Array.from(references)).toEqual(['state.auth.phone', 'state.skills', 'state.auth.isLoading']);
+    });
+});
+
+describe('Screen state slice', () => {
+    test('seeds defaults without overwriting values already entered', () => {
+        const state = reduce([
+            applyStateOperation({ screen: 'Auth', path: 'state.auth.phoneNumber', value: '9876543210' }),
+            initializeScreenState({ screen: 'Auth', initialState: { auth: { phoneNumber: '' }, step: 1 } }),
+        ]);
+
+        expect(state.screens.Auth).toEqual({ auth: { phoneNumber: '9876543210' }, step: 1 });
+    });
+
+    test('applies set, merge, toggle, increment, push and remove operations', () => {
+        const state = reduce([
+            applyStateOperations({
+                screen: 'Register',
+                operations: [
+                    { path: 'state.form.name', value: 'Asha' },
+                    { operation: 'merge', path: 'form', value: { city: 'Pune' } },
+                    { operation: 'toggle', path: 'form.agreed' },
+                    { operation: 'increment', path: 'step' },
+                    { operation: 'increment', path: 'step', value: 2 },
+                    { operation: 'push', path: 'skills', value: 'masonry' },
+                    { operation: 'push', path: 'skills', value: 'painting' },
+                    { operation: 'push', path: 'skills', value: 'welding' },
+                    { operation: 'remove', path: 'skills', index: 0 },
+                    { operation: 'remove', path: 'skills', value: 'welding' },
+                ],
+            }),
+        ]);
+
+        expect(state.screens.Register).toEqual({
+            form: { name: 'Asha', city: 'Pune', agreed: true },
+            step: 3,
+            skills: ['painting'],
+        });
+    });
+
+    test('removes object keys and keeps screens isolated', () => {
+        const state = reduce([
+            applyStateOperation({ screen: 'Auth', path: 'auth.otpCode', value: '123456' }),
+            applyStateOperation({ screen: 'Home', path: 'auth.otpCode', value: '999999' }),
+            applyStateOperation({ screen: 'Auth', operation: 'remove', path: 'state.auth.otpCode' }),
+        ]);
+
+        expect(state.screens.Auth).toEqual({ auth: {} });
+        expect(state.screens.Home.auth.otpCode).toBe('999999');
+    });
+
+    test('selects screen state and values, and clears a screen', () => {
+        const screenState = reduce([
+            applyStateOperation({ screen: 'Auth', path: 'state.auth.phoneNumber', value: '9876543210' }),
+        ]);
+        const rootState = { screenState };
+
+        expect(selectScreenStateValue('Auth', 'state.auth.phoneNumber')(rootState)).toBe('9876543210');
+        expect(selectScreenState('Home')(rootState)).toEqual({});
+        expect(selectScreenState('Home')(rootState)).toBe(selectScreenState('Other')(rootState));
+
+        expect(reduce([clearScreenState('Auth')], screenState).screens).toEqual({});
+    });
+});
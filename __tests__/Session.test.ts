@@ -0,0 +1,82 @@
+/**
+ * Session Management Test Suite
+ * Tests session creation on OTP verification, token refresh and logout
+ * @author Labor2Hire Team
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { requestOtp, verifyOtp } from '../src/features/auth/authSlice';
+import sessionReducer, {
+    logout,
+    refreshSession,
+    selectIsLoggedIn,
+    selectSession,
+} from '../src/features/session/sessionSlice';
+import userReducer, { selectUserRole, setRole } from '../src/features/user/userSlice';
+import { AuthError, FakeAuthProvider, setAuthProvider } from '../src/services/auth';
+
+const PHONE = '9876543210';
+
+const createSignedInStore = async (provider = new FakeAuthProvider({ otpCode: '123456' })) => {
+    setAuthProvider(provider);
+    const store = configureStore({ reducer: { auth: authReducer, session: sessionReducer, user: userReducer } });
+    await store.dispatch(requestOtp(PHONE) as any);
+    await store.dispatch(verifyOtp('123456') as any);
+    return { store, provider };
+};
+
+describe('Session slice', () => {
+    test('starts a session when OTP verification succeeds', async () => {
+        const { store } = await createSignedInStore();
+
+        expect(selectIsLoggedIn(store.getState())).toBe(true);
+        expect(selectSession(store.getState())).toEqual({
+            accessToken: 'fake-access-1',
+            refreshToken: 'fake-refresh-1',
+            expiresAt: expect.any(Number),
+            userId: `user-${PHONE}`,
+        });
+    });
+
+    test('replaces tokens on refresh and shares a single in-flight refresh', async () => {
+        const { store, provider } = await createSignedInStore();
+        const refreshSpy = jest.spyOn(provider, 'refresh');
+
+        await Promise.all([store.dispatch(refreshSession() as any), store.dispatch(refreshSession() as any)]);
+
+        expect(refreshSpy).toHaveBeenCalledTimes(1);
+        expect(selectSession(store.getState())).toMatchObject({ accessToken: 'fake-access-2', refreshToken: 'fake-refresh-2' });
+    });
+
+    test('signs out when the refresh token is rejected but keeps it on transient failures', async () => {
+        const { store, provider } = await createSignedInStore();
+
+        jest.spyOn(provider, 'refresh').mockRejectedValueOnce(new AuthError('network', 'offline'));
+        await expect(store.dispatch(refreshSession() as any)).rejects.toMatchObject({ code: 'network' });
+        expect(selectIsLoggedIn(store.getState())).toBe(true);
+
+        jest.spyOn(provider, 'refresh').mockRejectedValueOnce(new AuthError('invalid_refresh_token', 'revoked'));
+        store.dispatch(setRole({ role: 'employer' }));
+        await store.dispatch(refreshSession() as any);
+        expect(selectIsLoggedIn(store.getState())).toBe(false);
+        expect(store.getState().auth.status).toBe('idle');
+        expect(selectUserRole(store.getState())).toBeNull();
+    });
+
+    test('logout clears the session and the user role, and revokes the refresh token', async () => {
+        const { store, provider } = await createSignedInStore();
+        const logoutSpy = jest.spyOn(provider, 'logout');
+        store.dispatch(setRole({ role: 'labor' }));
+
+        await store.dispatch(logout() as any);
+
+        expect(logoutSpy).toHaveBeenCalledWith('fake-refresh-1');
+        expect(selectSession(store.getState())).toEqual({
+            accessToken: null,
+            refreshToken: null,
+            expiresAt: null,
+            userId: null,
+        });
+        expect(selectUserRole(store.getState())).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Theme Test Suite
+ * Tests token resolution, color scheme variants and style classes
+ * @author Labor2Hire Team
+ */
+
+import { resolveStyle, resolveTheme, resolveTokenReferences, ThemeDefinition } from '../src/utils/Theme';
+
+const themeDefinition: ThemeDefinition = {
+    tokens: {
+        colors: { primary: '#007AFF', background: '#ffffff', text: '#111111' },
+        spacing: { sm: 8, md: 16 },
+        radii: { card: 12 },
+    },
+    dark: {
+        colors: { background: '#000000', text: '#f5f5f5' },
+    },
+    styles: {
+        card: { backgroundColor: '$colors.background', borderRadius: '$radii.card', padding: '$spacing.md' },
+        button: {
+            primary: { backgroundColor: '$colors.primary', padding: '$spacing.sm' },
+        },
+    },
+};
+
+describe('resolveTheme', () => {
+    test('merges the color scheme variant over the base tokens', () => {
+        expect(resolveTheme(themeDefinition, 'light').tokens.colors).toEqual(themeDefinition.tokens!.colors);
+        expect(resolveTheme(themeDefinition, 'dark').tokens.colors).toEqual({
+            primary: '#007AFF',
+            background: '#000000',
+            text: '#f5f5f5',
+        });
+    });
+
+    test('lets screen globalStyles add to and override theme style classes', () => {
+        const { styles } = resolveTheme(themeDefinition, 'light', { card: { padding: 4 }, banner: { height: 80 } });
+
+        expect(styles.card).toEqual({ ...themeDefinition.styles!.card, padding: 4 });
+        expect(styles.banner).toEqual({ height: 80 });
+        expect(resolveTheme(undefined, 'light')).toEqual({ scheme: 'light', tokens: {}, styles: {} });
+    });
+});
+
+describe('resolveTokenReferences', () => {
+    test('replaces token references and leaves other strings alone', () => {
+        const { tokens } = resolveTheme(themeDefinition, 'dark');
+
+        expect(resolveTokenReferences({
+            color: '$colors.text',
+            colors: ['$colors.primary', '#fff'],
+            label: '$5 per hour',
+            missing: '$colors.accent',
+        }, tokens)).toEqual({
+            color: '#f5f5f5',
+            colors: ['#007AFF', '#fff'],
+            label: '$5 per hour',
+            missing: '$colors.accent',
+        });
+    });
+});
+
+describe('resolveStyle', () => {
+    test('applies style classes in order, then the component style', () => {
+        const theme = resolveTheme(themeDefinition, 'dark');
+
+        expect(resolveStyle({ margin: '$spacing.sm' }, ['card', 'button.primary'], theme)).toEqual({
+            backgroundColor: '#007AFF',
+            borderRadius: 12,
+            padding: 8,
+            margin: 8,
+        });
+        expect(resolveStyle({ padding: 2 }, 'card', theme)).toEqual({ backgroundColor: '#000000', borderRadius: 12, padding: 2 });
+    });
+
+    test('warns about unknown classes and passes styles through without a theme', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(resolveStyle({ flex: 1 }, 'button.ghost', resolveTheme(themeDefinition, 'light'))).toEqual({ flex: 1 });
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('button.ghost'));
+        expect(resolveStyle({ color: '$colors.text' }, 'card', null)).toEqual({ color: '$colors.text' });
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Variants Test Suite
+ * Tests device condition matching and merging of responsive and platform variants
+ * @author Labor2Hire Team
+ */
+
+import { applyVariants, getDeviceEnvironment, matchesVariant } from '../src/utils/Variants';
+
+const phone = getDeviceEnvironment('android', { width: 360, height: 740, fontScale: 1 });
+const tablet = getDeviceEnvironment('ios', { width: 1024, height: 768, fontScale: 1.4 });
+
+describe('matchesVariant', () => {
+    test('matches platform, orientation and window conditions', () => {
+        expect(phone.orientation).toBe('portrait');
+        expect(tablet.orientation).toBe('landscape');
+
+        expect(matchesVariant('platform:ios', tablet)).toBe(true);
+        expect(matchesVariant('platform:ios', phone)).toBe(false);
+        expect(matchesVariant('orientation:landscape', tablet)).toBe(true);
+        expect(matchesVariant('width>600', tablet)).toBe(true);
+        expect(matchesVariant('width <= 360', phone)).toBe(true);
+        expect(matchesVariant('fontScale>=1.3', tablet)).toBe(true);
+        expect(matchesVariant('height=740', phone)).toBe(true);
+    });
+
+    test('requires every condition of a combined key', () => {
+        expect(matchesVariant('platform:android&width<400', phone)).toBe(true);
+        expect(matchesVariant('platform:android & width>600', phone)).toBe(false);
+    });
+
+    test('matches the language direction', () => {
+        const rtlPhone = getDeviceEnvironment('android', { width: 360, height: 740 }, 'rtl');
+
+        expect(phone.direction).toBe('ltr');
+        expect(matchesVariant('direction:rtl', rtlPhone)).toBe(true);
+        expect(matchesVariant('direction:rtl', phone)).toBe(false);
+    });
+
+    test('never matches unknown conditions', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        expect(matchesVariant('density>2', phone)).toBe(false);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('density>2'));
+        warn.mockRestore();
+    });
+});
+
+describe('applyVariants', () => {
+    const variants = {
+        'width>600': { style: { padding: 32, shadowOffset: { height: 4 } }, props: { numColumns: 2 } },
+        'platform:ios': { style: { shadowOffset: { width: 0 } } },
+        'fontScale>1.3': { props: { numberOfLines: 3 } },
+    };
+    const props = { numColumns: 1, numberOfLines: 2 };
+    const style = { padding: 16, shadowOffset: { width: 1, height: 1 } };
+
+    test('merges matching variants in declaration order', () => {
+        expect(applyVariants(props, style, variants, tablet)).toEqual({
+            props: { numColumns: 2, numberOfLines: 3 },
+            style: { padding: 32, shadowOffset: { width: 0, height: 4 } },
+        });
+        expect(style.shadowOffset).toEqual({ width: 1, height: 1 });
+    });
+
+    test('keeps the base props and style when nothing matches', () => {
+        const result = applyVariants(props, style, variants, phone);
+        expect(result.props).toBe(props);
+        expect(result.style).toBe(style);
+        expect(applyVariants(undefined, undefined, undefined, phone)).toEqual({ props: {}, style: {} });
+    });
+});
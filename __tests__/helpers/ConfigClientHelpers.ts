@@ -0,0 +1,52 @@
+/**
+ * ConfigClient Test Helpers
+ * Shared setup for suites that drive ConfigClient through its mocked socket
+ * @author Labor2Hire Team
+ */
+
+import { ConfigClient, ConfigClientOptions } from '../../src/services/ConfigClient';
+
+/**
+ * Create a client with a mock socket, connected unless stated otherwise, and capture its event handlers
+ * Signatures are only checked when the options ask for them
+ */
+export const createConnectedClient = (
+    options: ConfigClientOptions = {},
+    { connected = true }: { connected?: boolean } = {}
+) => {
+    const onConfigUpdate = jest.fn();
+    const onFullConfigSync = jest.fn();
+    const onTranslationsUpdate = jest.fn();
+    const onFragmentsUpdate = jest.fn();
+    const onError = jest.fn();
+    const client = new ConfigClient({
+        offlineSupport: false,
+        requireSignatures: false,
+        onConfigUpdate,
+        onFullConfigSync,
+        onTranslationsUpdate,
+        onFragmentsUpdate,
+        onError,
+        ...options,
+    });
+    client.connect();
+
+    const socket = client.socket as any;
+    const handlers: Record<string, (...args: any[]) => any> = {};
+    socket.on.mock.calls.forEach(([event, handler]: [string, any]) => {
+        handlers[event] = handler;
+    });
+    if (connected) handlers.connect();
+    socket.emit.mockClear();
+
+    return {
+        client,
+        socket,
+        handlers,
+        onConfigUpdate: client.options.onConfigUpdate as jest.Mock,
+        onFullConfigSync: client.options.onFullConfigSync as jest.Mock,
+        onTranslationsUpdate: client.options.onTranslationsUpdate as jest.Mock,
+        onFragmentsUpdate: client.options.onFragmentsUpdate as jest.Mock,
+        onError: client.options.onError as jest.Mock,
+    };
+};
@@ -5,7 +5,9 @@ module.exports = {
     '^@react-native-async-storage/async-storage$':
       '<rootDir>/__mocks__/@react-native-async-storage/async-storage.js',
   },
+  // Shared test setup lives next to the suites but is not a suite itself
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|@react-navigation|socket.io-client)/)',
+    'node_modules/(?!(react-native(-.*)?|@react-native(-.*)?|@react-navigation|react-redux|socket.io-client)/)',
   ],
 };
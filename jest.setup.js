@@ -16,10 +16,11 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
 }));
 
 // Mock React Native modules
+// Only the mocked modules are replaced: spreading the real module would run every lazy getter,
+// including DevMenu, whose TurboModule is not available under Jest
 jest.mock('react-native', () => {
   const RN = jest.requireActual('react-native');
-  return {
-    ...RN,
+  const mocks = {
     Alert: {
       alert: jest.fn(),
     },
@@ -35,6 +36,10 @@ jest.mock('react-native', () => {
       vibrate: jest.fn(),
     },
   };
+  Object.entries(mocks).forEach(([name, value]) => {
+    Object.defineProperty(RN, name, { value, configurable: true, enumerable: true });
+  });
+  return RN;
 });
 
 // Mock Socket.io client
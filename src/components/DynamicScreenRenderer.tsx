@@ -3,164 +3,106 @@
  * Renders individual screens based on backend configuration
  * 
  * Key Features:
- * - Manages local auth state (phoneNumber, otpCode) 
- * - Automatically handles input field changes via updatePhoneNumber/updateOtpCode actions
- * - Provides template interpolation for {{state.auth.phoneNumber}} and {{state.auth.otpCode}}
- * - Ensures requestOtp and verifyOtp actions get the latest auth state values
+ * - Seeds the screen state store from the config's `initialState`
+ * - Exposes the current route and its params, e.g. {{route.params.jobId}}
+ * - Resolves `$ref` fragment references against the shared fragments
+ * - Applies the App config theme for the device color scheme, with the screen's globalStyles
+ * - Exposes the declared languages, the layout direction (`{{language.isRTL}}`) and the current
+ *   language's font as the `$fonts.language` token
  * 
  * @author Labor2Hire Team
  */
 
-import React, { useState } from 'react';
-import { useSelector } from 'react-redux';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
 import DynamicRenderer from './common/DynamicRenderer';
-import { selectScreenConfig } from '../features/remoteConfig/remoteConfigSlice';
-import { SCREEN_NAMES } from '../constants/ScreenNames';
+import { selectFragments, selectScreenConfig, selectTheme } from '../features/remoteConfig/remoteConfigSlice';
+import { initializeScreenState } from '../features/screenState/screenStateSlice';
+import { selectIsLoggedIn, selectSessionUserId } from '../features/session/sessionSlice';
+import { selectCanGoBack, selectStackDepth } from '../features/navigation/navigationSlice';
+import {
+    selectAvailableLanguages,
+    selectCurrentLanguage,
+    selectCurrentLanguageOption,
+    selectIsLanguageSelected,
+    selectIsRTL,
+} from '../features/language/languageSlice';
+import { NavigationRoute } from '../features/navigation/routeConfig';
+import { mergeFragment, resolveFragments } from '../utils/Fragments';
+import { getScreenConfigKey } from '../utils/ScreenConfigKey';
+import { resolveTheme } from '../utils/Theme';
 
 interface DynamicScreenRendererProps {
     currentScreen: string;
+    // Route being rendered, with the params it was navigated with
+    route?: NavigationRoute;
     onAction: (action: any, context?: any) => void;
-    onNavigate: (screen: string) => void;
 }
 
 export const DynamicScreenRenderer: React.FC<DynamicScreenRendererProps> = ({
     currentScreen,
+    route,
     onAction,
-    onNavigate,
 }) => {
-    // Get the configuration for the current screen
-    const screenConfig = useSelector(selectScreenConfig(currentScreen));
-
-    // Local state for auth data that can be updated by actions
-    const [authState, setAuthState] = useState({
-        phoneNumber: '',
-        otpCode: '',
-        isAuthenticated: false,
-        isLoading: false,
-    });
-
-    // Local state for category selection
-    const [categoryState, setCategoryState] = useState({
-        selectedCategory: '',
-    });
-
-    // Handle action with navigation support
-    const handleActionWithNavigation = (action: any, context?: any) => {
-        // Update auth state based on action
-        if (action.type === 'updateAuthState' && action.payload) {
-            setAuthState(prev => ({
-                ...prev,
-                ...action.payload,
-            }));
-            return;
-        }
-
-        // Handle phone number input
-        if (action.type === 'updatePhoneNumber' && action.payload?.phoneNumber !== undefined) {
-            console.log('🔢 DynamicScreenRenderer: Updating phone number:', action.payload.phoneNumber);
-            setAuthState(prev => ({
-                ...prev,
-                phoneNumber: action.payload.phoneNumber,
-            }));
-            return;
-        }
-
-        // Handle OTP input
-        if (action.type === 'updateOtpCode' && action.payload?.otpCode !== undefined) {
-            console.log('🔐 DynamicScreenRenderer: Updating OTP code:', action.payload.otpCode);
-            setAuthState(prev => ({
-                ...prev,
-                otpCode: action.payload.otpCode,
-            }));
-            return;
-        }
-
-        // Handle category selection
-        if (action.type === 'selectCategory' && action.payload?.category !== undefined) {
-            console.log('🏗️ DynamicScreenRenderer: Updating selected category:', action.payload.category);
-            setCategoryState(prev => ({
-                ...prev,
-                selectedCategory: action.payload.category,
-            }));
-            // Still pass the action to the main handler for any additional processing
-        }
-
-        // For requestOtp and verifyOtp actions, ensure we have the latest auth state
-        if (action.type === 'requestOtp') {
-            console.log('🚀 DynamicScreenRenderer: Processing requestOtp action');
-            console.log('🚀 Current auth state:', authState);
-            console.log('🚀 Original action payload:', action.payload);
-
-            const updatedAction = {
-                ...action,
-                payload: {
-                    ...action.payload,
-                    phone: action.payload.phone || authState.phoneNumber,
-                }
-            };
-
-            console.log('🚀 Updated requestOtp action payload:', updatedAction.payload);
-            onAction(updatedAction, context);
-            return;
-        }
-
-        if (action.type === 'verifyOtp') {
-            console.log('🚀 DynamicScreenRenderer: Processing verifyOtp action');
-            console.log('🚀 Current auth state:', authState);
-            console.log('🚀 Original action payload:', action.payload);
-
-            const updatedAction = {
-                ...action,
-                payload: {
-                    ...action.payload,
-                    phone: action.payload.phone || authState.phoneNumber,
-                    otp: action.payload.otp || authState.otpCode,
-                }
-            };
-
-            console.log('🚀 Updated verifyOtp action payload:', updatedAction.payload);
-            onAction(updatedAction, context);
-            return;
-        }
-
-        // Check if this is a navigation action
-        if (action.type === 'navigate' && action.payload?.screen) {
-            onNavigate(action.payload.screen);
-            return;
-        }
-
-        // Check if this is a language selection action with navigation
-        if (action.type === 'selectLanguage' && action.payload?.navigateTo) {
-            onNavigate(action.payload.navigateTo);
-            return;
-        }
-
-        // Check if this is a retry action
-        if (action.type === 'retryLoad') {
-            onAction(action, context);
-            return;
-        }
-
-        // Check if this is a reload action
-        if (action.type === 'reload') {
-            onAction(action, context);
-            return;
-        }
-
-        // Pass other actions to the parent handler
-        onAction(action, context);
-    };
+    const routeName = route?.name || currentScreen;
+    const routeParams = route?.params;
+
+    // Get the configuration for the current screen and its params, with fragment references resolved
+    // A fragment update re-renders every screen using it; components without references keep their identity
+    const rawScreenConfig = useSelector(selectScreenConfig(currentScreen, routeParams));
+    const fragments = useSelector(selectFragments);
+    const screenConfig = useMemo(
+        () => rawScreenConfig && {
+            ...rawScreenConfig,
+            components: resolveFragments(rawScreenConfig.components, fragments),
+            loadingState: resolveFragments(rawScreenConfig.loadingState, fragments),
+            errorState: resolveFragments(rawScreenConfig.errorState, fragments),
+        },
+        [rawScreenConfig, fragments]
+    );
+    const dispatch = useDispatch();
+    const initialState = screenConfig?.initialState;
+
+    // Theme for the current color scheme; a theme pushed with the App config applies immediately
+    const colorScheme = useColorScheme() === 'dark' ? 'dark' : 'light';
+    const themeDefinition = useSelector(selectTheme);
+    const globalStyles = screenConfig?.globalStyles;
+    const currentLanguage = useSelector(selectCurrentLanguage);
+    const availableLanguages = useSelector(selectAvailableLanguages);
+    const isLanguageSelected = useSelector(selectIsLanguageSelected);
+    const isRTL = useSelector(selectIsRTL);
+    const languageFont = useSelector(selectCurrentLanguageOption)?.fontFamily;
+    const theme = useMemo(() => {
+        const resolved = resolveTheme(themeDefinition, colorScheme, globalStyles);
+        return languageFont
+            ? { ...resolved, tokens: mergeFragment(resolved.tokens, { fonts: { language: languageFont } }) }
+            : resolved;
+    }, [themeDefinition, colorScheme, globalStyles, languageFont]);
+    const isLoggedIn = useSelector(selectIsLoggedIn);
+    const userId = useSelector(selectSessionUserId);
+    const canGoBack = useSelector(selectCanGoBack);
+    const stackDepth = useSelector(selectStackDepth);
+
+    // Each stack entry keeps its own state, so two JobDetails routes with different params never share it
+    const stateKey = useMemo(() => getScreenConfigKey(currentScreen, routeParams), [currentScreen, routeParams]);
+
+    // Seed the screen state store, keeping anything already entered on this screen
+    useEffect(() => {
+        dispatch(initializeScreenState({ screen: stateKey, initialState }));
+    }, [dispatch, stateKey, initialState]);
 
     // Global data that can be accessed by all components
-    const globalData = {
+    // Screen state lives in the store and is read per path, so it is not part of globalData
+    const globalData = useMemo(() => ({
         app: {
             initialized: true,
             currentScreen,
             version: '1.0.0',
         },
         user: {
-            isLoggedIn: false,
+            isLoggedIn,
+            id: userId,
             isOnboarded: false,
         },
         screen: {
@@ -168,21 +110,27 @@ export const DynamicScreenRenderer: React.FC<DynamicScreenRendererProps> = ({
             name: currentScreen,
         },
         language: {
-            current: 'en',
-            available: ['en', 'hi'],
-            isSelected: false,
+            current: currentLanguage,
+            available: availableLanguages,
+            isSelected: isLanguageSelected,
+            isRTL,
         },
         navigation: {
-            canGoBack: currentScreen !== SCREEN_NAMES.CHOOSE_LANGUAGE,
+            canGoBack,
+            depth: stackDepth,
             currentRoute: currentScreen,
         },
-        // Add auth state that templates can reference
-        state: {
-            auth: authState,
-            selectedCategory: categoryState.selectedCategory,
-            userRole: 'labor', // Default user role
+        route: {
+            name: routeName,
+            params: routeParams || {},
+        },
+        theme: {
+            scheme: colorScheme,
         },
-    };
+    }), [
+        currentScreen, isLoggedIn, userId, canGoBack, stackDepth, routeName, routeParams, colorScheme,
+        currentLanguage, availableLanguages, isLanguageSelected, isRTL,
+    ]);
 
     // Show error state if no configuration is found
     if (!screenConfig) {
@@ -204,7 +152,8 @@ export const DynamicScreenRenderer: React.FC<DynamicScreenRendererProps> = ({
             <DynamicRenderer
                 componentTree={[screenConfig.loadingState]}
                 globalData={globalData}
-                onAction={handleActionWithNavigation}
+                onAction={onAction}
+                theme={theme}
             />
         );
     }
@@ -215,7 +164,8 @@ export const DynamicScreenRenderer: React.FC<DynamicScreenRendererProps> = ({
             <DynamicRenderer
                 componentTree={[screenConfig.errorState]}
                 globalData={globalData}
-                onAction={handleActionWithNavigation}
+                onAction={onAction}
+                theme={theme}
             />
         );
     }
@@ -225,7 +175,8 @@ export const DynamicScreenRenderer: React.FC<DynamicScreenRendererProps> = ({
         <DynamicRenderer
             componentTree={screenConfig.components || []}
             globalData={globalData}
-            onAction={handleActionWithNavigation}
+            onAction={onAction}
+            theme={theme}
         />
     );
 };
@@ -4,9 +4,9 @@
  * @author Labor2Hire Team
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { View, Text, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { View, Text, ActivityIndicator, Alert, BackHandler, I18nManager, Linking, StyleSheet } from 'react-native';
 // import the correct member from DynamicRenderer, or fix the import if the default export is used
 import DynamicRenderer from './common/DynamicRenderer';
 // If DynamicRenderer is not the default export, use:
@@ -18,26 +18,64 @@ import {
     selectConfigError,
     selectScreenConfig,
     selectConfigConnected,
+    selectLanguageCatalogue,
     setError
 } from '../features/remoteConfig/remoteConfigSlice';
+import {
+    refreshSession,
+    selectIsLoggedIn,
+    selectSession,
+    SESSION_REFRESH_MARGIN_MS,
+    SESSION_REFRESH_RETRY_MS,
+} from '../features/session/sessionSlice';
+import {
+    goBack,
+    navigate,
+    openDeepLink,
+    resetStack,
+    selectCanGoBack,
+    selectCurrentRoute,
+} from '../features/navigation/navigationSlice';
+import {
+    initializeLanguage,
+    selectAvailableLanguages,
+    selectCurrentLanguage,
+    selectIsLanguageInitialized,
+    selectIsLanguageSelected,
+    selectIsRTL,
+    setAvailableLanguages,
+} from '../features/language/languageSlice';
+import { translate } from '../services/i18n';
 import { AppDispatch } from '../store';
 import { DynamicScreenRenderer } from './DynamicScreenRenderer';
 import { SCREEN_NAMES } from '../constants/ScreenNames';
 
 export const MainApp: React.FC = () => {
     const dispatch = useDispatch<AppDispatch>();
-    const [currentScreen, setCurrentScreen] = useState<string>(SCREEN_NAMES.CHOOSE_LANGUAGE);
+    const currentRoute = useSelector(selectCurrentRoute);
+    const currentScreen = currentRoute.screen;
+    const canGoBack = useSelector(selectCanGoBack);
     const [appInitialized, setAppInitialized] = useState(false);
+    const initialUrlHandled = useRef(false);
 
     // Selectors
     const loading = useSelector(selectConfigLoading);
     const error = useSelector(selectConfigError);
     const connected = useSelector(selectConfigConnected);
     const appConfig = useSelector(selectScreenConfig(SCREEN_NAMES.APP));
+    const session = useSelector(selectSession);
+    const isLoggedIn = useSelector(selectIsLoggedIn);
+    const languageCatalogue = useSelector(selectLanguageCatalogue);
+    const currentLanguage = useSelector(selectCurrentLanguage);
+    const availableLanguages = useSelector(selectAvailableLanguages);
+    const isLanguageSelected = useSelector(selectIsLanguageSelected);
+    const isLanguageInitialized = useSelector(selectIsLanguageInitialized);
+    const isRTL = useSelector(selectIsRTL);
 
     useEffect(() => {
-        // Initialize remote configuration on app start
+        // Initialize remote configuration and the saved language on app start
         dispatch(initializeRemoteConfig());
+        dispatch(initializeLanguage());
     }, [dispatch]);
 
     useEffect(() => {
@@ -48,6 +86,33 @@ export const MainApp: React.FC = () => {
         }
     }, [connected, dispatch]);
 
+    useEffect(() => {
+        // The App config's language catalogue replaces the built-in languages
+        if (languageCatalogue.length > 0) {
+            dispatch(setAvailableLanguages(languageCatalogue));
+        }
+    }, [languageCatalogue, dispatch]);
+
+    useEffect(() => {
+        // Apply the language's layout direction natively; it takes effect on the next launch,
+        // and until then the renderer mirrors config styles
+        if (!isLanguageInitialized) {
+            return;
+        }
+
+        I18nManager.allowRTL(isRTL);
+        I18nManager.forceRTL(isRTL);
+        if (I18nManager.isRTL !== isRTL) {
+            Alert.alert(
+                translate('app.restartRequired.title', { defaultValue: 'Restart required' }),
+                translate('app.restartRequired.message', {
+                    defaultValue: 'Restart the app to finish switching the layout direction.',
+                }),
+                [{ text: translate('app.restartRequired.ok', { defaultValue: 'OK' }) }]
+            );
+        }
+    }, [isLanguageInitialized, isRTL]);
+
     useEffect(() => {
         // Clear any previous errors when connection is restored and we have configs
         if (connected && appConfig && error) {
@@ -60,14 +125,69 @@ export const MainApp: React.FC = () => {
         if (appConfig && !appInitialized) {
             setAppInitialized(true);
 
-            // Get initial screen from config, default to ChooseLanguage for language selection
-            const initialRoute = appConfig.navigation?.routes?.find(
-                (route: any) => route.name === appConfig.navigation?.initialRoute
-            )?.component || SCREEN_NAMES.CHOOSE_LANGUAGE;
+            // Start from the initial route in config, default to ChooseLanguage for language selection
+            const initialRoute = appConfig.navigation?.initialRoute || SCREEN_NAMES.CHOOSE_LANGUAGE;
+            dispatch(navigate(initialRoute, { mode: 'reset' }));
+        }
+    }, [appConfig, appInitialized, dispatch]);
+
+    useEffect(() => {
+        // Open the launch URL once the App config routes are loaded; a reload must not reopen it
+        if (!appInitialized || initialUrlHandled.current) {
+            return;
+        }
+
+        initialUrlHandled.current = true;
+        Linking.getInitialURL()
+            .then(url => {
+                if (url) {
+                    dispatch(openDeepLink(url));
+                }
+            })
+            .catch(linkError => console.warn('Failed to read launch deep link:', linkError));
+    }, [appInitialized, dispatch]);
 
-            setCurrentScreen(initialRoute);
+    useEffect(() => {
+        // Open deep links received while running, once the App config routes are loaded
+        if (!appInitialized) {
+            return;
         }
-    }, [appConfig, appInitialized]);
+
+        const subscription = Linking.addEventListener('url', ({ url }) => {
+            dispatch(openDeepLink(url));
+        });
+        return () => subscription.remove();
+    }, [appInitialized, dispatch]);
+
+    useEffect(() => {
+        // Android hardware back pops the navigation stack, exiting only from the first screen
+        const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+            if (!canGoBack) {
+                return false;
+            }
+            dispatch(goBack());
+            return true;
+        });
+        return () => subscription.remove();
+    }, [canGoBack, dispatch]);
+
+    useEffect(() => {
+        // Refresh the session shortly before the access token expires, retrying transient failures
+        if (!session.refreshToken || !session.expiresAt) {
+            return;
+        }
+
+        let timer: ReturnType<typeof setTimeout>;
+        const refresh = () => {
+            dispatch(refreshSession()).catch((refreshError: unknown) => {
+                console.warn('Session refresh failed, retrying:', refreshError);
+                timer = setTimeout(refresh, SESSION_REFRESH_RETRY_MS);
+            });
+        };
+
+        timer = setTimeout(refresh, Math.max(session.expiresAt - SESSION_REFRESH_MARGIN_MS - Date.now(), 0));
+        return () => clearTimeout(timer);
+    }, [dispatch, session.refreshToken, session.expiresAt]);
 
     useEffect(() => {
         // Handle critical connection errors only when the app cannot function
@@ -88,147 +208,25 @@ export const MainApp: React.FC = () => {
         }
     }, [error, dispatch, appConfig, connected]);
 
-    // Handle action from dynamic components
+    // Handle app-level actions the dynamic renderer does not implement
     const handleAction = async (action: any, _context?: any) => {
         switch (action.type) {
-            case 'selectLanguage':
-                // Handle language selection and navigate
-                const { languageCode, navigateTo } = action.payload;
-                console.log(`Language selected: ${languageCode}, navigating to: ${navigateTo}`);
-
-                // Find the navigation target from app config
-                if (navigateTo && appConfig?.navigation?.routes) {
-                    const targetRoute = appConfig.navigation.routes.find(
-                        (route: any) => route.name === navigateTo
-                    );
-                    const targetComponent = targetRoute?.component || navigateTo;
-
-                    setCurrentScreen(targetComponent);
-                    // Request the next screen config
-                    dispatch(requestScreenConfig(targetComponent));
-                }
-                break;
-
-            case 'navigate':
-                // Handle navigation
-                const { screen } = action.payload;
-                if (screen) {
-                    // Find the component for this screen from app config
-                    if (appConfig?.navigation?.routes) {
-                        const targetRoute = appConfig.navigation.routes.find(
-                            (route: any) => route.name === screen
-                        );
-                        const targetComponent = targetRoute?.component || screen;
-
-                        setCurrentScreen(targetComponent);
-                        dispatch(requestScreenConfig(targetComponent));
-                    } else {
-                        setCurrentScreen(screen);
-                        dispatch(requestScreenConfig(screen));
-                    }
-                }
-                break;
-
             case 'retryLoad':
                 // Handle retry loading
                 dispatch(initializeRemoteConfig());
                 dispatch(requestScreenConfig(SCREEN_NAMES.APP));
-                dispatch(requestScreenConfig(currentScreen));
+                dispatch(requestScreenConfig(currentScreen, currentRoute.params));
                 break;
 
             case 'reload':
                 // Handle app reload
                 setAppInitialized(false);
-                setCurrentScreen(SCREEN_NAMES.CHOOSE_LANGUAGE);
+                dispatch(resetStack({ name: SCREEN_NAMES.CHOOSE_LANGUAGE, screen: SCREEN_NAMES.CHOOSE_LANGUAGE }));
                 dispatch(initializeRemoteConfig());
                 dispatch(requestScreenConfig(SCREEN_NAMES.APP));
                 dispatch(requestScreenConfig(SCREEN_NAMES.CHOOSE_LANGUAGE));
                 break;
 
-            case 'requestOtp':
-                // Handle OTP request
-                const { phone, navigateTo: otpNavigateTo } = action.payload;
-                console.log(`📱 Requesting OTP for phone: ${phone}`);
-
-                // Generate a random 6-digit OTP for development
-                const generatedOtp = Math.floor(100000 + Math.random() * 900000).toString();
-                console.log(`🔑 Generated OTP: ${generatedOtp} (Use this for testing)`);
-
-                // Navigate to OTP verification screen
-                if (otpNavigateTo && appConfig?.navigation?.routes) {
-                    const targetRoute = appConfig.navigation.routes.find(
-                        (route: any) => route.name === otpNavigateTo
-                    );
-                    const targetComponent = targetRoute?.component || otpNavigateTo;
-
-                    setCurrentScreen(targetComponent);
-                    dispatch(requestScreenConfig(targetComponent));
-                }
-                break;
-
-            case 'verifyOtp':
-                // Handle OTP verification
-                const { phone: verifyPhone, otp, navigateTo: verifyNavigateTo } = action.payload;
-                console.log(`🔐 Verifying OTP: ${otp} for phone: ${verifyPhone}`);
-
-                // Debug: Check what we received
-                console.log(`🔍 Debug - Raw OTP value: "${otp}"`);
-                console.log(`🔍 Debug - OTP type: ${typeof otp}`);
-                console.log(`🔍 Debug - OTP length: ${otp?.length}`);
-                console.log(`🔍 Debug - Action payload:`, JSON.stringify(action.payload, null, 2));
-
-                // For development, accept any 6-digit number as valid OTP
-                if (otp && typeof otp === 'string' && otp.length === 6 && /^\d{6}$/.test(otp.trim())) {
-                    console.log('✅ OTP verified successfully');
-
-                    // Navigate to next screen if specified
-                    if (verifyNavigateTo && appConfig?.navigation?.routes) {
-                        const targetRoute = appConfig.navigation.routes.find(
-                            (route: any) => route.name === verifyNavigateTo
-                        );
-                        const targetComponent = targetRoute?.component || verifyNavigateTo;
-
-                        setCurrentScreen(targetComponent);
-                        dispatch(requestScreenConfig(targetComponent));
-                    }
-                } else {
-                    console.log('❌ Invalid OTP format. Please enter a 6-digit number.');
-                    console.log(`🔍 Debug - Expected: 6-digit string, Got: "${otp}" (type: ${typeof otp}, length: ${otp?.length})`);
-                }
-                break;
-
-            case 'resendOtp':
-                // Handle OTP resend
-                const { phone: resendPhone } = action.payload;
-                console.log(`🔄 Resending OTP for phone: ${resendPhone}`);
-
-                // Generate a new random 6-digit OTP for development
-                const newOtp = Math.floor(100000 + Math.random() * 900000).toString();
-                console.log(`🔑 New OTP: ${newOtp} (Use this for testing)`);
-                break;
-
-            case 'selectRole':
-                // Handle role selection and navigate to Categories screen
-                const { role, navigateTo: roleNavigateTo } = action.payload;
-                console.log(`👤 Role selected: ${role}, navigating to: ${roleNavigateTo}`);
-
-                // Find the navigation target from app config
-                if (roleNavigateTo && appConfig?.navigation?.routes) {
-                    const targetRoute = appConfig.navigation.routes.find(
-                        (route: any) => route.name === roleNavigateTo
-                    );
-                    const targetComponent = targetRoute?.component || roleNavigateTo;
-
-                    setCurrentScreen(targetComponent);
-                    // Request the next screen config
-                    dispatch(requestScreenConfig(targetComponent));
-                } else if (roleNavigateTo) {
-                    // Fallback if no app config routes
-                    setCurrentScreen(roleNavigateTo);
-                    dispatch(requestScreenConfig(roleNavigateTo));
-                }
-                break;
-
             default:
                 console.log('Unhandled action:', action);
         }
@@ -244,9 +242,14 @@ export const MainApp: React.FC = () => {
                     componentTree={[loadingConfig]}
                     globalData={{
                         app: { initialized: false, loading: true },
-                        user: { isLoggedIn: false },
+                        user: { isLoggedIn },
                         screen: { loading: true, name: 'loading' },
-                        language: { current: null, available: ['en', 'hi'], isSelected: false }
+                        language: {
+                            current: currentLanguage,
+                            available: availableLanguages,
+                            isSelected: isLanguageSelected,
+                            isRTL,
+                        }
                     }}
                     onAction={handleAction}
                 />
@@ -268,22 +271,8 @@ export const MainApp: React.FC = () => {
     return (
         <DynamicScreenRenderer
             currentScreen={currentScreen}
+            route={currentRoute}
             onAction={handleAction}
-            onNavigate={(screen: string) => {
-                // Find the component for this screen from app config
-                if (appConfig?.navigation?.routes) {
-                    const targetRoute = appConfig.navigation.routes.find(
-                        (route: any) => route.name === screen
-                    );
-                    const targetComponent = targetRoute?.component || screen;
-
-                    setCurrentScreen(targetComponent);
-                    dispatch(requestScreenConfig(targetComponent));
-                } else {
-                    setCurrentScreen(screen);
-                    dispatch(requestScreenConfig(screen));
-                }
-            }}
         />
     );
 };
@@ -6,7 +6,7 @@
  * @author Labor2Hire Team
  */
 
-import React, { useMemo, memo } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, memo } from 'react';
 import {
     View,
     Text,
@@ -26,18 +26,72 @@ import {
     KeyboardAvoidingView,
     Alert,
     Linking,
+    Platform,
+    ToastAndroid,
     Share,
     Vibration,
     RefreshControl,
     SectionList,
     StyleSheet,
+    I18nManager,
+    useWindowDimensions,
 } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import LinearGradient from 'react-native-linear-gradient';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useDispatch } from 'react-redux';
+import { createNextState } from '@reduxjs/toolkit';
+import { shallowEqual, useDispatch, useSelector, useStore } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
-import { changeLanguage } from '../../features/language/languageSlice';
+import { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { changeLanguage, selectIsRTL, selectLocale } from '../../features/language/languageSlice';
+import { requestOtp, resendOtp, verifyOtp } from '../../features/auth/authSlice';
+import type { OtpRequestResult } from '../../services/auth';
+import { logout, selectSession } from '../../features/session/sessionSlice';
+import {
+    getNavigationMode,
+    goBack,
+    navigate,
+    popToScreen,
+    resumePendingRedirect,
+} from '../../features/navigation/navigationSlice';
+import { setCategory, setRole } from '../../features/user/userSlice';
+import {
+    applyStateOperation,
+    applyStateOperations,
+    selectScreenState,
+    StateOperation,
+} from '../../features/screenState/screenStateSlice';
+import { collectPathReferences, getValueAtPath, parsePath, setValueAtPath } from '../../utils/StatePath';
+import { applyInputTransforms, BindingDefinition, normalizeBinding } from '../../utils/Binding';
+import { setFieldError, setFormErrors, selectScreenForms } from '../../features/forms/formsSlice';
+import {
+    collectFormFields,
+    FormField,
+    getFormFieldName,
+    validateFormFields,
+    validateValue,
+} from '../../utils/FormValidation';
+import { ApiClientConfig, getApiClientConfig, sendApiRequest } from '../../services/ApiClient';
+import { mapResponse } from '../../utils/JsonPathSelector';
+import {
+    buildPageRequest,
+    DataSource,
+    DataSourceDefinition,
+    getItemKey,
+    ListLoadMode,
+    ListStatus,
+    normalizeDataSource,
+    readPage,
+} from '../../utils/ListDataSource';
+import { ResolvedTheme, resolveStyle, resolveTokenReferences, StyleRef } from '../../utils/Theme';
+import { applyVariants, DeviceEnvironment, getDeviceEnvironment, VariantDefinition } from '../../utils/Variants';
+import { mirrorStyle, shouldMirror } from '../../utils/Rtl';
+import { applyFormatters, parseTemplateExpression } from '../../utils/Formatters';
+import { evaluateExpression, ExpressionNode, parseExpression } from '../../utils/Expression';
+import { getScreenConfigKey } from '../../utils/ScreenConfigKey';
+import { SCREEN_NAMES } from '../../constants/ScreenNames';
+import i18n, { DEFAULT_LANGUAGE, getLocale, isTranslationReference, translate } from '../../services/i18n';
 import IconComponent from './IconComponent';
 
 /**
@@ -137,12 +191,28 @@ export interface ComponentDefinition {
     id?: string;
     props?: Record<string, any>;
     style?: Record<string, any>;
+    // Named style classes from the theme or the screen's globalStyles, applied before `style`
+    styleRef?: StyleRef;
+    // Props and style merged in when the device matches, e.g. `platform:ios` or `width>600`
+    variants?: Record<string, VariantDefinition>;
     children?: ComponentDefinition[];
     actions?: Record<string, ActionDefinition>;
     conditions?: ConditionsDefinition;
     accessibility?: AccessibilityDefinition;
     performance?: PerformanceHints;
     validation?: ValidationRules;
+    bind?: string | BindingDefinition;
+    // FlatList/SectionList rows: items come from `dataSource` and render through the templates
+    // with `{{item.*}}`, `{{index}}` and, in SectionLists, `{{section.*}}` in scope
+    dataSource?: DataSource;
+    itemTemplate?: ComponentDefinition;
+    keyExtractor?: string;
+    emptyTemplate?: ComponentDefinition;
+    separatorTemplate?: ComponentDefinition;
+    sectionHeaderTemplate?: ComponentDefinition;
+    // Footers of paginated lists while the next page loads or after it failed
+    footerLoadingTemplate?: ComponentDefinition;
+    footerErrorTemplate?: ComponentDefinition;
     cacheKey?: string;
     priority?: 'high' | 'normal' | 'low';
 }
@@ -156,6 +226,16 @@ export interface ActionDefinition {
     retry?: RetryConfig;
     analytics?: AnalyticsConfig;
     fallback?: ActionDefinition;
+    // Steps of a `sequence` or `parallel` action
+    actions?: ActionDefinition[];
+    // Branches of an `if` action, chosen by its `condition`
+    then?: ActionDefinition | ActionDefinition[];
+    else?: ActionDefinition | ActionDefinition[];
+    // Continuations run after the action succeeds or fails; a failure is exposed as {{vars.error}}
+    onSuccess?: ActionDefinition;
+    onError?: ActionDefinition;
+    // Store the action's result for later steps as {{vars.<resultAs>}}
+    resultAs?: string;
 }
 
 export interface ConditionsDefinition {
@@ -166,7 +246,9 @@ export interface ConditionsDefinition {
 }
 
 export interface ConditionDefinition {
-    operator: string;
+    operator?: string;
+    // Expression such as "state.auth.phoneNumber.length == 10 && !state.auth.isLoading", used instead of an operator
+    expr?: string;
     field?: string;
     value?: any;
     conditions?: ConditionDefinition[];
@@ -195,6 +277,7 @@ export interface ValidationRules {
     minLength?: number;
     maxLength?: number;
     pattern?: string;
+    message?: string;
     custom?: (value: any) => boolean | string;
 }
 
@@ -217,6 +300,8 @@ export interface DynamicRendererProps {
     maxDepth?: number;
     onError?: (error: Error, componentId?: string) => void;
     onPerformanceMetric?: (metric: PerformanceMetric) => void;
+    // Design tokens and style classes for `$token` references and `styleRef`
+    theme?: ResolvedTheme | null;
 }
 
 export interface PerformanceMetric {
@@ -251,8 +336,42 @@ const COMPONENT_MAP = {
     Picker,
     'Picker.Item': Picker.Item,
     Icon: IconComponent,
+    Form: View,
+};
+
+// App-level handler for action types the renderer does not implement
+type AppActionHandler = (action: ActionDefinition, context?: any) => any;
+
+// State operations that fall back to the triggering input value when no value is given
+const INPUT_VALUE_OPERATIONS = new Set<StateOperation>(['set', 'push']);
+
+// Template roots read from the scope passed as `vars` when it has them: those of list rows, and
+// the snapshot of `state` and `form` values a component renders with
+const SCOPE_ROOTS = new Set(['item', 'index', 'section', 'state', 'form']);
+
+// List components that render `itemTemplate` rows from a `dataSource`
+const LIST_COMPONENTS = new Set(['FlatList', 'SectionList']);
+
+// Screen state and forms are kept per stack entry, keyed like configs by the screen and its route params
+const getStateKey = (globalData: Record<string, any>): string | undefined => {
+    const screen = globalData.screen?.name || globalData.app?.currentScreen;
+    return screen ? getScreenConfigKey(screen, globalData.route?.params) : undefined;
 };
 
+type FormValidationTrigger = 'change' | 'blur' | 'submit';
+
+// Identifies the Form container a component is rendered inside
+const FormContext = createContext<{ formId: string; validateOn: FormValidationTrigger } | null>(null);
+
+// Theme of the screen being rendered
+const ThemeContext = createContext<ResolvedTheme | null>(null);
+
+// Platform, window metrics and language direction that component variants are matched against
+const DeviceContext = createContext<DeviceEnvironment | null>(null);
+
+// Translation function of the current language; a new one after every language change or added bundle
+const TranslationContext = createContext<TFunction | null>(null);
+
 /**
  * Production-Ready Action Handler with comprehensive features
  */
@@ -273,37 +392,64 @@ class EnhancedActionHandler {
     };
     private executionTimes: number[] = [];
     private onPerformanceMetric?: (metric: PerformanceMetric) => void;
+    private getState?: () => any;
+    private forms = new Map<string, FormField[]>();
+    private lists = new Map<string, DataSourceDefinition>();
+    private listGenerations = new Map<string, number>();
+    private expressions = new Map<string, ExpressionNode>();
+    private appActionHandler?: AppActionHandler;
 
     constructor(
         dispatch: any,
         navigation: any,
         globalData: Record<string, any> = {},
-        onPerformanceMetric?: (metric: PerformanceMetric) => void
+        onPerformanceMetric?: (metric: PerformanceMetric) => void,
+        getState?: () => any
     ) {
         this.dispatch = dispatch;
         this.navigation = navigation;
         this.globalData = globalData;
         this.onPerformanceMetric = onPerformanceMetric;
+        this.getState = getState;
     }
 
-    async executeAction(action: ActionDefinition, context?: any): Promise<void> {
+    /**
+     * Run an action and its continuations, resolving to the action's result
+     * Steps of composite actions and continuations run `nested`, sharing the caller's `context.vars`.
+     * The screen data and state key are captured when the chain starts, so steps that run after an
+     * await still read and write the screen that started it
+     */
+    async executeAction(action: ActionDefinition, context?: any, nested = false): Promise<any> {
         const startTime = Date.now();
         const actionId = this.generateActionId(action, context);
+        const globalData = context?.globalData || this.globalData;
+        const scope = {
+            ...context,
+            vars: context?.vars || {},
+            globalData,
+            stateKey: context?.stateKey ?? getStateKey(globalData),
+        };
+        let tracked = false;
+        let succeeded = false;
+        let result: any;
 
         try {
-            // Prevent duplicate actions
-            if (this.pendingActions.has(actionId)) {
-                console.warn(`⚠️ Action already pending: ${action.type}`);
-                return;
+            // Prevent duplicate actions; steps within a chain may repeat on purpose
+            if (!nested) {
+                if (this.pendingActions.has(actionId)) {
+                    console.warn(`⚠️ Action already pending: ${action.type}`);
+                    return undefined;
+                }
+                this.pendingActions.add(actionId);
+                tracked = true;
             }
 
-            this.pendingActions.add(actionId);
             this.metrics.actionsExecuted++;
 
             // Apply throttling
             if (action.throttle && this.isThrottled(action.type, action.throttle)) {
                 console.log(`🚦 Action throttled: ${action.type}`);
-                return;
+                return undefined;
             }
 
             // Apply debouncing
@@ -311,14 +457,18 @@ class EnhancedActionHandler {
                 await this.sleep(action.debounce);
             }
 
-            // Check condition
-            if (action.condition && !this.evaluateCondition(action.condition)) {
-                return;
+            // Check condition; an `if` action uses it to choose a branch instead
+            if (action.condition && action.type !== 'if' && !this.evaluateCondition(action.condition, scope.vars, scope.globalData)) {
+                return undefined;
             }
 
             // Execute with retry logic
-            await this.executeWithRetry(action, context);
+            result = await this.executeWithRetry(action, scope);
+            if (action.resultAs) {
+                scope.vars[action.resultAs] = result;
+            }
 
+            succeeded = true;
             this.metrics.actionsSucceeded++;
 
             // Track analytics
@@ -330,15 +480,18 @@ class EnhancedActionHandler {
             this.metrics.actionsFailed++;
             console.error(`❌ Action execution failed: ${action.type}`, error);
 
-            // Try fallback action
-            if (action.fallback) {
-                console.log(`🔄 Attempting fallback action for: ${action.type}`);
-                await this.executeAction(action.fallback, context);
-            } else {
-                throw error;
+            // Recover with onError, or the fallback action of older configs
+            const recovery = action.onError || action.fallback;
+            if (recovery) {
+                console.log(`🔄 Attempting ${action.onError ? 'onError' : 'fallback'} action for: ${action.type}`);
+                scope.vars.error = { action: action.type, message: this.getErrorMessage(error) };
+                return this.executeAction(recovery, scope, true);
             }
+            throw error;
         } finally {
-            this.pendingActions.delete(actionId);
+            if (tracked) {
+                this.pendingActions.delete(actionId);
+            }
 
             // Track performance
             const duration = Date.now() - startTime;
@@ -355,15 +508,21 @@ class EnhancedActionHandler {
                 });
             }
         }
+
+        if (succeeded && action.onSuccess) {
+            await this.executeAction(action.onSuccess, scope, true);
+        }
+
+        return result;
     }
 
-    private async executeWithRetry(action: ActionDefinition, context?: any, attempt = 1): Promise<void> {
+    private async executeWithRetry(action: ActionDefinition, context?: any, attempt = 1): Promise<any> {
         const maxAttempts = action.retry?.maxAttempts || 1;
         const delay = action.retry?.delay || 1000;
         const backoff = action.retry?.backoff || 'linear';
 
         try {
-            await this.executeMainAction(action, context);
+            return await this.executeMainAction(action, context);
         } catch (error) {
             if (attempt < maxAttempts) {
                 this.metrics.retryAttempts++;
@@ -377,100 +536,139 @@ class EnhancedActionHandler {
         }
     }
 
-    private async executeMainAction(action: ActionDefinition, context?: any): Promise<void> {
+    private async executeMainAction(action: ActionDefinition, context?: any): Promise<any> {
         const { type, payload } = action;
 
         switch (type) {
+            case 'sequence':
+                return this.handleSequence(action, context);
+            case 'parallel':
+                return this.handleParallel(action, context);
+            case 'if':
+                return this.handleIf(action, context);
             case 'navigate':
-                await this.handleNavigation(payload);
-                break;
+                return this.handleNavigation(payload, context);
+            case 'goBack':
+                this.dispatch(goBack());
+                return undefined;
+            case 'popToScreen':
+                if (!payload?.screen) {
+                    throw new Error('Screen is required for popToScreen');
+                }
+                this.dispatch(popToScreen(payload.screen));
+                return undefined;
             case 'selectLanguage':
-                await this.handleLanguageSelection(payload);
-                break;
+                return this.handleLanguageSelection(payload, context);
             case 'selectCategory':
-                await this.handleSelectCategory(payload);
-                break;
+                return this.handleSelectCategory(payload, context);
             case 'dispatch':
-                await this.handleReduxDispatch(payload);
-                break;
+                return this.handleReduxDispatch(payload, context);
             case 'showAlert':
-                await this.handleShowAlert(payload);
-                break;
+                return this.handleShowAlert(payload, context);
+            case 'showToast':
+                return this.handleShowToast(payload, context);
             case 'openUrl':
-                await this.handleOpenUrl(payload);
-                break;
+                return this.handleOpenUrl(payload, context);
             case 'shareContent':
-                await this.handleShareContent(payload);
-                break;
+                return this.handleShareContent(payload, context);
             case 'vibrate':
-                await this.handleVibrate(payload);
-                break;
+                return this.handleVibrate(payload);
             case 'updateState':
-                await this.handleUpdateState(payload, context);
-                break;
+                return this.handleUpdateState(payload, context);
+            case 'submitForm':
+                return this.handleSubmitForm(payload, context);
             case 'apiCall':
-                await this.handleApiCall(payload);
-                break;
+                return this.handleApiCall(payload, context);
+            case 'loadMore':
+                return this.handleListLoad('more', payload, context);
+            case 'refreshList':
+                return this.handleListLoad('refresh', payload, context);
             case 'storage':
-                await this.handleStorageOperation(payload);
-                break;
+                return this.handleStorageOperation(payload, context);
             case 'validation':
-                await this.handleValidation(payload);
-                break;
+                return this.handleValidation(payload, context);
             case 'analytics':
-                await this.handleAnalyticsEvent(payload);
-                break;
+                return this.handleAnalyticsEvent(payload, context);
             case 'requestOtp':
-                await this.handleRequestOtp(payload);
-                break;
+                return this.handleRequestOtp(payload, context);
             case 'verifyOtp':
-                await this.handleVerifyOtp(payload);
-                break;
+                return this.handleVerifyOtp(payload, context);
             case 'resendOtp':
-                await this.handleResendOtp(payload);
-                break;
+                return this.handleResendOtp(payload, context);
+            case 'logout':
+                return this.handleLogout(payload);
             case 'selectRole':
-                await this.handleSelectRole(payload);
-                break;
+                return this.handleSelectRole(payload, context);
             default:
+                // Types the renderer does not implement, e.g. retryLoad and reload, belong to the app
+                if (this.appActionHandler) {
+                    return this.appActionHandler(
+                        { ...action, payload: this.interpolateInContext(payload, context) },
+                        context
+                    );
+                }
                 console.warn(`Unknown action type: ${type}`);
                 throw new Error(`Unsupported action type: ${type}`);
         }
     }
 
+    public setAppActionHandler(handler?: AppActionHandler): void {
+        this.appActionHandler = handler;
+    }
+
+    // Composite actions: every step shares the caller's context and vars
+    private async handleSequence(action: ActionDefinition, context?: any): Promise<any> {
+        let result: any;
+        for (const step of action.actions || []) {
+            result = await this.executeAction(step, context, true);
+        }
+        return result;
+    }
+
+    private async handleParallel(action: ActionDefinition, context?: any): Promise<any[]> {
+        return Promise.all((action.actions || []).map(step => this.executeAction(step, context, true)));
+    }
+
+    private async handleIf(action: ActionDefinition, context?: any): Promise<any> {
+        if (!action.condition) {
+            throw new Error('Condition is required for if actions');
+        }
+
+        const branch = this.evaluateCondition(action.condition, context?.vars, context?.globalData) ? action.then : action.else;
+        if (!branch) {
+            return undefined;
+        }
+        return Array.isArray(branch)
+            ? this.handleSequence({ type: 'sequence', actions: branch }, context)
+            : this.executeAction(branch, context, true);
+    }
+
     // Enhanced action handlers with proper error handling
-    private async handleNavigation(payload: any): Promise<void> {
-        const { navigateTo, params, replace = false, reset = false } = payload || {};
-        if (!navigateTo || !this.navigation) {
-            throw new Error('Navigation target or navigation object not available');
+    private async handleNavigation(payload: any, context?: any): Promise<boolean> {
+        const resolved = this.interpolateInContext(payload, context) || {};
+        const navigateTo = resolved.screen || resolved.navigateTo;
+        if (!navigateTo) {
+            throw new Error('Navigation target not available');
         }
 
         try {
-            if (reset) {
-                this.navigation.reset({
-                    index: 0,
-                    routes: [{ name: navigateTo, params }],
-                });
-            } else if (replace) {
-                this.navigation.replace(navigateTo, params);
-            } else {
-                this.navigation.navigate(navigateTo, params);
-            }
+            return this.dispatch(navigate(navigateTo, { params: resolved.params, mode: getNavigationMode(resolved) }));
         } catch (error) {
             console.error('Navigation failed:', error);
             throw new Error(`Navigation to ${navigateTo} failed: ${this.getErrorMessage(error)}`);
         }
     }
 
-    private async handleLanguageSelection(payload: any): Promise<void> {
-        const { languageCode, navigateTo } = payload || {};
+    private async handleLanguageSelection(payload: any, context?: any): Promise<void> {
+        const { languageCode, navigateTo } = this.interpolateInContext(payload, context) || {};
         if (!languageCode || !this.dispatch) {
             throw new Error('Language code and dispatch are required');
         }
 
         try {
-            this.dispatch(changeLanguage(languageCode));
-            if (navigateTo && this.navigation) {
+            // Waits for the language's translations so the next screen renders translated
+            await this.dispatch(changeLanguage(languageCode));
+            if (navigateTo) {
                 await this.handleNavigation({ navigateTo });
             }
         } catch (error) {
@@ -479,8 +677,8 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleReduxDispatch(payload: any): Promise<void> {
-        const { actionType, actionPayload } = payload || {};
+    private async handleReduxDispatch(payload: any, context?: any): Promise<void> {
+        const { actionType, actionPayload } = this.interpolateInContext(payload, context) || {};
         if (!actionType || !this.dispatch) {
             throw new Error('Action type and dispatch are required');
         }
@@ -493,8 +691,8 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleShowAlert(payload: any): Promise<void> {
-        const { title, message, buttons } = payload || {};
+    private async handleShowAlert(payload: any, context?: any): Promise<void> {
+        const { title, message, buttons } = this.interpolateInContext(payload, context) || {};
         return new Promise((resolve) => {
             Alert.alert(
                 title || 'Alert',
@@ -510,8 +708,22 @@ class EnhancedActionHandler {
         });
     }
 
-    private async handleOpenUrl(payload: any): Promise<void> {
-        const { url } = payload || {};
+    private async handleShowToast(payload: any, context?: any): Promise<void> {
+        const { message, duration } = this.interpolateInContext(payload, context) || {};
+        if (!message) {
+            throw new Error('Message is required for toasts');
+        }
+
+        // Android has native toasts; elsewhere the message is shown as an alert
+        if (Platform.OS === 'android') {
+            ToastAndroid.show(String(message), duration === 'long' ? ToastAndroid.LONG : ToastAndroid.SHORT);
+        } else {
+            Alert.alert('', String(message));
+        }
+    }
+
+    private async handleOpenUrl(payload: any, context?: any): Promise<void> {
+        const { url } = this.interpolateInContext(payload, context) || {};
         if (!url) {
             throw new Error('URL is required');
         }
@@ -528,8 +740,8 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleShareContent(payload: any): Promise<void> {
-        const { title, message, url } = payload || {};
+    private async handleShareContent(payload: any, context?: any): Promise<void> {
+        const { title, message, url } = this.interpolateInContext(payload, context) || {};
         try {
             const result = await Share.share({
                 title,
@@ -561,40 +773,215 @@ class EnhancedActionHandler {
     }
 
     private async handleUpdateState(payload: any, context: any): Promise<void> {
-        console.log('Update state:', payload, context);
-        // Enhanced state update implementation
+        const screen = payload?.screen || context?.stateKey;
+        if (!screen) {
+            throw new Error('Screen name is required for state updates');
+        }
+
+        // Accept a single operation or a batch under `updates`
+        const updates: any[] = Array.isArray(payload?.updates) ? payload.updates : [payload];
+        const operations = updates.map(update => {
+            if (!update?.path) {
+                throw new Error('State path is required for state updates');
+            }
+
+            const operation: StateOperation = update.operation || 'set';
+            const inputValue = context?.inputValue !== undefined ? context.inputValue : context?.selectedValue;
+            const value = update.value === undefined && INPUT_VALUE_OPERATIONS.has(operation)
+                ? inputValue
+                : this.interpolateInContext(update.value, context);
+
+            return { operation, path: update.path, value, index: update.index };
+        });
+
+        if (operations.length === 1) {
+            this.dispatch(applyStateOperation({ screen, ...operations[0] }));
+        } else {
+            this.dispatch(applyStateOperations({ screen, operations }));
+        }
+    }
+
+    private async handleSubmitForm(payload: any, context: any): Promise<void> {
+        const formId = payload?.form || context?.formId;
+        if (!formId) {
+            throw new Error('Form id is required for form submission');
+        }
+
+        const screen = context?.stateKey;
+        const fields = this.forms.get(formId);
+        if (!screen || !fields) {
+            throw new Error(`Form not found: ${formId}`);
+        }
+
+        const errors = validateFormFields(fields, path => this.getFieldValue(path, undefined, context?.globalData));
+        this.dispatch(setFormErrors({ screen, formId, errors, submitted: true }));
+
+        if (Object.keys(errors).length > 0) {
+            console.log(`📝 Form ${formId} has invalid fields:`, Object.keys(errors));
+            if (payload?.onInvalid) {
+                await this.executeAction(payload.onInvalid, { ...context, formId, errors });
+            }
+            return;
+        }
+
+        const values: Record<string, any> = {};
+        fields.forEach(({ name, path }) => {
+            values[name] = this.getFieldValue(path, undefined, context?.globalData);
+        });
+
+        if (payload?.onSubmit) {
+            await this.executeAction(payload.onSubmit, { ...context, formId, values });
+        }
     }
 
-    private async handleApiCall(payload: any): Promise<void> {
-        const { url, method = 'GET', data, headers } = payload || {};
+    private async handleApiCall(payload: any, context?: any): Promise<any> {
+        const {
+            url,
+            method = 'GET',
+            data,
+            headers,
+            select,
+            resultPath,
+            loadingPath,
+            errorPath,
+        } = this.interpolateInContext(payload, context) || {};
         if (!url) {
             throw new Error('API URL is required');
         }
 
-        try {
-            const response = await fetch(url, {
-                method,
-                headers: {
-                    'Content-Type': 'application/json',
-                    ...headers,
-                },
-                body: data ? JSON.stringify(data) : undefined,
-            });
-
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        // Progress and outcome go to the screen that made the call, for components bound to these paths
+        const screen = context?.stateKey;
+        const writeState = (path: string | undefined, value: any) => {
+            const target = normalizeBinding(path)?.path;
+            if (target && screen) {
+                this.dispatch(applyStateOperation({ screen, operation: 'set', path: target, value }));
             }
+        };
+
+        writeState(loadingPath, true);
+        writeState(errorPath, null);
+        try {
+            const response = await sendApiRequest({ url, method, data, headers }, this.getApiClientConfig());
+            const result = select ? mapResponse(response, select) : response;
+            console.log('API call successful:', url);
 
-            const result = await response.json();
-            console.log('API call successful:', result);
+            writeState(resultPath, result);
+            return result;
         } catch (error) {
             console.error('API call failed:', error);
+            writeState(errorPath, this.getErrorMessage(error));
             throw new Error(`API call failed: ${this.getErrorMessage(error)}`);
+        } finally {
+            writeState(loadingPath, false);
+        }
+    }
+
+    // Base URL and default headers from the App config, plus the current session token
+    private getApiClientConfig(): ApiClientConfig {
+        const state = this.getState?.();
+        return getApiClientConfig(
+            state?.remoteConfig?.configs[SCREEN_NAMES.APP],
+            state ? selectSession(state).accessToken : null
+        );
+    }
+
+    // List registration used by `loadMore` and `refreshList` actions, e.g. from a footer retry button
+    public registerList(listId: string, source: DataSourceDefinition): void {
+        this.lists.set(listId, source);
+    }
+
+    public unregisterList(listId: string): void {
+        this.lists.delete(listId);
+    }
+
+    private async handleListLoad(mode: ListLoadMode, payload: any, context?: any): Promise<void> {
+        const { list } = this.interpolateInContext(payload, context) || {};
+        const source = list ? this.lists.get(list) : undefined;
+        if (!source) {
+            throw new Error(`List not found: ${list}`);
         }
+        return this.loadListPage(source, mode, context?.globalData);
     }
 
-    private async handleStorageOperation(payload: any): Promise<any> {
-        const { operation, key, value } = payload || {};
+    /**
+     * Load a page of an API data source into screen state, tracking progress in its ListStatus
+     * Loads of one list never overlap: `more` waits for a pending load, while a new first page
+     * (`initial`, `refresh`) supersedes it and the superseded response is discarded.
+     * Pages are written to the screen of `data`, even if another screen is showing when they arrive
+     */
+    public async loadListPage(
+        source: DataSourceDefinition,
+        mode: ListLoadMode,
+        data: Record<string, any> = this.globalData
+    ): Promise<void> {
+        const { api, path, statusPath, pagination, loadingPath, errorPath } = source;
+        const screen = getStateKey(data);
+        if (!api || !path || !statusPath || !screen) return;
+
+        const listId = `list_${screen}_${path}`;
+        const status: Partial<ListStatus> = this.getFieldValue(statusPath, undefined, data) || {};
+        if (mode === 'more' && (!status.hasMore || this.pendingActions.has(listId))) return;
+
+        const generation = (this.listGenerations.get(listId) || 0) + (mode === 'more' ? 0 : 1);
+        this.listGenerations.set(listId, generation);
+        this.pendingActions.add(listId);
+        const isCurrent = () => this.listGenerations.get(listId) === generation;
+
+        const writeState = (values: Array<[string | undefined, any]>) => {
+            const operations = values
+                .filter(([target]) => target)
+                .map(([target, value]) => ({ operation: 'set' as StateOperation, path: target as string, value }));
+            this.dispatch(applyStateOperations({ screen, operations }));
+        };
+        const idle: ListStatus = {
+            page: status.page,
+            cursor: status.cursor,
+            hasMore: status.hasMore ?? false,
+            loading: false,
+            loadingMore: false,
+            refreshing: false,
+            error: null,
+        };
+
+        writeState([
+            [statusPath, { ...idle, loading: mode === 'initial', refreshing: mode === 'refresh', loadingMore: mode === 'more' }],
+            [mode !== 'more' ? loadingPath : undefined, true],
+            [errorPath, null],
+        ]);
+
+        try {
+            const { request, page } = buildPageRequest(this.interpolatePayload(api, undefined, data), pagination, status, mode);
+            const response = await sendApiRequest(request, this.getApiClientConfig());
+            if (!isCurrent()) return;
+
+            const result = readPage(response, request, pagination, page);
+            const previous = this.getFieldValue(path, undefined, data);
+            const items = mode === 'more' && Array.isArray(previous) ? [...previous, ...result.items] : result.items;
+            console.log(`📋 Loaded ${result.items.length} items for ${path} (${mode})`);
+
+            writeState([
+                [path, items],
+                [statusPath, { ...idle, page: result.page, cursor: result.cursor, hasMore: result.hasMore }],
+            ]);
+        } catch (error) {
+            if (!isCurrent()) return;
+            console.error(`List load failed for ${path}:`, error);
+            writeState([
+                [statusPath, { ...idle, error: this.getErrorMessage(error) }],
+                [errorPath, this.getErrorMessage(error)],
+            ]);
+        } finally {
+            if (isCurrent()) {
+                this.pendingActions.delete(listId);
+                if (loadingPath && mode !== 'more') {
+                    writeState([[loadingPath, false]]);
+                }
+            }
+        }
+    }
+
+    private async handleStorageOperation(payload: any, context?: any): Promise<any> {
+        const { operation, key, value } = this.interpolateInContext(payload, context) || {};
         if (!operation || !key) {
             throw new Error('Storage operation and key are required');
         }
@@ -619,46 +1006,20 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleValidation(payload: any): Promise<void> {
-        const { rules, value, field } = payload || {};
+    private async handleValidation(payload: any, context?: any): Promise<void> {
+        const { rules, value, field } = this.interpolateInContext(payload, context) || {};
         if (!rules) {
             throw new Error('Validation rules are required');
         }
 
-        const errors: string[] = [];
-
-        if (rules.required && (!value || value.trim() === '')) {
-            errors.push(`${field || 'Field'} is required`);
-        }
-
-        if (rules.minLength && value && value.length < rules.minLength) {
-            errors.push(`${field || 'Field'} must be at least ${rules.minLength} characters`);
-        }
-
-        if (rules.maxLength && value && value.length > rules.maxLength) {
-            errors.push(`${field || 'Field'} must be no more than ${rules.maxLength} characters`);
-        }
-
-        if (rules.pattern && value && !new RegExp(rules.pattern).test(value)) {
-            errors.push(`${field || 'Field'} format is invalid`);
-        }
-
-        if (rules.custom && typeof rules.custom === 'function') {
-            const customResult = rules.custom(value);
-            if (typeof customResult === 'string') {
-                errors.push(customResult);
-            } else if (!customResult) {
-                errors.push(`${field || 'Field'} is invalid`);
-            }
-        }
-
+        const errors = validateValue(value, rules, field || 'Field');
         if (errors.length > 0) {
             throw new Error(errors.join(', '));
         }
     }
 
-    private async handleAnalyticsEvent(payload: any): Promise<void> {
-        const { event, properties } = payload || {};
+    private async handleAnalyticsEvent(payload: any, context?: any): Promise<void> {
+        const { event, properties } = this.interpolateInContext(payload, context) || {};
         if (!event) {
             throw new Error('Analytics event name is required');
         }
@@ -671,94 +1032,81 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleRequestOtp(payload: any): Promise<void> {
-        const { phone, navigateTo } = payload || {};
+    private async handleRequestOtp(payload: any, context?: any): Promise<OtpRequestResult> {
+        const { phone, navigateTo } = this.interpolateInContext(payload, context) || {};
         if (!phone) {
-            throw new Error('Phone number is required for OTP request');
+            throw new Error('requestOtp needs a phone number in its payload, e.g. { "phone": "{{state.phoneNumber}}" }');
         }
 
+        let result: OtpRequestResult;
         try {
             console.log(`📱 Requesting OTP for phone: ${phone}`);
-
-            // Generate OTP and log it for development
-            const response = await this.simulateOtpRequest(phone);
-
-            if (response.success) {
-                console.log('✅ OTP sent successfully');
-                if (response.otp) {
-                    console.log(`🎯 Generated OTP: ${response.otp} (for development testing)`);
-                }
-
-                // Navigate to OTP verification screen if specified
-                if (navigateTo && this.navigation) {
-                    await this.handleNavigation({ navigateTo });
-                }
-            } else {
-                throw new Error(response.error || 'Failed to send OTP');
-            }
+            result = await this.dispatch(requestOtp(String(phone)));
+            console.log('✅ OTP sent successfully');
         } catch (error) {
             console.error('OTP request failed:', error);
             throw new Error(`OTP request failed: ${this.getErrorMessage(error)}`);
         }
+
+        // Navigate to OTP verification screen if specified
+        if (navigateTo) {
+            await this.handleNavigation({ navigateTo });
+        }
+        return result;
     }
 
-    private async handleVerifyOtp(payload: any): Promise<void> {
-        const { phone, otp, navigateTo } = payload || {};
-        if (!phone || !otp) {
-            throw new Error('Phone number and OTP are required for verification');
+    private async handleVerifyOtp(payload: any, context?: any): Promise<void> {
+        const { phone, otp, navigateTo } = this.interpolateInContext(payload, context) || {};
+        if (!otp) {
+            throw new Error('verifyOtp needs the entered code in its payload, e.g. { "otp": "{{state.otpCode}}" }');
         }
 
         try {
-            console.log(`🔐 Verifying OTP for phone: ${phone}`);
-
-            // TODO: Replace with actual OTP verification service call
-            // For now, simulate OTP verification
-            const response = await this.simulateOtpVerification(phone, otp);
-
-            if (response.success) {
-                console.log('✅ OTP verified successfully');
-
-                // Navigate to next screen if specified
-                if (navigateTo && this.navigation) {
-                    await this.handleNavigation({ navigateTo });
-                }
-            } else {
-                throw new Error(response.error || 'Invalid OTP code');
-            }
+            console.log('🔐 Verifying OTP');
+            await this.dispatch(verifyOtp(String(otp).trim(), phone ? String(phone) : undefined));
+            console.log('✅ OTP verified successfully');
         } catch (error) {
             console.error('OTP verification failed:', error);
             throw new Error(`OTP verification failed: ${this.getErrorMessage(error)}`);
         }
-    }
 
-    private async handleResendOtp(payload: any): Promise<void> {
-        const { phone } = payload || {};
-        if (!phone) {
-            throw new Error('Phone number is required for OTP resend');
+        // Return to the route that required sign-in, else navigate to next screen if specified
+        if (this.dispatch(resumePendingRedirect())) {
+            return;
         }
+        if (navigateTo) {
+            await this.handleNavigation({ navigateTo });
+        }
+    }
 
-        try {
-            console.log(`🔄 Resending OTP for phone: ${phone}`);
-
-            // Generate new OTP and log it for development
-            const response = await this.simulateOtpRequest(phone);
+    private async handleResendOtp(payload: any, context?: any): Promise<OtpRequestResult> {
+        const { phone } = this.interpolateInContext(payload, context) || {};
 
-            if (response.success) {
-                console.log('✅ OTP resent successfully');
-                if (response.otp) {
-                    console.log(`🎯 New OTP: ${response.otp} (for development testing)`);
-                }
-            } else {
-                throw new Error(response.error || 'Failed to resend OTP');
-            }
+        try {
+            console.log('🔄 Resending OTP');
+            const result = await this.dispatch(resendOtp(phone ? String(phone) : undefined));
+            console.log('✅ OTP resent successfully');
+            return result;
         } catch (error) {
             console.error('OTP resend failed:', error);
             throw new Error(`OTP resend failed: ${this.getErrorMessage(error)}`);
         }
     }
 
-    private async handleSelectRole(payload: any): Promise<void> {
-        const { role, navigateTo } = payload || {};
+    private async handleLogout(payload: any): Promise<void> {
+        const { navigateTo } = payload || {};
+
+        console.log('🔒 Logging out');
+        await this.dispatch(logout());
+
+        // Navigate to the signed-out screen if specified
+        if (navigateTo) {
+            await this.handleNavigation({ navigateTo });
+        }
+    }
+
+    private async handleSelectRole(payload: any, context?: any): Promise<void> {
+        const { role, navigateTo } = this.interpolateInContext(payload, context) || {};
         if (!role) {
             throw new Error('Role is required for role selection');
         }
@@ -766,19 +1114,11 @@ class EnhancedActionHandler {
         try {
             console.log(`👤 Role selected: ${role}`);
 
-            // Update global state with selected role
-            this.globalData.selectedRole = role;
-
-            // If dispatch is available, update Redux state
-            if (this.dispatch) {
-                this.dispatch({
-                    type: 'user/setRole',
-                    payload: { role }
-                });
-            }
+            // Store the role before navigating so role-guarded routes see it
+            this.dispatch(setRole({ role }));
 
             // Navigate to next screen if specified
-            if (navigateTo && this.navigation) {
+            if (navigateTo) {
                 console.log(`🧭 Navigating to: ${navigateTo}`);
                 await this.handleNavigation({ navigateTo });
             }
@@ -788,8 +1128,8 @@ class EnhancedActionHandler {
         }
     }
 
-    private async handleSelectCategory(payload: any): Promise<void> {
-        const { category, action } = payload || {};
+    private async handleSelectCategory(payload: any, context?: any): Promise<void> {
+        const { category, action } = this.interpolateInContext(payload, context) || {};
         if (!category) {
             throw new Error('Category is required for category selection');
         }
@@ -797,162 +1137,82 @@ class EnhancedActionHandler {
         try {
             console.log(`🏗️ Category action: ${action || 'select'} - ${category}`);
 
-            // Initialize state if not exists
-            if (!this.globalData.state) {
-                this.globalData.state = {};
-            }
-
-            if (action === 'remove') {
-                // Clear category selection
-                this.globalData.state.selectedCategory = '';
-            } else {
-                // Single category selection - replace any existing selection
-                if (category && category !== '') {
-                    // Update the selected category for single selection
-                    this.globalData.state.selectedCategory = category;
-                }
+            const screen = context?.stateKey;
+            if (!screen) {
+                throw new Error('Screen name is required for category selection');
             }
 
-            // Update global state for single category selection
-            this.globalData.state = {
-                ...this.globalData.state,
-                selectedCategory: this.globalData.state.selectedCategory
-            };
+            // Single category selection - replace any existing selection, or clear it on remove
+            this.dispatch(applyStateOperation({
+                screen,
+                operation: 'set',
+                path: 'state.selectedCategory',
+                value: action === 'remove' ? '' : category,
+            }));
+            const selectedCategory = this.getFieldValue('state.selectedCategory', undefined, context?.globalData);
 
-            // If dispatch is available, update Redux state (optional since no user slice exists)
-            if (this.dispatch) {
-                // Only dispatch if there's a user slice configured
-                try {
-                    this.dispatch({
-                        type: 'user/setCategory',
-                        payload: {
-                            category: this.globalData.state.selectedCategory
-                        }
-                    });
-                } catch (error) {
-                    // Redux dispatch failed - this is expected if no user slice is configured
-                    console.log('Redux dispatch for category selection not configured:', error);
-                }
-            }
+            this.dispatch(setCategory({ category: selectedCategory }));
 
-            console.log(`✅ Category updated: ${this.globalData.state.selectedCategory}`);
+            console.log(`✅ Category updated: ${selectedCategory}`);
         } catch (error) {
             console.error('Category selection failed:', error);
             throw new Error(`Category selection failed: ${this.getErrorMessage(error)}`);
         }
     }
 
-    // Simulation methods - replace with actual service calls
-    private async simulateOtpRequest(phone: string): Promise<{ success: boolean; error?: string; otp?: string }> {
-        // Simulate network delay
-        await this.sleep(1000);
-
-        // Validate phone number format
-        if (!/^\+?[\d\s-()]+$/.test(phone.trim())) {
-            return { success: false, error: 'Invalid phone number format' };
-        }
-
-        // Generate random 6-digit OTP for development
-        const generatedOtp = Math.floor(100000 + Math.random() * 900000).toString();
-
-        // Log OTP for development - developers can see this in console
-        console.log(`🔑 DEV OTP: ${generatedOtp} for phone: ${phone}`);
-        console.log(`📝 Developer Note: Use OTP "${generatedOtp}" for testing`);
-
-        // Store OTP in memory for verification (in real app, this would be stored securely)
-        this.globalData.tempOtp = generatedOtp;
-        this.globalData.tempOtpPhone = phone;
-        this.globalData.tempOtpExpiry = Date.now() + 5 * 60 * 1000; // 5 minutes
-
-        // Simulate success (in real app, this would call your OTP service)
-        return { success: true, otp: generatedOtp };
-    }
-
-    private async simulateOtpVerification(phone: string, otp: string): Promise<{ success: boolean; error?: string }> {
-        // Simulate network delay
-        await this.sleep(800);
-
-        // Validate OTP format
-        if (!/^\d{4,6}$/.test(otp.trim())) {
-            return { success: false, error: 'OTP must be 4-6 digits' };
-        }
-
-        // Check against stored OTP (development simulation)
-        const storedOtp = this.globalData.tempOtp;
-        const storedPhone = this.globalData.tempOtpPhone;
-        const expiry = this.globalData.tempOtpExpiry;
-
-        if (!storedOtp || !storedPhone || !expiry) {
-            return { success: false, error: 'No OTP found. Please request a new OTP.' };
-        }
-
-        if (Date.now() > expiry) {
-            return { success: false, error: 'OTP has expired. Please request a new OTP.' };
-        }
-
-        if (phone !== storedPhone) {
-            return { success: false, error: 'Phone number mismatch.' };
-        }
-
-        if (otp.trim() === storedOtp) {
-            // Clear stored OTP after successful verification
-            delete this.globalData.tempOtp;
-            delete this.globalData.tempOtpPhone;
-            delete this.globalData.tempOtpExpiry;
-
-            console.log(`✅ OTP verification successful for phone: ${phone}`);
-            return { success: true };
-        }
-
-        return { success: false, error: 'Invalid OTP code' };
-    }
-
     // Enhanced condition evaluation with comprehensive operators
-    public evaluateCondition(condition: ConditionDefinition): boolean {
+    public evaluateCondition(
+        condition: ConditionDefinition,
+        vars?: Record<string, any>,
+        data: Record<string, any> = this.globalData
+    ): boolean {
         const startTime = Date.now();
 
         try {
-            const { operator, field, value, conditions } = condition;
+            const { operator, expr, field, value, conditions } = condition;
+            if (expr !== undefined) {
+                return !!this.resolveExpression(expr, vars, data);
+            }
 
             switch (operator) {
                 case 'equals':
-                    return this.getFieldValue(field) === value;
+                    return this.getFieldValue(field, vars, data) === value;
                 case 'notEquals':
-                    return this.getFieldValue(field) !== value;
+                    return this.getFieldValue(field, vars, data) !== value;
                 case 'greaterThan':
-                    return this.getFieldValue(field) > value;
+                    return this.getFieldValue(field, vars, data) > value;
                 case 'lessThan':
-                    return this.getFieldValue(field) < value;
+                    return this.getFieldValue(field, vars, data) < value;
                 case 'greaterThanOrEqual':
-                    return this.getFieldValue(field) >= value;
+                    return this.getFieldValue(field, vars, data) >= value;
                 case 'lessThanOrEqual':
-                    return this.getFieldValue(field) <= value;
+                    return this.getFieldValue(field, vars, data) <= value;
                 case 'contains':
-                    const fieldValue = this.getFieldValue(field);
+                    const fieldValue = this.getFieldValue(field, vars, data);
                     return fieldValue && fieldValue.includes && fieldValue.includes(value);
                 case 'startsWith':
-                    const startValue = this.getFieldValue(field);
+                    const startValue = this.getFieldValue(field, vars, data);
                     return startValue && startValue.startsWith && startValue.startsWith(value);
                 case 'endsWith':
-                    const endValue = this.getFieldValue(field);
+                    const endValue = this.getFieldValue(field, vars, data);
                     return endValue && endValue.endsWith && endValue.endsWith(value);
                 case 'exists':
-                    return this.getFieldValue(field) !== undefined && this.getFieldValue(field) !== null;
+                    return this.getFieldValue(field, vars, data) !== undefined && this.getFieldValue(field, vars, data) !== null;
                 case 'empty':
-                    const emptyValue = this.getFieldValue(field);
+                    const emptyValue = this.getFieldValue(field, vars, data);
                     return !emptyValue || (Array.isArray(emptyValue) && emptyValue.length === 0) ||
                         (typeof emptyValue === 'object' && Object.keys(emptyValue).length === 0);
                 case 'regex':
-                    const regexValue = this.getFieldValue(field);
+                    const regexValue = this.getFieldValue(field, vars, data);
                     return regexValue && new RegExp(value).test(regexValue);
                 case 'in':
-                    return Array.isArray(value) && value.includes(this.getFieldValue(field));
+                    return Array.isArray(value) && value.includes(this.getFieldValue(field, vars, data));
                 case 'and':
-                    return conditions?.every(cond => this.evaluateCondition(cond)) || false;
+                    return conditions?.every(cond => this.evaluateCondition(cond, vars, data)) || false;
                 case 'or':
-                    return conditions?.some(cond => this.evaluateCondition(cond)) || false;
+                    return conditions?.some(cond => this.evaluateCondition(cond, vars, data)) || false;
                 case 'not':
-                    return conditions ? !this.evaluateCondition(conditions[0]) : false;
+                    return conditions ? !this.evaluateCondition(conditions[0], vars, data) : false;
                 default:
                     console.warn(`Unknown condition operator: ${operator}`);
                     return true;
@@ -966,32 +1226,127 @@ class EnhancedActionHandler {
                     type: 'condition',
                     duration: Date.now() - startTime,
                     timestamp: startTime,
-                    details: { operator: condition.operator }
+                    details: { operator: condition.operator ?? 'expr' }
                 });
             }
         }
     }
 
     // Utility methods
-    private getFieldValue(fieldPath?: string): any {
+    // Names read from `vars`, list row roots, the screen state and forms of `data`, or `data` itself
+    private getFieldValue(fieldPath?: string, vars?: Record<string, any>, data: Record<string, any> = this.globalData): any {
         if (!fieldPath) return undefined;
 
-        const keys = fieldPath.split('.');
-        let value = this.globalData;
+        const segments = parsePath(fieldPath);
+        if (segments[0] === 'vars') {
+            return getValueAtPath(vars || {}, segments.slice(1));
+        }
+        if (vars && SCOPE_ROOTS.has(segments[0] as string) && segments[0] in vars) {
+            return getValueAtPath(vars, segments);
+        }
+        if (segments[0] === 'state') {
+            return getValueAtPath(this.getScreenState(data), segments.slice(1));
+        }
+        if (segments[0] === 'form') {
+            const screen = getStateKey(data);
+            return this.getState && screen
+                ? getValueAtPath(selectScreenForms(screen)(this.getState()), segments.slice(1))
+                : undefined;
+        }
 
-        for (const key of keys) {
-            if (value && typeof value === 'object' && key in value) {
-                value = value[key];
-            } else {
-                return undefined;
-            }
+        return getValueAtPath(data, segments);
+    }
+
+    // Two-way binding helpers used by components with a `bind` definition
+    public getBoundValue(path: string, data: Record<string, any> = this.globalData): any {
+        return this.getFieldValue(path, undefined, data);
+    }
+
+    public setBoundValue(path: string, value: any, data: Record<string, any> = this.globalData): void {
+        const screen = getStateKey(data);
+        if (!screen) {
+            console.warn(`⚠️ Cannot update bound path ${path} without a screen name`);
+            return;
         }
+        this.dispatch(applyStateOperation({ screen, operation: 'set', path, value }));
+    }
+
+    // Form registration and field validation used by `Form` containers
+    public registerForm(formId: string, fields: FormField[]): void {
+        this.forms.set(formId, fields);
+    }
 
-        return value;
+    public unregisterForm(formId: string): void {
+        this.forms.delete(formId);
+    }
+
+    public validateFormField(
+        formId: string,
+        field: string,
+        value: any,
+        onlyIfInvalid = false,
+        data: Record<string, any> = this.globalData
+    ): void {
+        const screen = getStateKey(data);
+        const rules = this.forms.get(formId)?.find(formField => formField.name === field)?.rules;
+        if (!screen || !rules) return;
+
+        // Outside `change` mode, typing only re-checks fields that are already showing an error
+        if (onlyIfInvalid && this.getFieldValue(`form.${formId}.errors.${field}`, undefined, data) === undefined) return;
+
+        const [error] = validateValue(value, rules, field);
+        this.dispatch(setFieldError({ screen, formId, field, error }));
+    }
+
+    // Live screen state from the store, layered over any static state passed in globalData
+    private getScreenState(data: Record<string, any>): Record<string, any> {
+        const screen = getStateKey(data);
+        if (!this.getState || !screen) {
+            return data.state || {};
+        }
+
+        return { ...data.state, ...selectScreenState(screen)(this.getState()) };
+    }
+
+    // Template value with any formatter pipes applied, e.g. "job.wage * days | currency:'INR'"
+    private evaluateTemplate(template: string, vars?: Record<string, any>, data?: Record<string, any>): any {
+        const { expression, pipes } = parseTemplateExpression(template);
+        let value: any;
+        try {
+            value = this.resolveExpression(expression, vars, data);
+        } catch (error) {
+            console.warn(`⚠️ Invalid template expression "${expression}": ${this.getErrorMessage(error)}`);
+            return undefined;
+        }
+        return pipes.length > 0 ? applyFormatters(value, pipes, this.getLocale()) : value;
+    }
+
+    // Expressions are parsed once per renderer and read names through getFieldValue
+    private resolveExpression(expression: string, vars?: Record<string, any>, data?: Record<string, any>): any {
+        let tree = this.expressions.get(expression);
+        if (!tree) {
+            tree = parseExpression(expression);
+            this.expressions.set(expression, tree);
+        }
+        return evaluateExpression(tree, name => this.getFieldValue(name, vars, data));
+    }
+
+    private getLocale(): string {
+        const state = this.getState?.();
+        if (state?.language) {
+            return selectLocale(state);
+        }
+        return getLocale(this.globalData.language?.current || DEFAULT_LANGUAGE);
     }
 
-    // Public helper to interpolate payload/template strings using the action handler's globalData
-    public interpolatePayload(payload: any): any {
+    // Public helper to interpolate payload/template strings using `data` (the handler's globalData by default)
+    // and, within an action chain, the results stored under `vars`; `t` resolves translation keys
+    public interpolatePayload(
+        payload: any,
+        vars?: Record<string, any>,
+        data?: Record<string, any>,
+        t: (key: string, params?: any) => string = translate
+    ): any {
         if (payload === null || payload === undefined) return payload;
 
         const traverse = (obj: any): any => {
@@ -999,14 +1354,13 @@ class EnhancedActionHandler {
                 // Full-match template like "{{state.auth.phoneNumber}}"
                 const fullMatch = obj.match(/^\s*\{\{\s*([^}]+)\s*\}\}\s*$/);
                 if (fullMatch) {
-                    const path = fullMatch[1].trim();
-                    const v = this.getFieldValue(path);
+                    const v = this.evaluateTemplate(fullMatch[1].trim(), vars, data);
                     return v !== undefined ? v : obj;
                 }
 
                 // Replace inline templates within a larger string
                 return obj.replace(/\{\{\s*([^}]+)\s*\}\}/g, (_m: string, p: string) => {
-                    const v = this.getFieldValue(p.trim());
+                    const v = this.evaluateTemplate(p.trim(), vars, data);
                     return v !== undefined && v !== null ? String(v) : '';
                 });
             }
@@ -1015,6 +1369,12 @@ class EnhancedActionHandler {
                 return obj.map(traverse);
             }
 
+            // Translation key like { "$t": "jobs.count", "params": { "count": "{{state.jobs.length}}" } }
+            if (isTranslationReference(obj)) {
+                const params = obj.params ? traverse(obj.params) : {};
+                return t(obj.$t, obj.default !== undefined ? { ...params, defaultValue: traverse(obj.default) } : params);
+            }
+
             if (typeof obj === 'object' && obj !== null) {
                 const result: Record<string, any> = {};
                 for (const [k, v] of Object.entries(obj)) {
@@ -1029,6 +1389,11 @@ class EnhancedActionHandler {
         return traverse(payload);
     }
 
+    // Interpolate against the vars and screen data an action chain captured when it started
+    private interpolateInContext(payload: any, context?: any): any {
+        return this.interpolatePayload(payload, context?.vars, context?.globalData);
+    }
+
     private getErrorMessage(error: unknown): string {
         if (error instanceof Error) {
             return error.message;
@@ -1081,7 +1446,7 @@ class EnhancedActionHandler {
     }
 
     public updateGlobalData(newGlobalData: Record<string, any>): void {
-        this.globalData = { ...this.globalData, ...newGlobalData };
+        this.globalData = newGlobalData;
     }
 
     public getMetrics(): typeof this.metrics {
@@ -1116,90 +1481,149 @@ const OptimizedDynamicComponent: React.FC<{
     globalData?: Record<string, any>;
     depth?: number;
     maxDepth?: number;
-}> = memo(({ component, actionHandler, globalData = {}, depth = 0, maxDepth = 10 }) => {
-    const { type, props = {}, style = {}, children = [], actions = {}, conditions } = component;
-
-    // Debug logging for input components
-    if (type === 'TextInput') {
-        console.log('🔍 Rendering TextInput component:', {
-            id: component.id,
-            type: type,
-            placeholder: props.placeholder,
-            actions: Object.keys(actions),
-            hasOnChangeText: !!actions.onChangeText
+    // Row values of the enclosing list item template (`item`, `index`, `section`)
+    scope?: Record<string, any>;
+}> = memo(({ component, actionHandler, globalData = {}, depth = 0, maxDepth = 10, scope }) => {
+    const { type, children = [], actions = {}, conditions } = component;
+    const { itemTemplate, keyExtractor, emptyTemplate, separatorTemplate, sectionHeaderTemplate } = component;
+    const { footerLoadingTemplate, footerErrorTemplate } = component;
+
+    // Variants matching the device are merged over the base props and style, again whenever the window changes
+    const device = useContext(DeviceContext);
+    const { props, style } = useMemo(
+        () => applyVariants(component.props, component.style, component.variants, device),
+        [component.props, component.style, component.variants, device]
+    );
+
+    // Subscribe only to the screen state and form paths this component binds to or its props and conditions read
+    const binding = useMemo(() => normalizeBinding(component.bind), [component.bind]);
+    const isList = LIST_COMPONENTS.has(type) && !!itemTemplate;
+    const dataSource = useMemo(
+        () => (isList ? normalizeDataSource(component.dataSource, component.id) : null),
+        [isList, component.dataSource, component.id]
+    );
+    const screenName = getStateKey(globalData);
+    const statePaths = useMemo(() => {
+        const references = collectPathReferences(
+            { props, conditions, api: dataSource?.api, items: dataSource?.items },
+            ['state', 'form']
+        );
+        if (binding) references.add(binding.path);
+        if (dataSource?.path) references.add(dataSource.path);
+        if (dataSource?.statusPath) references.add(dataSource.statusPath);
+        return Array.from(references);
+    }, [props, conditions, binding, dataSource]);
+    const stateValues = useSelector((state: any) => {
+        if (statePaths.length === 0) return statePaths;
+        const roots = {
+            state: screenName ? { ...globalData.state, ...selectScreenState(screenName)(state) } : globalData.state || {},
+            form: screenName ? selectScreenForms(screenName)(state) : {},
+        };
+        return statePaths.map(path => getValueAtPath(roots, path));
+    }, shallowEqual);
+
+    // Props, conditions and list sources render from a snapshot of these values, passed to the
+    // handler as vars; event handlers keep the plain scope so actions read the live store
+    const renderScope = useMemo(() => {
+        const roots = createNextState({ state: {}, form: {} }, draft => {
+            statePaths.forEach((path, index) => {
+                if (stateValues[index] !== undefined) setValueAtPath(draft, path, stateValues[index]);
+            });
         });
-    }
+        return { ...scope, ...roots };
+    }, [scope, statePaths, stateValues]);
+
+    // Theme tokens and style classes
+    const theme = useContext(ThemeContext);
+    const translation = useContext(TranslationContext);
+    // Right-to-left styles are mirrored here until a restart switches the native layout direction
+    const resolvedStyle = useMemo(() => {
+        const themed = resolveStyle(style, component.styleRef, theme);
+        return shouldMirror(device?.direction, I18nManager.isRTL) ? mirrorStyle(themed) : themed;
+    }, [style, component.styleRef, theme, device]);
+
+    // Form containers register their validated fields and provide their id to descendants
+    const parentForm = useContext(FormContext);
+    const isForm = type === 'Form';
+    const formContext = useMemo(() => {
+        if (!isForm || !component.id) return parentForm;
+        return { formId: component.id, validateOn: (props.validateOn || 'submit') as FormValidationTrigger };
+    }, [isForm, component.id, props.validateOn, parentForm]);
+    const formFieldName = !isForm && parentForm && binding && component.validation ? getFormFieldName(component) : null;
+
+    useEffect(() => {
+        if (!isForm) return;
+        if (!component.id) {
+            console.warn('⚠️ Form components need an id to be submitted');
+            return;
+        }
+
+        const formId = component.id;
+        actionHandler.registerForm(formId, collectFormFields(children));
+        return () => actionHandler.unregisterForm(formId);
+    }, [isForm, component.id, children, actionHandler]);
+
+    // API data sources load their first page into screen state, and start over when the interpolated request changes
+    const apiRequest = useMemo(
+        () => (dataSource?.api ? JSON.stringify(actionHandler.interpolatePayload(dataSource.api, renderScope, globalData)) : null),
+        [dataSource, actionHandler, renderScope, globalData]
+    );
+    const listSource = useMemo(
+        () => (dataSource && apiRequest ? { ...dataSource, api: JSON.parse(apiRequest) } : dataSource),
+        [dataSource, apiRequest]
+    );
+
+    // The first page loads into the screen of the latest globalData, without reloading each time it changes
+    const globalDataRef = useRef(globalData);
+    useEffect(() => {
+        globalDataRef.current = globalData;
+    }, [globalData]);
+
+    useEffect(() => {
+        if (!listSource?.api) return;
+
+        const listId = component.id;
+        if (listId) actionHandler.registerList(listId, listSource);
+        actionHandler.loadListPage(listSource, 'initial', globalDataRef.current);
+        return () => {
+            if (listId) actionHandler.unregisterList(listId);
+        };
+    }, [listSource, actionHandler, component.id]);
 
     // Memoized condition evaluation - moved before any early returns
     const shouldRender = useMemo(() => {
         // Check visibility conditions
-        if (conditions?.hide && actionHandler.evaluateCondition(conditions.hide)) {
+        if (conditions?.hide && actionHandler.evaluateCondition(conditions.hide, renderScope, globalData)) {
             return false;
         }
-        if (conditions?.show && !actionHandler.evaluateCondition(conditions.show)) {
+        if (conditions?.show && !actionHandler.evaluateCondition(conditions.show, renderScope, globalData)) {
             return false;
         }
         return true;
-    }, [conditions, actionHandler]);
+    }, [conditions, actionHandler, renderScope, globalData]);
 
     // Memoized action processing - fixed useCallback usage
     const processedProps = useMemo(() => {
         // First interpolate template strings in props
         let interpolatedProps = { ...props };
         try {
-            interpolatedProps = actionHandler.interpolatePayload(interpolatedProps);
+            interpolatedProps = actionHandler.interpolatePayload(interpolatedProps, renderScope, globalData, translation ?? undefined);
         } catch (error) {
             console.warn('Failed to interpolate component props:', error);
             interpolatedProps = { ...props };
         }
 
+        // Color props such as placeholderTextColor may reference theme tokens too
+        if (theme) {
+            interpolatedProps = resolveTokenReferences(interpolatedProps, theme.tokens);
+        }
+
         const newProps = { ...interpolatedProps };
 
         // Process actions to create event handlers
         Object.entries(actions).forEach(([eventName, action]) => {
-            if (eventName === 'onChangeText') {
-                console.log('📝 Setting up onChangeText handler for component:', component.id);
-                newProps[eventName] = (value?: any) => {
-                    console.log('📝 onChangeText triggered:', {
-                        componentId: component.id,
-                        value: value,
-                        placeholder: interpolatedProps.placeholder
-                    });
-
-                    // Handle text input changes for auth fields
-                    if (component.id) {
-                        if (component.id.includes('phone') || component.id.includes('Phone') ||
-                            interpolatedProps.placeholder?.toLowerCase().includes('phone') ||
-                            interpolatedProps.placeholder?.toLowerCase().includes('mobile')) {
-                            console.log('📱 Executing updatePhoneNumber action');
-                            actionHandler.executeAction({
-                                type: 'updatePhoneNumber',
-                                payload: { phoneNumber: value }
-                            }, { componentId: component.id, depth });
-                        } else if (component.id.includes('otp') || component.id.includes('OTP') ||
-                            component.id.includes('Otp') ||
-                            interpolatedProps.placeholder?.toLowerCase().includes('otp') ||
-                            interpolatedProps.placeholder?.toLowerCase().includes('code')) {
-                            console.log('🔐 Executing updateOtpCode action');
-                            actionHandler.executeAction({
-                                type: 'updateOtpCode',
-                                payload: { otpCode: value }
-                            }, { componentId: component.id, depth });
-                        }
-                    }
-
-                    // Also execute the original action if it exists
-                    actionHandler.executeAction(action, { componentId: component.id, depth, inputValue: value });
-                };
-            } else if (eventName === 'onValueChange') {
-                console.log('🔽 Setting up onValueChange handler for Picker component:', component.id);
+            if (eventName === 'onValueChange') {
                 newProps[eventName] = (value?: any, index?: number) => {
-                    console.log('🔽 onValueChange triggered:', {
-                        componentId: component.id,
-                        value: value,
-                        index: index
-                    });
-
                     // Create an interpolated action with the actual selected value
                     const interpolatedAction = {
                         ...action,
@@ -1210,90 +1634,147 @@ const OptimizedDynamicComponent: React.FC<{
                     };
 
                     // Execute the action with the selected value
-                    actionHandler.executeAction(interpolatedAction, { componentId: component.id, depth, selectedValue: value, selectedIndex: index });
+                    actionHandler.executeAction(interpolatedAction, { componentId: component.id, depth, formId: formContext?.formId, selectedValue: value, selectedIndex: index, vars: { ...scope }, globalData });
                 };
             } else {
                 newProps[eventName] = (value?: any) => {
-                    actionHandler.executeAction(action, { componentId: component.id, depth, inputValue: value });
+                    actionHandler.executeAction(action, { componentId: component.id, depth, formId: formContext?.formId, inputValue: value, vars: { ...scope }, globalData });
                 };
             }
-        });        // If no onChangeText action is defined but this is a TextInput, create one
-        if (type === 'TextInput' && !actions.onChangeText) {
-            console.log('🔍 Creating onChangeText handler for TextInput:', {
-                componentId: component.id,
-                placeholder: interpolatedProps.placeholder,
-                type: type
-            });
+        });
 
-            newProps.onChangeText = (value?: any) => {
-                console.log('📝 TextInput onChange triggered:', {
-                    componentId: component.id,
-                    value: value,
-                    placeholder: interpolatedProps.placeholder
-                });
+        // Wire bound components to the screen state store in both directions
+        if (binding) {
+            const boundValue = getValueAtPath(renderScope, binding.path);
+            const bindEvent = (eventName: string) => {
+                const configuredHandler = newProps[eventName];
+                newProps[eventName] = (value?: any, ...rest: any[]) => {
+                    const nextValue = applyInputTransforms(value, binding);
+                    actionHandler.setBoundValue(binding.path, nextValue, globalData);
+                    if (formContext && formFieldName) {
+                        actionHandler.validateFormField(
+                            formContext.formId,
+                            formFieldName,
+                            nextValue,
+                            formContext.validateOn !== 'change',
+                            globalData
+                        );
+                    }
+                    configuredHandler?.(nextValue, ...rest);
+                };
+            };
 
-                // Check for phone input based on ID or placeholder
-                const isPhoneInput = component.id && (
-                    component.id.toLowerCase().includes('phone') ||
-                    component.id.toLowerCase().includes('mobile') ||
-                    component.id.toLowerCase().includes('number')
-                ) || interpolatedProps.placeholder && (
-                    interpolatedProps.placeholder.toLowerCase().includes('phone') ||
-                    interpolatedProps.placeholder.toLowerCase().includes('mobile') ||
-                    interpolatedProps.placeholder.toLowerCase().includes('number')
-                );
+            // Validate bound form fields when they lose focus
+            if (formContext?.validateOn === 'blur' && formFieldName) {
+                const configuredOnBlur = newProps.onBlur;
+                newProps.onBlur = (...args: any[]) => {
+                    actionHandler.validateFormField(
+                        formContext.formId,
+                        formFieldName,
+                        actionHandler.getBoundValue(binding.path, globalData),
+                        false,
+                        globalData
+                    );
+                    configuredOnBlur?.(...args);
+                };
+            }
 
-                // Check for OTP input based on ID or placeholder  
-                const isOtpInput = component.id && (
-                    component.id.toLowerCase().includes('otp') ||
-                    component.id.toLowerCase().includes('code') ||
-                    component.id.toLowerCase().includes('verify')
-                ) || interpolatedProps.placeholder && (
-                    interpolatedProps.placeholder.toLowerCase().includes('otp') ||
-                    interpolatedProps.placeholder.toLowerCase().includes('code') ||
-                    interpolatedProps.placeholder.toLowerCase().includes('verify')
-                );
+            switch (type) {
+                case 'TextInput':
+                    newProps.value = boundValue === undefined || boundValue === null ? '' : String(boundValue);
+                    if (binding.maxLength !== undefined && newProps.maxLength === undefined) {
+                        newProps.maxLength = binding.maxLength;
+                    }
+                    bindEvent('onChangeText');
+                    break;
+                case 'Switch':
+                    newProps.value = Boolean(boundValue);
+                    bindEvent('onValueChange');
+                    break;
+                case 'Picker':
+                    newProps.selectedValue = boundValue;
+                    bindEvent('onValueChange');
+                    break;
+                default:
+                    console.warn(`⚠️ bind is not supported on ${type} components`);
+            }
+        }
 
-                if (isPhoneInput) {
-                    console.log('📱 Detected phone input, updating phone number');
-                    actionHandler.executeAction({
-                        type: 'updatePhoneNumber',
-                        payload: { phoneNumber: value }
-                    }, { componentId: component.id, depth });
-                } else if (isOtpInput) {
-                    console.log('🔐 Detected OTP input, updating OTP code');
-                    actionHandler.executeAction({
-                        type: 'updateOtpCode',
-                        payload: { otpCode: value }
-                    }, { componentId: component.id, depth });
-                } else {
-                    // If we can't determine the input type, let's try to infer from context
-                    console.log('❓ Unknown input type, checking context or assuming based on screen');
-
-                    // If we're on Auth screen and no phone is set, assume it's phone
-                    // If we're on OTPVerification screen, assume it's OTP
-                    if (globalData?.screen?.name === 'Auth' || globalData?.app?.currentScreen === 'Auth') {
-                        console.log('📱 Auth screen detected, treating as phone input');
-                        actionHandler.executeAction({
-                            type: 'updatePhoneNumber',
-                            payload: { phoneNumber: value }
-                        }, { componentId: component.id, depth });
-                    } else if (globalData?.screen?.name === 'OTPVerification' || globalData?.app?.currentScreen === 'OTPVerification') {
-                        console.log('🔐 OTP screen detected, treating as OTP input');
-                        actionHandler.executeAction({
-                            type: 'updateOtpCode',
-                            payload: { otpCode: value }
-                        }, { componentId: component.id, depth });
+        // Feed list rows from the data source and render each one through the templates
+        if (isList) {
+            const renderTemplate = (template: ComponentDefinition | undefined, rowScope: Record<string, any>) => (
+                template ? (
+                    <OptimizedDynamicComponent
+                        component={template}
+                        actionHandler={actionHandler}
+                        globalData={globalData}
+                        depth={depth + 1}
+                        maxDepth={maxDepth}
+                        scope={{ ...scope, ...rowScope }}
+                    />
+                ) : null
+            );
+            const rows = dataSource?.items !== undefined
+                ? (typeof dataSource.items === 'string' ? actionHandler.interpolatePayload(dataSource.items, renderScope, globalData) : dataSource.items)
+                : (dataSource?.path ? getValueAtPath(renderScope, dataSource.path) : undefined);
+            const items = Array.isArray(rows) ? rows : [];
+
+            newProps[type === 'SectionList' ? 'sections' : 'data'] = items;
+            newProps.renderItem = ({ item, index, section }: any) =>
+                renderTemplate(itemTemplate, section ? { item, index, section } : { item, index });
+            newProps.keyExtractor = (item: any, index: number) => getItemKey(item, index, keyExtractor);
+            if (emptyTemplate) {
+                newProps.ListEmptyComponent = renderTemplate(emptyTemplate, {});
+            }
+            if (separatorTemplate) {
+                newProps.ItemSeparatorComponent = () => renderTemplate(separatorTemplate, {});
+            }
+            if (sectionHeaderTemplate && type === 'SectionList') {
+                newProps.renderSectionHeader = ({ section }: any) => renderTemplate(sectionHeaderTemplate, { section });
+            }
+
+            // Paginated sources load more near the end and reset to the first page on pull-to-refresh
+            if (listSource?.api && listSource.pagination) {
+                const status: Partial<ListStatus> =
+                    (listSource.statusPath && getValueAtPath(renderScope, listSource.statusPath)) || {};
+                const configuredOnEndReached = newProps.onEndReached;
+
+                newProps.onEndReached = (...args: any[]) => {
+                    // A failed page waits for an explicit `loadMore` retry instead of reloading on every scroll
+                    if (status.hasMore && !status.error) {
+                        actionHandler.loadListPage(listSource, 'more', globalData);
                     }
+                    configuredOnEndReached?.(...args);
+                };
+                newProps.onEndReachedThreshold = listSource.pagination.threshold ?? 0.5;
+                newProps.refreshControl = (
+                    <RefreshControl
+                        refreshing={Boolean(status.refreshing)}
+                        onRefresh={() => actionHandler.loadListPage(listSource, 'refresh', globalData)}
+                    />
+                );
+
+                const footerTemplate = status.loadingMore
+                    ? footerLoadingTemplate
+                    : status.error && items.length > 0 ? footerErrorTemplate : undefined;
+                if (footerTemplate) {
+                    newProps.ListFooterComponent = renderTemplate(footerTemplate, {});
                 }
-            };
-        }        // Handle special props for specific components
+            }
+        }
+
+        // Handle special props for specific components
         if (type === 'Text' && newProps.text) {
             // For Text components, text should be children, not a prop
             // Remove the text prop and let it be handled as children
             delete newProps.text;
         }
 
+        // Form-only props are consumed by the renderer
+        if (type === 'Form') {
+            delete newProps.validateOn;
+        }
+
         // Handle special props for Icon components
         if (type === 'Icon') {
             // Map backend icon props to IconComponent props
@@ -1305,6 +1786,7 @@ const OptimizedDynamicComponent: React.FC<{
                 newProps.color = newProps.iconColor;
                 delete newProps.iconColor;
             }
+            newProps.rtl = device?.direction === 'rtl';
         }
 
         // Handle special props for Picker components
@@ -1329,19 +1811,18 @@ const OptimizedDynamicComponent: React.FC<{
         }
 
         return newProps;
-    }, [props, actions, actionHandler, type, component.id, depth, globalData?.app?.currentScreen, globalData?.screen?.name]);
+    }, [
+        props, actions, actionHandler, type, component.id, depth, binding, formContext, formFieldName, scope, renderScope,
+        isList, dataSource, listSource, itemTemplate, keyExtractor, emptyTemplate, separatorTemplate, sectionHeaderTemplate,
+        footerLoadingTemplate, footerErrorTemplate, globalData, maxDepth, theme, device, translation,
+    ]);
 
     // Memoized children rendering
     const renderedChildren = useMemo(() => {
         // Handle text content for Text components
         if (type === 'Text' && props.text) {
-            // Interpolate template strings in text content
-            let textContent = props.text;
-            if (typeof textContent === 'string') {
-                // Use action handler to interpolate templates
-                textContent = actionHandler.interpolatePayload(textContent);
-            }
-            return textContent;
+            // Interpolate template strings and translation keys in text content
+            return actionHandler.interpolatePayload(props.text, renderScope, globalData, translation ?? undefined);
         }
 
         if (children.length === 0) return null;
@@ -1354,9 +1835,10 @@ const OptimizedDynamicComponent: React.FC<{
                 globalData={globalData}
                 depth={depth + 1}
                 maxDepth={maxDepth}
+                scope={scope}
             />
         ));
-    }, [children, actionHandler, globalData, depth, maxDepth, type, props.text]);
+    }, [children, actionHandler, globalData, depth, maxDepth, type, props.text, scope, renderScope, translation]);
 
     // Prevent infinite recursion - moved after hooks
     if (depth > maxDepth) {
@@ -1378,11 +1860,12 @@ const OptimizedDynamicComponent: React.FC<{
     // Combine props and children
     const finalProps = {
         ...processedProps,
-        style,
+        style: resolvedStyle,
         children: renderedChildren,
     };
 
-    return React.createElement(ReactComponent as any, finalProps);
+    const element = React.createElement(ReactComponent as any, finalProps);
+    return isForm ? <FormContext.Provider value={formContext}>{element}</FormContext.Provider> : element;
 });
 
 /**
@@ -1395,49 +1878,43 @@ const ProductionDynamicRenderer: React.FC<DynamicRendererProps> = ({
     maxDepth = 10,
     onError,
     onPerformanceMetric,
+    theme = null,
 }) => {
     const dispatch = useDispatch();
     const navigation = useNavigation();
+    const store = useStore();
+    const { width, height, fontScale } = useWindowDimensions();
+    const isRTL = useSelector(selectIsRTL);
+    const device = useMemo(
+        () => getDeviceEnvironment(Platform.OS, { width, height, fontScale }, isRTL ? 'rtl' : 'ltr'),
+        [width, height, fontScale, isRTL]
+    );
+    const { t } = useTranslation(undefined, { i18n });
 
-    // Memoized action handler creation
-    const actionHandler = useMemo(() => {
-        return new EnhancedActionHandler(dispatch, navigation, globalData, onPerformanceMetric);
-    }, [dispatch, navigation, globalData, onPerformanceMetric]);
+    // Props that change on navigation, auth or language are not handler dependencies, so the handler - and
+    // the list-load bookkeeping it holds - lives as long as the screen. Components pass their globalData
+    // with each read and action; the handler's own copy is only the default for callers without one
+    const initialGlobalData = useRef(globalData);
+    const onPerformanceMetricRef = useRef(onPerformanceMetric);
+    onPerformanceMetricRef.current = onPerformanceMetric;
 
-    // Update actionHandler's globalData when it changes
-    useMemo(() => {
+    const actionHandler = useMemo(() => {
+        return new EnhancedActionHandler(
+            dispatch,
+            navigation,
+            initialGlobalData.current,
+            metric => onPerformanceMetricRef.current?.(metric),
+            store.getState
+        );
+    }, [dispatch, navigation, store]);
+
+    useEffect(() => {
         actionHandler.updateGlobalData(globalData);
-        return actionHandler;
     }, [actionHandler, globalData]);
 
-    // Override executeAction if custom handler provided
+    // Hand action types the renderer does not implement to the app-level handler
     const enhancedActionHandler = useMemo(() => {
-        if (onAction) {
-            const originalExecute = actionHandler.executeAction.bind(actionHandler);
-
-            // Override to call app-level handler with interpolated payloads first
-            actionHandler.executeAction = async (action: ActionDefinition, context?: any) => {
-                try {
-                    // Interpolate payload/template values using the action handler's globalData
-                    let interpolatedAction = action;
-                    try {
-                        const interpolatedPayload = (actionHandler as any).interpolatePayload
-                            ? (actionHandler as any).interpolatePayload(action.payload)
-                            : action.payload;
-                        interpolatedAction = { ...action, payload: interpolatedPayload };
-                    } catch (interpErr) {
-                        console.warn('Failed to interpolate action payload, sending original payload', interpErr);
-                    }
-
-                    // Call the app-provided handler with interpolated action
-                    await onAction(interpolatedAction, context);
-                } catch (error) {
-                    console.warn('Custom action handler failed, falling back to default', error);
-                    // Fallback to original executor with original action
-                    await originalExecute(action, context);
-                }
-            };
-        }
+        actionHandler.setAppActionHandler(onAction);
         return actionHandler;
     }, [actionHandler, onAction]);
 
@@ -1456,7 +1933,13 @@ const ProductionDynamicRenderer: React.FC<DynamicRendererProps> = ({
 
     return (
         <ProductionErrorBoundary onError={onError}>
-            {renderedComponents}
+            <ThemeContext.Provider value={theme}>
+                <DeviceContext.Provider value={device}>
+                    <TranslationContext.Provider value={t}>
+                        {renderedComponents}
+                    </TranslationContext.Provider>
+                </DeviceContext.Provider>
+            </ThemeContext.Provider>
         </ProductionErrorBoundary>
     );
 };
@@ -17,8 +17,42 @@ export interface IconComponentProps {
     color?: string; // Standard react-native-vector-icons prop
     style?: any;
     onPress?: () => void;
+    // Set by the renderer for right-to-left languages
+    rtl?: boolean;
+    // Whether the icon points in the reading direction; known directional icons are detected by name
+    directional?: boolean;
 }
 
+// MaterialIcons that point in the reading direction and flip for right-to-left languages
+export const DIRECTIONAL_ICONS = new Set([
+    'arrow-back',
+    'arrow-back-ios',
+    'arrow-forward',
+    'arrow-forward-ios',
+    'arrow-left',
+    'arrow-right',
+    'arrow-right-alt',
+    'chevron-left',
+    'chevron-right',
+    'east',
+    'west',
+    'first-page',
+    'last-page',
+    'forward',
+    'keyboard-arrow-left',
+    'keyboard-arrow-right',
+    'keyboard-backspace',
+    'login',
+    'logout',
+    'exit-to-app',
+    'navigate-before',
+    'navigate-next',
+    'redo',
+    'reply',
+    'send',
+    'undo',
+]);
+
 /**
  * Dynamic Icon Component
  * For now, uses only MaterialIcons to avoid import issues
@@ -33,6 +67,8 @@ export const IconComponent: React.FC<IconComponentProps> = ({
     color,
     style,
     onPress,
+    rtl = false,
+    directional,
 }) => {
     // For now, we'll use MaterialIcons for all icons to avoid import issues
     // This can be extended later with proper dynamic imports
@@ -42,6 +78,10 @@ export const IconComponent: React.FC<IconComponentProps> = ({
     const finalSize = size || iconSize || 24;
     // Use color or iconColor (color takes precedence as it's the standard prop)
     const finalColor = color || iconColor || '#000000';
+    // Directional icons are mirrored for right-to-left languages
+    const iconStyle = rtl && (directional ?? DIRECTIONAL_ICONS.has(name))
+        ? [styles.icon, style, styles.mirrored]
+        : [styles.icon, style];
 
     if (!name) {
         console.warn(`Icon name is required. Using default icon.`);
@@ -62,7 +102,7 @@ export const IconComponent: React.FC<IconComponentProps> = ({
                 name={name}
                 size={finalSize}
                 color={finalColor}
-                style={[styles.icon, style]}
+                style={iconStyle}
                 onPress={onPress}
             />
         );
@@ -85,6 +125,9 @@ const styles = StyleSheet.create({
     icon: {
         // Base icon styles can be added here
     },
+    mirrored: {
+        transform: [{ scaleX: -1 }],
+    },
 });
 
 export default IconComponent;
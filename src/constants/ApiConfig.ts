@@ -0,0 +1,12 @@
+/**
+ * API Configuration
+ * Base URLs for the Labor2Hire backend HTTP APIs
+ * @author Labor2Hire Team
+ */
+
+// Same host as the configuration server, can be changed to production URL
+export const API_BASE_URL = 'http://192.168.0.105:5001';
+
+export const AUTH_API_URL = `${API_BASE_URL}/api/auth`;
+
+export const API_TIMEOUT_MS = 10000;
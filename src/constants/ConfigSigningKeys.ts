@@ -0,0 +1,22 @@
+/**
+ * Config Signing Key Constants
+ * Public keys pinned in the app binary and trusted to sign screen configurations
+ * @author Labor2Hire Team
+ */
+
+import { ConfigSigningKey } from '../services/ConfigSignature';
+
+/**
+ * Base64 Ed25519 public keys published by the configuration server
+ * To rotate keys, add the new key here and release the app before the server
+ * starts signing with it; set `expiresAt` on the old key to retire it
+ */
+export const CONFIG_SIGNING_KEYS: ConfigSigningKey[] = [];
+
+/**
+ * Lets development builds talk to a local config server that does not sign while no keys are pinned
+ * Release builds ignore this and refuse to connect until CONFIG_SIGNING_KEYS is filled
+ */
+export const ALLOW_UNSIGNED_CONFIGS_IN_DEV = true;
+
+export default CONFIG_SIGNING_KEYS;
@@ -0,0 +1,153 @@
+/**
+ * Auth Redux Slice
+ * OTP login state: the phone being verified and the verification status
+ * All OTP actions from screen configs route through the thunks below
+ * Issued tokens are kept by the persisted session slice
+ * @author Labor2Hire Team
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { AppThunk } from '../../store';
+import { AuthTokens, getAuthProvider, OtpRequestResult } from '../../services/auth';
+
+export type AuthStatus = 'idle' | 'requestingOtp' | 'otpSent' | 'verifying' | 'verified' | 'failed';
+
+// Define types for the auth state
+export interface AuthState {
+  phone: string | null;
+  status: AuthStatus;
+  error: string | null;
+  otpExpiresAt: number | null;
+  resendAvailableAt: number | null;
+}
+
+// Define the initial state
+const initialState: AuthState = {
+  phone: null,
+  status: 'idle',
+  error: null,
+  otpExpiresAt: null,
+  resendAvailableAt: null,
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Create the Redux slice
+const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    // OTP request or resend started for a phone number
+    otpRequestStarted: (state, action: PayloadAction<string>) => {
+      state.phone = action.payload;
+      state.status = 'requestingOtp';
+      state.error = null;
+    },
+
+    // OTP was sent
+    otpRequestSucceeded: (state, action: PayloadAction<OtpRequestResult>) => {
+      state.status = 'otpSent';
+      state.otpExpiresAt = action.payload.expiresAt;
+      state.resendAvailableAt = action.payload.resendAvailableAt;
+    },
+
+    // OTP verification started
+    verificationStarted: (state) => {
+      state.status = 'verifying';
+      state.error = null;
+    },
+
+    // OTP verified and tokens issued (stored by the session slice)
+    verificationSucceeded: (state, _action: PayloadAction<AuthTokens>) => {
+      state.status = 'verified';
+      state.otpExpiresAt = null;
+      state.resendAvailableAt = null;
+    },
+
+    // Any OTP step failed
+    authFailed: (state, action: PayloadAction<string>) => {
+      state.status = 'failed';
+      state.error = action.payload;
+    },
+
+    // Reset to the signed-out state
+    clearAuth: () => initialState,
+  },
+});
+
+// Export actions
+export const {
+  otpRequestStarted,
+  otpRequestSucceeded,
+  verificationStarted,
+  verificationSucceeded,
+  authFailed,
+  clearAuth,
+} = authSlice.actions;
+
+// Thunk to send an OTP to a phone number
+export const requestOtp =
+  (phone: string): AppThunk<Promise<OtpRequestResult>> =>
+  async (dispatch) => {
+    dispatch(otpRequestStarted(phone));
+    try {
+      const result = await getAuthProvider().requestOtp(phone);
+      dispatch(otpRequestSucceeded(result));
+      return result;
+    } catch (error) {
+      dispatch(authFailed(getErrorMessage(error)));
+      throw error;
+    }
+  };
+
+// Thunk to resend the OTP, defaulting to the phone from the last request
+export const resendOtp =
+  (phone?: string): AppThunk<Promise<OtpRequestResult>> =>
+  async (dispatch, getState) => {
+    const targetPhone = phone || getState().auth.phone;
+    if (!targetPhone) {
+      throw new Error('Phone number is required for OTP resend');
+    }
+
+    dispatch(otpRequestStarted(targetPhone));
+    try {
+      const result = await getAuthProvider().resendOtp(targetPhone);
+      dispatch(otpRequestSucceeded(result));
+      return result;
+    } catch (error) {
+      dispatch(authFailed(getErrorMessage(error)));
+      throw error;
+    }
+  };
+
+// Thunk to verify an OTP, defaulting to the phone from the last request
+export const verifyOtp =
+  (otp: string, phone?: string): AppThunk<Promise<AuthTokens>> =>
+  async (dispatch, getState) => {
+    const targetPhone = phone || getState().auth.phone;
+    if (!targetPhone) {
+      throw new Error('Phone number is required for OTP verification');
+    }
+
+    dispatch(verificationStarted());
+    try {
+      const tokens = await getAuthProvider().verifyOtp(targetPhone, otp);
+      dispatch(verificationSucceeded(tokens));
+      return tokens;
+    } catch (error) {
+      dispatch(authFailed(getErrorMessage(error)));
+      throw error;
+    }
+  };
+
+// Selectors
+export const selectAuth = (state: { auth: AuthState }) => state.auth;
+
+export const selectAuthPhone = (state: { auth: AuthState }) => state.auth.phone;
+
+export const selectAuthStatus = (state: { auth: AuthState }) => state.auth.status;
+
+export const selectAuthError = (state: { auth: AuthState }) => state.auth.error;
+
+export default authSlice.reducer;
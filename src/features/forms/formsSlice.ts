@@ -0,0 +1,93 @@
+/**
+ * Forms Redux Slice
+ * Per-screen validation state for `Form` containers in screen configs
+ * Exposed to templates and conditions as `form.<formId>.errors.<field>`
+ * @author Labor2Hire Team
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export interface FormState {
+  errors: Record<string, string>;
+  valid: boolean;
+  submitted: boolean;
+}
+
+// Define types for the forms state
+export interface FormsState {
+  screens: Record<string, Record<string, FormState>>;
+}
+
+// Define the initial state
+const initialState: FormsState = {
+  screens: {},
+};
+
+const EMPTY_SCREEN_FORMS: Record<string, FormState> = {};
+
+const getOrCreateForm = (state: FormsState, screen: string, formId: string): FormState => {
+  if (!state.screens[screen]) {
+    state.screens[screen] = {};
+  }
+  if (!state.screens[screen][formId]) {
+    state.screens[screen][formId] = { errors: {}, valid: true, submitted: false };
+  }
+  return state.screens[screen][formId];
+};
+
+// Create the Redux slice
+const formsSlice = createSlice({
+  name: 'forms',
+  initialState,
+  reducers: {
+    // Set or clear the error for a single field
+    setFieldError: (
+      state,
+      action: PayloadAction<{ screen: string; formId: string; field: string; error?: string | null }>
+    ) => {
+      const { screen, formId, field, error } = action.payload;
+      const form = getOrCreateForm(state, screen, formId);
+      if (error) {
+        form.errors[field] = error;
+      } else {
+        delete form.errors[field];
+      }
+      form.valid = Object.keys(form.errors).length === 0;
+    },
+
+    // Replace all errors for a form, e.g. after validating on submit
+    setFormErrors: (
+      state,
+      action: PayloadAction<{ screen: string; formId: string; errors: Record<string, string>; submitted?: boolean }>
+    ) => {
+      const { screen, formId, errors, submitted } = action.payload;
+      const form = getOrCreateForm(state, screen, formId);
+      form.errors = errors;
+      form.valid = Object.keys(errors).length === 0;
+      if (submitted !== undefined) {
+        form.submitted = submitted;
+      }
+    },
+
+    // Clear errors and the submitted flag for a form, dropping the screen's entry with its last form
+    resetForm: (state, action: PayloadAction<{ screen: string; formId: string }>) => {
+      const { screen, formId } = action.payload;
+      if (state.screens[screen]) {
+        delete state.screens[screen][formId];
+        if (Object.keys(state.screens[screen]).length === 0) {
+          delete state.screens[screen];
+        }
+      }
+    },
+  },
+});
+
+// Export actions
+export const { setFieldError, setFormErrors, resetForm } = formsSlice.actions;
+
+// Selectors
+export const selectScreenForms = (screen: string) =>
+  (state: { forms: FormsState }) =>
+    state.forms?.screens[screen] || EMPTY_SCREEN_FORMS;
+
+export default formsSlice.reducer;
@@ -10,7 +10,7 @@ import React, { useEffect } from 'react';
 import { Alert } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
-import { changeLanguage, setAvailableLanguages } from './languageSlice';
+import { changeLanguage, selectAvailableLanguages, selectCurrentLanguage, selectIsRTL } from './languageSlice';
 import { requestScreenConfig, selectScreenConfig, selectConfigLoading } from '../remoteConfig/remoteConfigSlice';
 import { AppDispatch } from '../../store';
 import DynamicRenderer, { ComponentDefinition, ActionDefinition } from '../../components/common/DynamicRenderer';
@@ -29,6 +29,7 @@ interface DynamicScreenConfig {
         lastUpdated: string;
     };
     globalStyles: Record<string, any>;
+    initialState?: Record<string, any>;
     components: ComponentDefinition[];
     loadingState: ComponentDefinition;
     errorState?: ComponentDefinition;
@@ -43,6 +44,9 @@ const LanguageSelectionScreen: React.FC = () => {
     const navigation = useNavigation();
     const config = useSelector(selectScreenConfig(SCREEN_NAME)) as DynamicScreenConfig;
     const loading = useSelector(selectConfigLoading);
+    const currentLanguage = useSelector(selectCurrentLanguage);
+    const availableLanguages = useSelector(selectAvailableLanguages);
+    const isRTL = useSelector(selectIsRTL);
 
     // Request screen configuration on mount
     useEffect(() => {
@@ -57,16 +61,8 @@ const LanguageSelectionScreen: React.FC = () => {
             case 'selectLanguage':
                 const { languageCode, navigateTo } = payload || {};
                 if (languageCode) {
-                    // Update Redux state
-                    dispatch(changeLanguage(languageCode));
-
-                    // Extract and set available languages if present in config
-                    if (config?.components) {
-                        const languages = extractLanguageOptions(config.components);
-                        if (languages.length > 0) {
-                            dispatch(setAvailableLanguages(languages));
-                        }
-                    }
+                    // Update Redux state once the language's translations are available
+                    await dispatch(changeLanguage(languageCode));
 
                     // Navigate to next screen
                     if (navigateTo) {
@@ -94,31 +90,6 @@ const LanguageSelectionScreen: React.FC = () => {
         }
     };
 
-    // Helper function to extract language options from component tree
-    const extractLanguageOptions = (components: ComponentDefinition[]): Array<{ code: string, name: string }> => {
-        const languages: Array<{ code: string, name: string }> = [];
-
-        const findLanguageButtons = (comps: ComponentDefinition[]) => {
-            comps.forEach(comp => {
-                if (comp.type === 'TouchableOpacity' && comp.actions?.onPress?.type === 'selectLanguage') {
-                    const languageCode = comp.actions.onPress.payload?.languageCode;
-                    const languageName = comp.children?.find(child => child.type === 'Text')?.props?.text;
-
-                    if (languageCode && languageName) {
-                        languages.push({ code: languageCode, name: languageName });
-                    }
-                }
-
-                if (comp.children) {
-                    findLanguageButtons(comp.children);
-                }
-            });
-        };
-
-        findLanguageButtons(components);
-        return languages;
-    };
-
     // Show loading state using dynamic component tree
     if (loading || !config) {
         // Default loading component tree if config is not available
@@ -244,6 +215,8 @@ const LanguageSelectionScreen: React.FC = () => {
                 globalData={{
                     screen: config.metadata,
                     user: { isLoggedIn: false }, // Example global data
+                    // Language buttons render from the declared languages, e.g. a FlatList over "{{language.available}}"
+                    language: { current: currentLanguage, available: availableLanguages, isRTL },
                 }}
                 onAction={handleCustomAction}
             />
@@ -7,13 +7,28 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { AppThunk } from '../../store';
 import { configClient } from '../../services/ConfigClient';
+import { DEFAULT_LANGUAGE, getLocale, setTranslationLanguage } from '../../services/i18n';
+
+// A language declared in the App config's `languages` catalogue
+export interface LanguageOption {
+  code: string;
+  // Name in the language's own script, e.g. 'हिन्दी'
+  name: string;
+  direction?: 'ltr' | 'rtl';
+  // Font for the language's script, exposed to configs as the `$fonts.language` theme token
+  fontFamily?: string;
+  // Languages that are not ready yet are left out of the language choice
+  ready?: boolean;
+}
 
 // Define types for the language state
 export interface LanguageState {
   currentLanguage: string;
-  availableLanguages: { code: string; name: string }[];
+  availableLanguages: LanguageOption[];
   isRTL: boolean;
   initialized: boolean;
+  // True once the user has picked a language (now or in a previous session)
+  isSelected: boolean;
 }
 
 // Define the initial state
@@ -25,6 +40,7 @@ const initialState: LanguageState = {
   ],
   isRTL: false,
   initialized: false,
+  isSelected: false,
 };
 
 // Create the Redux slice
@@ -35,17 +51,23 @@ const languageSlice = createSlice({
     // Set current language
     setLanguage: (state, action: PayloadAction<string>) => {
       state.currentLanguage = action.payload;
-      // Set RTL based on language code
-      state.isRTL = ['ar', 'he', 'ur'].includes(action.payload);
+      // Set RTL from the declared script direction, or from the language code
+      const declared = state.availableLanguages.find(language => language.code === action.payload);
+      state.isRTL = declared?.direction ? declared.direction === 'rtl' : ['ar', 'he', 'ur'].includes(action.payload);
       state.initialized = true;
+      state.isSelected = true;
     },
 
-    // Update available languages
+    // Update available languages, keeping only those that are ready
     setAvailableLanguages: (
       state,
-      action: PayloadAction<{ code: string; name: string }[]>
+      action: PayloadAction<LanguageOption[]>
     ) => {
-      state.availableLanguages = action.payload;
+      state.availableLanguages = action.payload.filter(language => language.ready !== false);
+      const current = state.availableLanguages.find(language => language.code === state.currentLanguage);
+      if (current?.direction) {
+        state.isRTL = current.direction === 'rtl';
+      }
     },
     
     // Set initialization status
@@ -58,13 +80,30 @@ const languageSlice = createSlice({
 // Export actions
 export const { setLanguage, setAvailableLanguages, setInitialized } = languageSlice.actions;
 
+// Thunk to switch config text to a language once its translations and the English fallback are available
+// Bundles that are not cached are downloaded first; the switch goes ahead without them if the download times out
+export const loadTranslations =
+  (languageCode: string): AppThunk<Promise<void>> =>
+  async () => {
+    try {
+      await Promise.all(
+        Array.from(new Set([DEFAULT_LANGUAGE, languageCode])).map(code => configClient.ensureTranslations(code))
+      );
+      await setTranslationLanguage(languageCode);
+    } catch (error) {
+      console.error('Failed to load translations:', error);
+    }
+  };
+
 // Thunk to change language
 export const changeLanguage =
-  (languageCode: string): AppThunk =>
+  (languageCode: string): AppThunk<Promise<void>> =>
   async (dispatch) => {
     try {
-      // Update Redux state
+      // Load the language's translations, then update Redux state and serve the language's screen configs
+      await dispatch(loadTranslations(languageCode));
       dispatch(setLanguage(languageCode));
+      configClient.setLanguage(languageCode, getLocale(languageCode));
       
       // Store language preference for future use
       try {
@@ -89,6 +128,9 @@ export const initializeLanguage = (): AppThunk => async (dispatch) => {
       // Mark as initialized even if we use default
       dispatch(setInitialized(true));
     }
+    const language = savedLanguage || DEFAULT_LANGUAGE;
+    dispatch(loadTranslations(language));
+    configClient.setLanguage(language, getLocale(language));
   } catch (error) {
     console.error('Failed to initialize language:', error);
     dispatch(setInitialized(true)); // Mark as initialized to prevent blocking
@@ -99,13 +141,24 @@ export const initializeLanguage = (): AppThunk => async (dispatch) => {
 export const selectCurrentLanguage = (state: { language: LanguageState }) =>
   state.language.currentLanguage;
 
+// Locale of the current language in the device's region, e.g. 'hi-IN'
+export const selectLocale = (state: { language: LanguageState }) =>
+  getLocale(state.language.currentLanguage);
+
 export const selectAvailableLanguages = (state: { language: LanguageState }) =>
   state.language.availableLanguages;
 
+// Catalogue entry of the current language, if it is declared
+export const selectCurrentLanguageOption = (state: { language: LanguageState }) =>
+  state.language.availableLanguages.find(language => language.code === state.language.currentLanguage);
+
 export const selectIsRTL = (state: { language: LanguageState }) =>
   state.language.isRTL;
 
 export const selectIsLanguageInitialized = (state: { language: LanguageState }) =>
   state.language.initialized;
 
+export const selectIsLanguageSelected = (state: { language: LanguageState }) =>
+  state.language.isSelected;
+
 export default languageSlice.reducer;
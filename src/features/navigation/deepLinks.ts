@@ -0,0 +1,107 @@
+/**
+ * Deep Link Helpers
+ * Matches labor2hire:// and https app links against the `path` patterns
+ * declared on App config routes, e.g. `{ name: 'JobDetails', path: '/jobs/:jobId' }`
+ * @author Labor2Hire Team
+ */
+
+import { getRouteDefinitions } from './routeConfig';
+
+export const DEEP_LINK_SCHEME = 'labor2hire';
+
+export interface DeepLinkTarget {
+  // Route name as declared in the App config
+  route: string;
+  // Path params merged over query params
+  params: Record<string, string>;
+}
+
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?/i;
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+/**
+ * Parse a query string into a flat object, keeping the last value of repeated keys
+ */
+export const parseQuery = (query = ''): Record<string, string> =>
+  query.split('&').reduce<Record<string, string>>((params, pair) => {
+    if (!pair) return params;
+    const [key, ...rest] = pair.split('=');
+    params[decode(key)] = decode(rest.join('='));
+    return params;
+  }, {});
+
+/**
+ * Split a deep link into its path and query params, or null if the app does not handle it
+ * The host of a labor2hire:// link is the first path segment; https links must use a
+ * host listed in the App config's `navigation.linkHosts`
+ */
+export const parseDeepLink = (
+  appConfig: any,
+  url: string
+): { path: string; query: Record<string, string> } | null => {
+  const match = URL_PATTERN.exec(url || '');
+  if (!match) return null;
+
+  const [, scheme, host, path, query] = match;
+  const linkHosts: string[] = appConfig?.navigation?.linkHosts || [];
+
+  if (scheme.toLowerCase() === DEEP_LINK_SCHEME) {
+    return { path: `/${[host, ...splitPath(path)].filter(Boolean).join('/')}`, query: parseQuery(query) };
+  }
+  if (scheme.toLowerCase() === 'https' && linkHosts.includes(host.toLowerCase())) {
+    return { path: `/${splitPath(path).join('/')}`, query: parseQuery(query) };
+  }
+
+  return null;
+};
+
+/**
+ * Match a path against a route pattern such as `/jobs/:jobId`, returning the path params
+ */
+export const matchRoutePath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(path);
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternSegments.length; index++) {
+    const expected = patternSegments[index];
+    const actual = pathSegments[index];
+
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = decode(actual);
+    } else if (expected.toLowerCase() !== actual.toLowerCase()) {
+      return null;
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Resolve a deep link to the first declared route whose `path` matches it
+ */
+export const resolveDeepLink = (appConfig: any, url: string): DeepLinkTarget | null => {
+  const link = parseDeepLink(appConfig, url);
+  if (!link) return null;
+
+  for (const definition of getRouteDefinitions(appConfig)) {
+    if (!definition.path) continue;
+
+    const params = matchRoutePath(definition.path, link.path);
+    if (params) {
+      return { route: definition.name, params: { ...link.query, ...params } };
+    }
+  }
+
+  return null;
+};
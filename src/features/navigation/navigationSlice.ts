@@ -0,0 +1,253 @@
+/**
+ * Navigation Redux Slice
+ * Screen history for MainApp as a stack of routes
+ * All navigation from screen configs and the hardware back button goes through here
+ * @author Labor2Hire Team
+ */
+
+import { Action, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { AppThunk } from '../../store';
+import { SCREEN_NAMES } from '../../constants/ScreenNames';
+import { getScreenConfigKey } from '../../utils/ScreenConfigKey';
+import { requestScreenConfig } from '../remoteConfig/remoteConfigSlice';
+import { clearSession } from '../session/sessionSlice';
+import { clearScreenState } from '../screenState/screenStateSlice';
+import { resetForm, selectScreenForms } from '../forms/formsSlice';
+import { resolveDeepLink } from './deepLinks';
+import {
+  findFailedGuard,
+  findRouteDefinition,
+  getGuardFallback,
+  NavigationRoute,
+  resolveRoute,
+} from './routeConfig';
+
+export type NavigationMode = 'push' | 'replace' | 'reset';
+
+// A route blocked by the auth guard, resumed once the user signs in
+export interface PendingRedirect {
+  route: NavigationRoute;
+  // Stack depth to return to before pushing the route
+  depth: number;
+}
+
+// Define types for the navigation state
+export interface NavigationState {
+  stack: NavigationRoute[];
+  pendingRedirect: PendingRedirect | null;
+}
+
+const INITIAL_ROUTE: NavigationRoute = {
+  name: SCREEN_NAMES.CHOOSE_LANGUAGE,
+  screen: SCREEN_NAMES.CHOOSE_LANGUAGE,
+};
+
+// Define the initial state
+const initialState: NavigationState = {
+  stack: [INITIAL_ROUTE],
+  pendingRedirect: null,
+};
+
+// Stop following guard fallbacks after this many redirects
+const MAX_GUARD_REDIRECTS = 3;
+
+const isSameRoute = (a?: NavigationRoute, b?: NavigationRoute): boolean =>
+  !!a && !!b && a.screen === b.screen && JSON.stringify(a.params || {}) === JSON.stringify(b.params || {});
+
+// Create the Redux slice
+const navigationSlice = createSlice({
+  name: 'navigation',
+  initialState,
+  reducers: {
+    // Push a route, ignoring a push of the route already on top
+    pushRoute: (state, action: PayloadAction<NavigationRoute>) => {
+      if (!isSameRoute(state.stack[state.stack.length - 1], action.payload)) {
+        state.stack.push(action.payload);
+      }
+    },
+
+    // Replace the route on top of the stack
+    replaceRoute: (state, action: PayloadAction<NavigationRoute>) => {
+      state.stack[state.stack.length - 1] = action.payload;
+    },
+
+    // Replace the whole stack
+    resetStack: (state, action: PayloadAction<NavigationRoute | NavigationRoute[]>) => {
+      const routes = Array.isArray(action.payload) ? action.payload : [action.payload];
+      state.stack = routes.length > 0 ? routes : [INITIAL_ROUTE];
+    },
+
+    // Pop the top route, never emptying the stack
+    goBack: (state) => {
+      if (state.stack.length > 1) {
+        state.stack.pop();
+      }
+    },
+
+    // Pop back to the most recent route with the given name or screen
+    popToScreen: (state, action: PayloadAction<string>) => {
+      for (let index = state.stack.length - 1; index >= 0; index--) {
+        const route = state.stack[index];
+        if (route.name === action.payload || route.screen === action.payload) {
+          state.stack = state.stack.slice(0, index + 1);
+          return;
+        }
+      }
+      console.warn(`⚠️ popToScreen: ${action.payload} is not in the navigation stack`);
+    },
+
+    // Remember a route to return to after signing in
+    setPendingRedirect: (state, action: PayloadAction<PendingRedirect | null>) => {
+      state.pendingRedirect = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // Logout and session expiry end the sign-in the redirect was waiting for; the next user must not inherit it
+    builder.addCase(clearSession, (state) => {
+      state.pendingRedirect = null;
+    });
+  },
+});
+
+// Export actions; those that remove routes are wrapped below
+export const { pushRoute, setPendingRedirect } = navigationSlice.actions;
+
+// Screen state and forms are kept per stack entry under this key
+const getRouteStateKey = (route: NavigationRoute): string => getScreenConfigKey(route.screen, route.params);
+
+// Thunk to apply a stack change, then drop the screen state and forms of the entries it removed
+// An entry with the same screen and params further down the stack keeps its state
+const updateStack = (action: Action): AppThunk => (dispatch, getState) => {
+  const previousStack = getState().navigation.stack;
+  dispatch(action);
+
+  const remaining = new Set(getState().navigation.stack.map(getRouteStateKey));
+  previousStack.map(getRouteStateKey).forEach(screen => {
+    if (remaining.has(screen)) return;
+
+    remaining.add(screen);
+    dispatch(clearScreenState(screen));
+    Object.keys(selectScreenForms(screen)(getState())).forEach(formId => {
+      dispatch(resetForm({ screen, formId }));
+    });
+  });
+};
+
+// Replace the route on top of the stack
+export const replaceRoute = (route: NavigationRoute): AppThunk => updateStack(navigationSlice.actions.replaceRoute(route));
+
+// Replace the whole stack
+export const resetStack = (routes: NavigationRoute | NavigationRoute[]): AppThunk =>
+  updateStack(navigationSlice.actions.resetStack(routes));
+
+// Pop the top route, never emptying the stack
+export const goBack = (): AppThunk => updateStack(navigationSlice.actions.goBack());
+
+// Pop back to the most recent route with the given name or screen
+export const popToScreen = (screen: string): AppThunk => updateStack(navigationSlice.actions.popToScreen(screen));
+
+// Map the replace/reset flags of a navigate action payload to a navigation mode
+export const getNavigationMode = (payload?: { replace?: boolean; reset?: boolean }): NavigationMode => {
+  if (payload?.reset) return 'reset';
+  if (payload?.replace) return 'replace';
+  return 'push';
+};
+
+const navigateWithGuards =
+  (
+    target: string,
+    options: { params?: Record<string, any>; mode?: NavigationMode },
+    redirects: number
+  ): AppThunk<boolean> =>
+  (dispatch, getState) => {
+    const { params, mode = 'push' } = options;
+    const state = getState();
+    const appConfig = state.remoteConfig.configs[SCREEN_NAMES.APP];
+    const definition = findRouteDefinition(appConfig, target);
+    const route = resolveRoute(appConfig, target, params);
+
+    // Check the route's declared requirements and redirect to its fallback when unmet
+    const failedGuard = findFailedGuard(definition, {
+      isLoggedIn: !!state.session.accessToken,
+      role: state.user.role,
+      languageSelected: state.language.isSelected,
+    });
+    if (failedGuard) {
+      const fallback = getGuardFallback(appConfig, definition, failedGuard);
+      if (!fallback || fallback === route.name || redirects >= MAX_GUARD_REDIRECTS) {
+        console.warn(`🛡️ Navigation to ${route.name} blocked: ${failedGuard} requirement not met`);
+        return false;
+      }
+
+      console.log(`🛡️ ${route.name} requires ${failedGuard}, redirecting to ${fallback}`);
+      if (failedGuard === 'auth' && redirects === 0) {
+        const depth = mode === 'reset' ? 0 : state.navigation.stack.length - (mode === 'replace' ? 1 : 0);
+        dispatch(setPendingRedirect({ route, depth }));
+      }
+      return dispatch(navigateWithGuards(fallback, { mode: mode === 'reset' ? 'reset' : 'push' }, redirects + 1));
+    }
+
+    console.log(`🧭 Navigation ${mode}: ${route.name} (${route.screen})`);
+    if (mode === 'reset') {
+      dispatch(resetStack(route));
+    } else if (mode === 'replace') {
+      dispatch(replaceRoute(route));
+    } else {
+      dispatch(pushRoute(route));
+    }
+
+    dispatch(requestScreenConfig(route.screen, route.params));
+    return true;
+  };
+
+// Thunk to navigate to a declared route or screen, enforcing route guards, and load its config
+// Resolves to false when a guard blocked the navigation without a fallback
+export const navigate = (
+  target: string,
+  options: { params?: Record<string, any>; mode?: NavigationMode } = {}
+): AppThunk<boolean> => navigateWithGuards(target, options, 0);
+
+// Thunk to open a deep link by pushing the route whose path matches it, subject to route guards
+// Resolves to false when no declared route matches or a guard blocked the navigation
+export const openDeepLink = (url: string): AppThunk<boolean> => (dispatch, getState) => {
+  const target = resolveDeepLink(getState().remoteConfig.configs[SCREEN_NAMES.APP], url);
+  if (!target) {
+    console.warn(`🔗 No route matches deep link ${url}`);
+    return false;
+  }
+
+  console.log(`🔗 Opening deep link ${url} as ${target.route}`);
+  return dispatch(navigate(target.route, { params: target.params }));
+};
+
+// Thunk to continue to the route that sent the user to sign in, if any
+export const resumePendingRedirect = (): AppThunk<boolean> => (dispatch, getState) => {
+  const pending = getState().navigation.pendingRedirect;
+  if (!pending) {
+    return false;
+  }
+
+  dispatch(setPendingRedirect(null));
+  const { name, params } = pending.route;
+  const stack = getState().navigation.stack.slice(0, pending.depth);
+  if (stack.length === 0) {
+    return dispatch(navigate(name, { params, mode: 'reset' }));
+  }
+
+  dispatch(resetStack(stack));
+  return dispatch(navigate(name, { params }));
+};
+
+// Selectors
+export const selectNavigationStack = (state: { navigation: NavigationState }) => state.navigation.stack;
+
+export const selectCurrentRoute = (state: { navigation: NavigationState }) =>
+  state.navigation.stack[state.navigation.stack.length - 1];
+
+export const selectCanGoBack = (state: { navigation: NavigationState }) => state.navigation.stack.length > 1;
+
+export const selectStackDepth = (state: { navigation: NavigationState }) => state.navigation.stack.length;
+
+export const selectPendingRedirect = (state: { navigation: NavigationState }) => state.navigation.pendingRedirect;
+
+export default navigationSlice.reducer;
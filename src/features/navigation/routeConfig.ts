@@ -0,0 +1,84 @@
+/**
+ * Route Configuration Helpers
+ * Resolves route names against the routes declared in the App config
+ * (`appConfig.navigation.routes`)
+ * @author Labor2Hire Team
+ */
+
+export interface RouteDefinition {
+  name: string;
+  component?: string;
+  // Deep link path pattern, e.g. `/jobs/:jobId`
+  path?: string;
+  requiresAuth?: boolean;
+  requiredRole?: 'labor' | 'employer';
+  requiresLanguage?: boolean;
+  // Route to redirect to when any requirement is not met
+  fallbackRoute?: string;
+  [key: string]: any;
+}
+
+export interface NavigationRoute {
+  // Route name as declared in the App config
+  name: string;
+  // Screen config rendered for the route
+  screen: string;
+  params?: Record<string, any>;
+}
+
+export const getRouteDefinitions = (appConfig: any): RouteDefinition[] =>
+  Array.isArray(appConfig?.navigation?.routes) ? appConfig.navigation.routes : [];
+
+/**
+ * Find a declared route by name, falling back to a match on its component
+ */
+export const findRouteDefinition = (appConfig: any, target: string): RouteDefinition | undefined => {
+  const routes = getRouteDefinitions(appConfig);
+  return routes.find(route => route.name === target) || routes.find(route => route.component === target);
+};
+
+/**
+ * Resolve a navigation target to a route; undeclared targets are treated as screen names
+ */
+export const resolveRoute = (appConfig: any, target: string, params?: Record<string, any>): NavigationRoute => {
+  const definition = findRouteDefinition(appConfig, target);
+  return {
+    name: definition?.name || target,
+    screen: definition?.component || target,
+    ...(params ? { params } : {}),
+  };
+};
+
+export type RouteGuard = 'auth' | 'role' | 'language';
+
+export interface RouteGuardContext {
+  isLoggedIn: boolean;
+  role: string | null;
+  languageSelected: boolean;
+}
+
+/**
+ * Return the first requirement of a route that the current user does not meet, if any
+ */
+export const findFailedGuard = (
+  definition: RouteDefinition | undefined,
+  context: RouteGuardContext
+): RouteGuard | null => {
+  if (!definition) return null;
+
+  if (definition.requiresLanguage && !context.languageSelected) return 'language';
+  if (definition.requiresAuth && !context.isLoggedIn) return 'auth';
+  if (definition.requiredRole && definition.requiredRole !== context.role) return 'role';
+
+  return null;
+};
+
+/**
+ * Route to redirect to when a guard fails: the route's own `fallbackRoute`,
+ * else the App config's `navigation.guardFallbacks[guard]`
+ */
+export const getGuardFallback = (
+  appConfig: any,
+  definition: RouteDefinition | undefined,
+  guard: RouteGuard
+): string | undefined => definition?.fallbackRoute || appConfig?.navigation?.guardFallbacks?.[guard];
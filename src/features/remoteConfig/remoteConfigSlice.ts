@@ -7,10 +7,18 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { AppThunk } from '../../store';
 import configClient from '../../services/ConfigClient';
+import { addTranslations } from '../../services/i18n';
+import { getScreenConfigKey } from '../../utils/ScreenConfigKey';
+import { FragmentMap } from '../../utils/Fragments';
+import { ThemeDefinition } from '../../utils/Theme';
+import type { LanguageOption } from '../language/languageSlice';
+import { SCREEN_NAMES } from '../../constants/ScreenNames';
 
 // Define types for the configuration state
 export interface RemoteConfigState {
   configs: Record<string, any>;
+  // Fragments shared by every screen, delivered and updated separately from screen configs
+  fragments: FragmentMap;
   loading: boolean;
   error: string | null;
   connected: boolean;
@@ -21,6 +29,7 @@ export interface RemoteConfigState {
 // Define the initial state
 const initialState: RemoteConfigState = {
   configs: {},
+  fragments: {},
   loading: false,
   error: null,
   connected: false,
@@ -68,6 +77,12 @@ const remoteConfigSlice = createSlice({
       state.lastUpdated = new Date().toISOString();
       state.loading = false;
     },
+
+    // Replace the shared fragments
+    updateFragments: (state, action: PayloadAction<FragmentMap>) => {
+      state.fragments = action.payload;
+      state.lastUpdated = new Date().toISOString();
+    },
   },
 });
 
@@ -78,6 +93,7 @@ export const {
   setError,
   updateScreenConfig,
   updateAllConfigs,
+  updateFragments,
 } = remoteConfigSlice.actions;
 
 // Thunk to initialize remote configuration
@@ -96,6 +112,16 @@ export const initializeRemoteConfig = (): AppThunk => async (dispatch) => {
       dispatch(setLoading(false)); // Clear loading state when full sync is received
     };
 
+    // A fragment change re-renders only the screens that reference fragments
+    configClient.options.onFragmentsUpdate = (fragments, _data) => {
+      dispatch(updateFragments(fragments));
+    };
+
+    // Translation bundles go straight to i18next, which re-renders translated text
+    configClient.options.onTranslationsUpdate = (language, translations, _data) => {
+      addTranslations(language, translations);
+    };
+
     configClient.options.onConnectionChange = (connected, reason) => {
       dispatch(
         setConnectionStatus({
@@ -123,23 +149,24 @@ export const initializeRemoteConfig = (): AppThunk => async (dispatch) => {
       dispatch(setError(`${type}: ${error.message || 'Unknown error'}`));
     };
 
-    // Connect to server
+    // Show the verified cache while connecting, then connect to server
+    configClient.restoreCachedConfigurations();
     configClient.connect();
   } catch (error: any) {
     dispatch(setError(error.message || 'Failed to initialize remote configuration'));
   }
 };
 
-// Thunk to request screen configuration
+// Thunk to request screen configuration, optionally for a route's params
 export const requestScreenConfig =
-  (screenName: string): AppThunk =>
+  (screenName: string, params?: Record<string, any>): AppThunk =>
   async (dispatch, getState) => {
     const state = getState();
-    const existingConfig = state.remoteConfig.configs[screenName];
+    const existingConfig = state.remoteConfig.configs[getScreenConfigKey(screenName, params)];
     
     // If config already exists and we're connected, don't set loading
     if (existingConfig && state.remoteConfig.connected) {
-      configClient.requestScreenConfig(screenName);
+      configClient.requestScreenConfig(screenName, params);
       return;
     }
     
@@ -150,7 +177,7 @@ export const requestScreenConfig =
 
     try {
       // Request screen config
-      configClient.requestScreenConfig(screenName);
+      configClient.requestScreenConfig(screenName, params);
       
       // If we have cached config, clear loading state after a short delay
       if (existingConfig) {
@@ -182,9 +209,26 @@ export const selectConfigConnected = (state: { remoteConfig: RemoteConfigState }
 export const selectConnectionStatus = (state: { remoteConfig: RemoteConfigState }) =>
   state.remoteConfig.connectionStatus;
 
-export const selectScreenConfig = (screenName: string) => 
+// Config for a screen's params, falling back to the screen's plain config
+export const selectScreenConfig = (screenName: string, params?: Record<string, any>) =>
   (state: { remoteConfig: RemoteConfigState }) =>
-    state.remoteConfig.configs[screenName] || null;
+    state.remoteConfig.configs[getScreenConfigKey(screenName, params)] ||
+    state.remoteConfig.configs[screenName] ||
+    null;
+
+// Fragments shared by every screen, received over their own ConfigClient event
+const NO_FRAGMENTS: FragmentMap = {};
+export const selectFragments = (state: { remoteConfig: RemoteConfigState }): FragmentMap =>
+  state.remoteConfig.fragments || NO_FRAGMENTS;
+
+// Design tokens and style classes delivered with the App config
+export const selectTheme = (state: { remoteConfig: RemoteConfigState }): ThemeDefinition | undefined =>
+  state.remoteConfig.configs[SCREEN_NAMES.APP]?.theme;
+
+// Languages the app supports, declared in the App config
+const NO_LANGUAGES: LanguageOption[] = [];
+export const selectLanguageCatalogue = (state: { remoteConfig: RemoteConfigState }): LanguageOption[] =>
+  state.remoteConfig.configs[SCREEN_NAMES.APP]?.languages || NO_LANGUAGES;
 
 export const selectAllConfigs = (state: { remoteConfig: RemoteConfigState }) =>
   state.remoteConfig.configs;
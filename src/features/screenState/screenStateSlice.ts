@@ -0,0 +1,155 @@
+/**
+ * Screen State Redux Slice
+ * Generic, JSON-addressable state store scoped per screen
+ * Backs the `updateState` action and `{{state.*}}` templates in screen configs
+ * Screens are keyed like configs, by `getScreenConfigKey(screen, params)`, so each stack entry has its own state
+ * @author Labor2Hire Team
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import {
+  deleteValueAtPath,
+  getValueAtPath,
+  parsePath,
+  setValueAtPath,
+  stripPathRoot,
+} from '../../utils/StatePath';
+
+export type StateOperation = 'set' | 'merge' | 'toggle' | 'increment' | 'push' | 'remove';
+
+export interface StateOperationPayload {
+  screen: string;
+  operation?: StateOperation;
+  path: string;
+  value?: any;
+  index?: number;
+}
+
+// Define types for the screen state
+export interface ScreenStateState {
+  screens: Record<string, Record<string, any>>;
+}
+
+// Define the initial state
+const initialState: ScreenStateState = {
+  screens: {},
+};
+
+const EMPTY_SCREEN_STATE: Record<string, any> = {};
+
+/**
+ * Apply a single state operation to a screen state draft
+ */
+const applyOperation = (screenState: Record<string, any>, payload: StateOperationPayload): void => {
+  const { operation = 'set', value, index } = payload;
+  const segments = parsePath(stripPathRoot(payload.path, 'state'));
+  const current = getValueAtPath(screenState, segments);
+
+  if (segments.length === 0) {
+    // Only merge is meaningful at the root of the screen state
+    if (operation === 'merge' && value && typeof value === 'object') {
+      Object.assign(screenState, value);
+    } else {
+      console.warn(`⚠️ State operation "${operation}" requires a path`);
+    }
+    return;
+  }
+
+  switch (operation) {
+    case 'set':
+      setValueAtPath(screenState, segments, value);
+      break;
+    case 'merge':
+      setValueAtPath(screenState, segments, {
+        ...(current && typeof current === 'object' ? current : {}),
+        ...value,
+      });
+      break;
+    case 'toggle':
+      setValueAtPath(screenState, segments, !current);
+      break;
+    case 'increment':
+      setValueAtPath(screenState, segments, (Number(current) || 0) + (value === undefined ? 1 : Number(value)));
+      break;
+    case 'push':
+      if (Array.isArray(current)) {
+        current.push(value);
+      } else {
+        setValueAtPath(screenState, segments, [value]);
+      }
+      break;
+    case 'remove':
+      if (Array.isArray(current) && typeof index === 'number') {
+        current.splice(index, 1);
+      } else if (Array.isArray(current) && value !== undefined) {
+        const serialized = JSON.stringify(value);
+        setValueAtPath(screenState, segments, current.filter(item => JSON.stringify(item) !== serialized));
+      } else {
+        deleteValueAtPath(screenState, segments);
+      }
+      break;
+    default:
+      console.warn(`⚠️ Unknown state operation: ${operation}`);
+  }
+};
+
+// Create the Redux slice
+const screenStateSlice = createSlice({
+  name: 'screenState',
+  initialState,
+  reducers: {
+    // Seed a screen's state, keeping values that were already set
+    initializeScreenState: (
+      state,
+      action: PayloadAction<{ screen: string; initialState?: Record<string, any>; reset?: boolean }>
+    ) => {
+      const { screen, initialState: defaults = {}, reset = false } = action.payload;
+      state.screens[screen] = reset ? { ...defaults } : { ...defaults, ...state.screens[screen] };
+    },
+
+    // Apply a set/merge/toggle/increment/push/remove operation to a path
+    applyStateOperation: (state, action: PayloadAction<StateOperationPayload>) => {
+      const { screen } = action.payload;
+      if (!state.screens[screen]) {
+        state.screens[screen] = {};
+      }
+      applyOperation(state.screens[screen], action.payload);
+    },
+
+    // Apply several operations to the same screen in one update
+    applyStateOperations: (
+      state,
+      action: PayloadAction<{ screen: string; operations: Omit<StateOperationPayload, 'screen'>[] }>
+    ) => {
+      const { screen, operations } = action.payload;
+      if (!state.screens[screen]) {
+        state.screens[screen] = {};
+      }
+      operations.forEach(operation => applyOperation(state.screens[screen], { ...operation, screen }));
+    },
+
+    // Drop all state for a screen
+    clearScreenState: (state, action: PayloadAction<string>) => {
+      delete state.screens[action.payload];
+    },
+  },
+});
+
+// Export actions
+export const {
+  initializeScreenState,
+  applyStateOperation,
+  applyStateOperations,
+  clearScreenState,
+} = screenStateSlice.actions;
+
+// Selectors
+export const selectScreenState = (screen: string) =>
+  (state: { screenState: ScreenStateState }) =>
+    state.screenState?.screens[screen] || EMPTY_SCREEN_STATE;
+
+export const selectScreenStateValue = (screen: string, path: string) =>
+  (state: { screenState: ScreenStateState }) =>
+    getValueAtPath(selectScreenState(screen)(state), stripPathRoot(path, 'state'));
+
+export default screenStateSlice.reducer;
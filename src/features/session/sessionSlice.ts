@@ -0,0 +1,118 @@
+/**
+ * Session Redux Slice
+ * Persisted access/refresh tokens for the signed-in user
+ * Filled when OTP verification succeeds, refreshed before expiry and cleared on logout
+ * @author Labor2Hire Team
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { AppThunk } from '../../store';
+import { AuthError, AuthTokens, getAuthProvider } from '../../services/auth';
+import { clearAuth, verificationSucceeded } from '../auth/authSlice';
+
+// Refresh this long before the access token expires
+export const SESSION_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Wait this long before retrying a refresh that failed for a transient reason
+export const SESSION_REFRESH_RETRY_MS = 30 * 1000;
+
+// Define types for the session state
+export interface SessionState {
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  userId: string | null;
+}
+
+// Define the initial state
+const initialState: SessionState = {
+  accessToken: null,
+  refreshToken: null,
+  expiresAt: null,
+  userId: null,
+};
+
+const toSession = (tokens: AuthTokens): SessionState => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresAt: tokens.expiresAt,
+  userId: tokens.userId,
+});
+
+// Create the Redux slice
+const sessionSlice = createSlice({
+  name: 'session',
+  initialState,
+  reducers: {
+    // Store newly issued tokens
+    setSession: (_state, action: PayloadAction<AuthTokens>) => toSession(action.payload),
+
+    // Drop the session
+    clearSession: () => initialState,
+  },
+  extraReducers: (builder) => {
+    // OTP verification starts a new session
+    builder.addCase(verificationSucceeded, (_state, action) => toSession(action.payload));
+  },
+});
+
+// Export actions
+export const { setSession, clearSession } = sessionSlice.actions;
+
+let refreshInFlight: Promise<void> | null = null;
+
+// Thunk to exchange the refresh token for new tokens
+// A rejected refresh token ends the session; other failures are rethrown so the caller can retry
+export const refreshSession = (): AppThunk<Promise<void>> => (dispatch, getState) => {
+  if (refreshInFlight) {
+    return refreshInFlight;
+  }
+
+  const { refreshToken } = getState().session;
+  if (!refreshToken) {
+    return Promise.resolve();
+  }
+
+  refreshInFlight = (async () => {
+    try {
+      const tokens = await getAuthProvider().refresh(refreshToken);
+      dispatch(setSession(tokens));
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'invalid_refresh_token') {
+        console.warn('🔒 Session refresh rejected, signing out');
+        dispatch(clearSession());
+        dispatch(clearAuth());
+        return;
+      }
+      throw error;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+
+  return refreshInFlight;
+};
+
+// Thunk to end the session locally and on the backend
+export const logout = (): AppThunk<Promise<void>> => async (dispatch, getState) => {
+  const { refreshToken } = getState().session;
+
+  dispatch(clearSession());
+  dispatch(clearAuth());
+
+  try {
+    await getAuthProvider().logout(refreshToken || undefined);
+  } catch (error) {
+    // The local session is already gone; the backend token will expire on its own
+    console.warn('Failed to revoke session on logout:', error);
+  }
+};
+
+// Selectors
+export const selectSession = (state: { session: SessionState }) => state.session;
+
+export const selectIsLoggedIn = (state: { session: SessionState }) => !!state.session.accessToken;
+
+export const selectSessionUserId = (state: { session: SessionState }) => state.session.userId;
+
+export default sessionSlice.reducer;
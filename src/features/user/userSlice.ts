@@ -0,0 +1,56 @@
+/**
+ * User Redux Slice
+ * Profile choices made during onboarding: role and job category
+ * @author Labor2Hire Team
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { clearSession } from '../session/sessionSlice';
+
+export type UserRole = 'labor' | 'employer';
+
+// Define types for the user state
+export interface UserState {
+  role: UserRole | null;
+  category: string | null;
+}
+
+// Define the initial state
+const initialState: UserState = {
+  role: null,
+  category: null,
+};
+
+// Create the Redux slice
+const userSlice = createSlice({
+  name: 'user',
+  initialState,
+  reducers: {
+    // Set the role chosen on the ChooseRole screen
+    setRole: (state, action: PayloadAction<{ role: UserRole }>) => {
+      state.role = action.payload.role;
+    },
+
+    // Set the job category chosen on the Categories screen
+    setCategory: (state, action: PayloadAction<{ category: string | null }>) => {
+      state.category = action.payload.category || null;
+    },
+
+    // Forget onboarding choices
+    clearUser: () => initialState,
+  },
+  extraReducers: (builder) => {
+    // The role is persisted and checked by route guards, so it leaves with the session on logout or expiry
+    builder.addCase(clearSession, () => initialState);
+  },
+});
+
+// Export actions
+export const { setRole, setCategory, clearUser } = userSlice.actions;
+
+// Selectors
+export const selectUserRole = (state: { user: UserState }) => state.user.role;
+
+export const selectUserCategory = (state: { user: UserState }) => state.user.category;
+
+export default userSlice.reducer;
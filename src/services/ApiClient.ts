@@ -0,0 +1,102 @@
+/**
+ * API Client
+ * Sends `apiCall` requests from screen configs to the backend
+ * Relative URLs resolve against the App config's `api.baseUrl`, and every
+ * request carries the App config's default headers; the session token is only
+ * sent to the base URL's origin, never to other hosts a config points at
+ * @author Labor2Hire Team
+ */
+
+import { API_BASE_URL, API_TIMEOUT_MS } from '../constants/ApiConfig';
+
+export interface ApiRequest {
+  url: string;
+  method?: string;
+  data?: any;
+  headers?: Record<string, string>;
+}
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  headers: Record<string, string>;
+  timeout: number;
+  accessToken?: string | null;
+}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const ORIGIN_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i;
+
+/**
+ * Build the client config from the App config's `api` section and the current access token
+ */
+export const getApiClientConfig = (appConfig: any, accessToken?: string | null): ApiClientConfig => {
+  const api = appConfig?.api || {};
+
+  return {
+    baseUrl: api.baseUrl || API_BASE_URL,
+    headers: { ...api.headers },
+    timeout: api.timeout || API_TIMEOUT_MS,
+    accessToken,
+  };
+};
+
+/**
+ * Scheme, host and port of an absolute URL, lowercased; null for relative URLs
+ */
+export const getUrlOrigin = (url: string): string | null => url.match(ORIGIN_PATTERN)?.[0].toLowerCase() ?? null;
+
+/**
+ * Resolve a request URL against the base URL, leaving absolute URLs unchanged
+ */
+export const resolveApiUrl = (url: string, baseUrl: string): string => {
+  if (ABSOLUTE_URL_PATTERN.test(url)) return url;
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+};
+
+/**
+ * Send a request and resolve to the parsed JSON response
+ * Non-2xx responses reject with an ApiError carrying the server's message when it sends one
+ */
+export const sendApiRequest = async (request: ApiRequest, config: ApiClientConfig): Promise<any> => {
+  const { url, method = 'GET', data, headers } = request;
+  const resolvedUrl = resolveApiUrl(url, config.baseUrl);
+  const sameOrigin = getUrlOrigin(resolvedUrl) === getUrlOrigin(config.baseUrl);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(resolvedUrl, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+        ...(config.accessToken && sameOrigin ? { Authorization: `Bearer ${config.accessToken}` } : {}),
+        ...headers,
+      },
+      body: data !== undefined ? JSON.stringify(data) : undefined,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw new ApiError(0, `Network request failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, result?.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return result;
+};
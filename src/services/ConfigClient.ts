@@ -7,11 +7,35 @@
 
 import { io, Socket } from 'socket.io-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { applyJsonPatch, JsonPatchOperation } from '../utils/JsonPatch';
+import { computeConfigHash } from '../utils/ConfigHash';
+import {
+  getLanguageConfigKey,
+  getScreenConfigKey,
+  getScreenFromConfigKey,
+  stripConfigKeyLanguage,
+} from '../utils/ScreenConfigKey';
+import { SchemaValidationIssue } from '../utils/SchemaValidator';
+import { FragmentMap } from '../utils/Fragments';
+import { ConfigValidationError, validateFragmentSchema, validateScreenConfigSchema } from './ConfigSchema';
+import {
+  ConfigSignature,
+  ConfigSignatureError,
+  ConfigSigningKey,
+  SignatureVerificationResult,
+  verifyConfigSignature,
+  verifyFragmentSignature,
+  verifyTranslationsSignature,
+} from './ConfigSignature';
+import { ALLOW_UNSIGNED_CONFIGS_IN_DEV, CONFIG_SIGNING_KEYS } from '../constants/ConfigSigningKeys';
+import { version as APP_VERSION } from '../../package.json';
 
 export interface ConfigClientOptions {
   serverUrl?: string;
   onConfigUpdate?: (screen: string, config: any, data: any) => void;
   onFullConfigSync?: (configs: any, data: any) => void;
+  onTranslationsUpdate?: (language: string, translations: Record<string, any>, data: any) => void;
+  onFragmentsUpdate?: (fragments: FragmentMap, data: any) => void;
   onConnectionChange?: (connected: boolean, reason: string) => void;
   onError?: (type: string, error: any) => void;
   reconnectDelay?: number;
@@ -20,6 +44,39 @@ export interface ConfigClientOptions {
   offlineSupport?: boolean;
   cacheExpiry?: number;
   enableMetrics?: boolean;
+  signingKeys?: ConfigSigningKey[];
+  requireSignatures?: boolean;
+  // In development builds only, accept unsigned configs when no signing keys are pinned
+  allowUnsignedInDev?: boolean;
+  // Sent with every config request so the server can pick the variant for the user's language and app
+  language?: string;
+  locale?: string;
+  appVersion?: string;
+}
+
+// Language, locale and app version sent with config requests
+export interface ConfigRequestContext {
+  language: string;
+  locale: string;
+  appVersion: string;
+}
+
+/**
+ * Delta update for a single screen configuration
+ * `patch` holds RFC 6902 operations that turn the config identified by
+ * `baseHash` into the config identified by `targetHash`, and `signature`
+ * covers the resulting (target) config
+ */
+export interface ScreenConfigPatch {
+  screen: string;
+  // Route params the patched config was requested with
+  params?: Record<string, any>;
+  // Language of the patched variant, the requested language by default
+  language?: string;
+  patch: JsonPatchOperation[];
+  baseHash?: string;
+  targetHash?: string;
+  signature?: ConfigSignature;
 }
 
 /**
@@ -28,16 +85,33 @@ export interface ConfigClientOptions {
  */
 export class ConfigClient {
   socket: Socket | null = null;
+  private cacheLoaded: Promise<void> = Promise.resolve();
   options: ConfigClientOptions;
+  // Configs by language variant key (`Screen@hi?jobId=42`); the app sees the variants of the current language
   private configs: Record<string, any> = {};
+  private signatures: Record<string, ConfigSignature> = {};
   private connected = false;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private lastActivity = Date.now();
-  private pendingRequests: Set<string> = new Set();
+  // Requests made while disconnected, keyed by config key
+  private pendingRequests: Map<string, { screen: string; params?: Record<string, any> }> = new Map();
+  // Language the server falls back to, by screen, when a screen has no variant for the requested language
+  private fallbackLanguages: Record<string, string> = {};
+  // Translation bundles by language, and languages requested while disconnected
+  private translations: Record<string, Record<string, any>> = {};
+  private pendingTranslationRequests = new Set<string>();
+  // Callers waiting for a language's first bundle to arrive
+  private translationWaiters: Map<string, Array<() => void>> = new Map();
+  // Shared fragments by name, each with the signature it arrived with
+  private fragments: FragmentMap = {};
+  private fragmentSignatures: Record<string, ConfigSignature> = {};
   private readonly PREFERENCE_STORAGE_KEY = '@Labor2Hire:UserPreferences:';
   private readonly CONFIG_CACHE_KEY = '@Labor2Hire:ConfigCache:';
   private readonly CACHE_METADATA_KEY = '@Labor2Hire:CacheMetadata';
+  private readonly SIGNATURE_CACHE_KEY = '@Labor2Hire:ConfigSignatures';
+  private readonly TRANSLATION_CACHE_KEY = '@Labor2Hire:Translations:';
+  private readonly FRAGMENT_CACHE_KEY = '@Labor2Hire:Fragments';
   private metrics = {
     connectionAttempts: 0,
     successfulConnections: 0,
@@ -45,6 +119,8 @@ export class ConfigClient {
     cacheHits: 0,
     cacheMisses: 0,
     errors: 0,
+    patchesApplied: 0,
+    patchResyncs: 0,
   };
 
   constructor(options: ConfigClientOptions = {}) {
@@ -88,6 +164,8 @@ export class ConfigClient {
       serverUrl: defaultServerUrl,
       onConfigUpdate: this.defaultConfigUpdateHandler,
       onFullConfigSync: this.defaultFullConfigSyncHandler,
+      onTranslationsUpdate: this.defaultTranslationsUpdateHandler,
+      onFragmentsUpdate: this.defaultFragmentsUpdateHandler,
       onConnectionChange: this.defaultConnectionChangeHandler,
       onError: this.defaultErrorHandler,
       reconnectDelay: 5000, // Increased back to 5000 for stability
@@ -96,11 +174,37 @@ export class ConfigClient {
       offlineSupport: true,
       cacheExpiry: 24 * 60 * 60 * 1000, // 24 hours
       enableMetrics: true,
+      signingKeys: CONFIG_SIGNING_KEYS,
+      requireSignatures: true,
+      allowUnsignedInDev: ALLOW_UNSIGNED_CONFIGS_IN_DEV,
+      language: 'en',
+      appVersion: APP_VERSION,
       ...options,
     };
 
+    if (this.options.requireSignatures && !this.options.signingKeys?.length && __DEV__ && this.options.allowUnsignedInDev) {
+      console.warn(
+        '🚨🚨🚨 CONFIG SIGNATURES ARE NOT VERIFIED: no signing keys are pinned in CONFIG_SIGNING_KEYS. ' +
+        'Unsigned configs are accepted because this is a development build; release builds will refuse to connect.'
+      );
+      this.options.requireSignatures = false;
+    }
+
     // Load cached configurations on initialization
-    this.loadCachedConfigurations();
+    this.cacheLoaded = Promise.all([this.loadCachedConfigurations(), this.loadCachedFragments()]).then(() => undefined);
+  }
+
+  /**
+   * Publish the cached configurations that passed signature verification
+   * The store does not persist configs itself, so this is how a restart shows the last good UI
+   */
+  async restoreCachedConfigurations(): Promise<void> {
+    await this.cacheLoaded;
+    // Fragments first, so restored screens resolve their references on the first render
+    if (this.options.onFragmentsUpdate && Object.keys(this.fragments).length > 0) {
+      this.options.onFragmentsUpdate(this.getFragments(), { source: 'cache' });
+    }
+    this.notifyFullConfigSync();
   }
 
   /**
@@ -123,7 +227,21 @@ export class ConfigClient {
 
       const cachedConfigs = await AsyncStorage.getItem(this.CONFIG_CACHE_KEY);
       if (cachedConfigs) {
-        this.configs = JSON.parse(cachedConfigs);
+        const cachedSignatures = await AsyncStorage.getItem(this.SIGNATURE_CACHE_KEY);
+        const signatures = cachedSignatures ? JSON.parse(cachedSignatures) : {};
+        const configs = JSON.parse(cachedConfigs);
+
+        // Re-verify cached configs so a tampered cache or a retired key cannot drive the UI
+        this.configs = {};
+        this.signatures = {};
+        this.fallbackLanguages = metadata.fallbackLanguages || {};
+        Object.keys(configs).forEach(key => {
+          if (this.isSignatureValid(key, configs[key], signatures[key])) {
+            this.configs[key] = configs[key];
+            this.signatures[key] = signatures[key];
+          }
+        });
+
         console.log(`📱 Loaded ${Object.keys(this.configs).length} cached configurations`);
         
         if (this.options.enableMetrics) {
@@ -144,10 +262,12 @@ export class ConfigClient {
 
     try {
       await AsyncStorage.setItem(this.CONFIG_CACHE_KEY, JSON.stringify(this.configs));
+      await AsyncStorage.setItem(this.SIGNATURE_CACHE_KEY, JSON.stringify(this.signatures));
       await AsyncStorage.setItem(this.CACHE_METADATA_KEY, JSON.stringify({
         timestamp: Date.now(),
         version: '1.0.0',
         totalConfigs: Object.keys(this.configs).length,
+        fallbackLanguages: this.fallbackLanguages,
       }));
       console.log('💾 Configurations cached successfully');
     } catch (error) {
@@ -163,6 +283,8 @@ export class ConfigClient {
     try {
       await AsyncStorage.removeItem(this.CONFIG_CACHE_KEY);
       await AsyncStorage.removeItem(this.CACHE_METADATA_KEY);
+      await AsyncStorage.removeItem(this.SIGNATURE_CACHE_KEY);
+      await AsyncStorage.removeItem(this.FRAGMENT_CACHE_KEY);
       console.log('🗑️ Cache cleared successfully');
     } catch (error) {
       console.error('❌ Failed to clear cache:', error);
@@ -173,6 +295,15 @@ export class ConfigClient {
    * Enhanced connect with metrics and error handling
    */
   connect(): void {
+    // Every config would be rejected without a pinned key, so refuse to start rather than fail silently
+    if (this.options.requireSignatures && !this.options.signingKeys?.length) {
+      this.handleError('signing_keys_missing', new Error(
+        'Config signatures are required but no signing keys are pinned. ' +
+        'Add the server\'s public keys to CONFIG_SIGNING_KEYS before building a release.'
+      ));
+      return;
+    }
+
     // If socket exists and is trying to connect or is already connected, do nothing.
     if (this.socket && (this.socket.connected || this.socket.active)) {
       console.log('🔌 Connection already active or attempting. Ignoring connect call.');
@@ -232,8 +363,9 @@ export class ConfigClient {
    */
   private notifyFullConfigSync(): void {
     if (this.options.onFullConfigSync && Object.keys(this.configs).length > 0) {
-      this.options.onFullConfigSync(this.configs, {
+      this.options.onFullConfigSync(this.getAllConfigs(), {
         source: 'cache',
+        language: this.options.language,
         timestamp: new Date().toISOString(),
         totalConfigs: Object.keys(this.configs).length,
       });
@@ -262,17 +394,24 @@ export class ConfigClient {
         this.options.onConnectionChange(true, 'Connected successfully');
       }
 
-      // Request full configuration on connect
+      // Request full configuration and the shared fragments on connect
       this.requestFullConfig();
+      this.socket?.emit('requestFragments');
 
       // Process any pending requests
       if (this.pendingRequests.size > 0) {
         console.log(`🔄 Processing ${this.pendingRequests.size} pending configuration requests`);
-        for (const screenName of this.pendingRequests) {
-          this.requestScreenConfig(screenName);
+        for (const { screen, params } of this.pendingRequests.values()) {
+          this.requestScreenConfig(screen, params);
         }
         this.pendingRequests.clear();
       }
+
+      if (this.pendingTranslationRequests.size > 0) {
+        const languages = Array.from(this.pendingTranslationRequests);
+        this.pendingTranslationRequests.clear();
+        languages.forEach(language => this.socket?.emit('requestTranslations', language));
+      }
     });
 
     // Handle connection acknowledgment
@@ -351,41 +490,46 @@ export class ConfigClient {
       this.socket.on('screenConfigUpdate', async (data) => {
         const { screen, config } = data;
         console.log(`📥 Received configuration update for ${screen}`);
-        
-        // Validate configuration before updating
-        if (screen && config && this.validateScreenConfig(screen, config)) {
-          // Update local configuration cache
-          this.configs[screen] = config;
-          
-          // Save to persistent cache if offline support enabled
-          if (this.options.offlineSupport) {
-            await this.saveCachedConfigurations();
-          }
 
-          // Call update handler
-          if (this.options.onConfigUpdate) {
-            this.options.onConfigUpdate(screen, config, data);
-          }
-        } else {
-          console.warn('⚠️ Received invalid configuration update, ignoring');
-          this.handleError('invalid_config', new Error(`Invalid config for ${screen}`));
-        }
+        await this.acceptScreenConfig(screen, config, data);
 
         this.lastActivity = Date.now();
-      });    // Also handle the legacy 'configUpdate' event for backward compatibility
-    this.socket.on('configUpdate', (data) => {
+      });
+
+    // Handle delta (JSON Patch) configuration updates for specific screen
+    this.socket.on('screenConfigPatch', async (data: ScreenConfigPatch) => {
+      console.log(`📥 Received configuration patch for ${data?.screen}`);
+
+      await this.applyScreenConfigPatch(data);
+
+      this.lastActivity = Date.now();
+    });
+
+    // Handle translation bundles, sent per language on request and whenever they change
+    this.socket.on('translationsUpdate', async (data) => {
+      console.log(`📥 Received ${data?.language} translations`);
+
+      await this.acceptTranslations(data);
+
+      this.lastActivity = Date.now();
+    });
+
+    // Handle shared fragments, sent in full on request and one at a time whenever one changes
+    this.socket.on('fragmentsUpdate', async (data) => {
+      console.log(`📥 Received ${data?.fragments?.length ?? 0} fragment updates`);
+
+      await this.acceptFragments(data);
+
+      this.lastActivity = Date.now();
+    });
+
+    // Also handle the legacy 'configUpdate' event for backward compatibility
+    this.socket.on('configUpdate', async (data) => {
       const { screen, config } = data;
       console.log(`📥 Received legacy configuration update for ${screen}`);
-      
-      // Update local configuration cache
-      if (screen && config) {
-        this.configs[screen] = config;
-      }
 
-      // Call update handler
-      if (this.options.onConfigUpdate) {
-        this.options.onConfigUpdate(screen, config, data);
-      }
+      // Legacy updates go through the same validation as screenConfigUpdate
+      await this.acceptScreenConfig(screen, config, data);
 
       this.lastActivity = Date.now();
     });
@@ -400,22 +544,52 @@ export class ConfigClient {
           try {
             // Validate each screen configuration
             const validatedConfigs: Record<string, any> = {};
+            const validatedSignatures: Record<string, ConfigSignature> = {};
+            const signatures = data.signatures || {};
             let validCount = 0;
             let invalidCount = 0;
 
+            // A sync carries one language's variants; the server may name a fallback language per screen
+            const language = data.language || this.options.language;
+            this.fallbackLanguages = { ...this.fallbackLanguages, ...data.fallbackLanguages };
+
             Object.keys(configs).forEach(screenName => {
               const config = configs[screenName];
-              if (this.validateScreenConfig(screenName, config)) {
-                validatedConfigs[screenName] = config;
+              const signature = signatures[screenName];
+              const variantKey = getLanguageConfigKey(screenName, language);
+              const signatureValid = this.isSignatureValid(variantKey, config, signature);
+              const issues = signatureValid ? this.getConfigIssues(screenName, config) : [];
+
+              if (signatureValid && issues.length === 0) {
+                validatedConfigs[variantKey] = config;
+                validatedSignatures[variantKey] = signature;
                 validCount++;
               } else {
-                console.warn(`⚠️ Invalid configuration structure for screen: ${screenName}`);
+                console.warn(`⚠️ Rejected configuration for screen: ${screenName}`);
                 invalidCount++;
+                if (issues.length > 0) {
+                  this.handleError('invalid_config', new ConfigValidationError(screenName, issues));
+                }
+
+                // Keep serving the last good version of the screen
+                if (this.configs[variantKey]) {
+                  validatedConfigs[variantKey] = this.configs[variantKey];
+                  validatedSignatures[variantKey] = this.signatures[variantKey];
+                }
               }
             });
 
+            // Other languages and configs requested with route params are not part of a full sync, keep them
+            Object.keys(this.configs)
+              .filter(key => key !== getLanguageConfigKey(getScreenFromConfigKey(key), language))
+              .forEach(key => {
+                validatedConfigs[key] = this.configs[key];
+                validatedSignatures[key] = this.signatures[key];
+              });
+
             // Update local configuration cache with validated configs
             this.configs = { ...validatedConfigs };
+            this.signatures = { ...validatedSignatures };
 
             // Save to persistent cache if offline support enabled
             if (this.options.offlineSupport) {
@@ -426,7 +600,7 @@ export class ConfigClient {
 
             // Call sync handler
             if (this.options.onFullConfigSync) {
-              this.options.onFullConfigSync(this.configs, {
+              this.options.onFullConfigSync(this.getAllConfigs(), {
                 ...data,
                 validCount,
                 invalidCount,
@@ -473,6 +647,159 @@ export class ConfigClient {
     });
   }
 
+  /**
+   * Validate, store and publish a complete screen configuration
+   * Configs sent for route params (`data.params`) are stored under their config key, in the variant
+   * of `data.language` (the requested language by default); only variants serving the current
+   * language are published
+   * @returns Whether the configuration was accepted
+   */
+  private async acceptScreenConfig(screen: string, config: any, data: any): Promise<boolean> {
+    const key = getScreenConfigKey(screen, data?.params);
+    const variantKey = getLanguageConfigKey(key, data?.language || this.options.language);
+
+    // Unsigned or badly signed payloads are dropped before anything else looks at them;
+    // the signature must cover the language and params the config is stored under
+    if (!this.isSignatureValid(variantKey, config, data?.signature)) {
+      return false;
+    }
+
+    const issues = this.getConfigIssues(screen, config);
+    if (!screen || issues.length > 0) {
+      // The last good version stays in place, only the update is dropped
+      console.warn('⚠️ Received invalid configuration update, ignoring');
+      this.handleError('invalid_config', new ConfigValidationError(screen, issues));
+      return false;
+    }
+
+    // Update local configuration cache
+    this.configs[variantKey] = config;
+    this.signatures[variantKey] = data?.signature;
+    if (data?.fallbackLanguage) {
+      this.fallbackLanguages[screen] = data.fallbackLanguage;
+    }
+
+    // Save to persistent cache if offline support enabled
+    if (this.options.offlineSupport) {
+      await this.saveCachedConfigurations();
+    }
+
+    // Call update handler
+    if (this.options.onConfigUpdate && this.resolveConfigKey(key) === variantKey) {
+      this.options.onConfigUpdate(key, config, data);
+    }
+
+    return true;
+  }
+
+  /**
+   * Verify the detached signature of a screen configuration against the key it is stored under
+   * Reports rejected signatures through onError as 'signature_invalid'
+   */
+  private isSignatureValid(configKey: string, config: any, signature?: ConfigSignature): boolean {
+    if (!this.options.requireSignatures) return true;
+
+    return this.reportSignature(
+      configKey,
+      verifyConfigSignature(configKey, config, signature, this.options.signingKeys || [])
+    );
+  }
+
+  /**
+   * Verify the detached signature of a translation bundle, reported like config signatures
+   */
+  private areTranslationsSigned(language: string, translations: Record<string, any>, signature?: ConfigSignature): boolean {
+    if (!this.options.requireSignatures) return true;
+
+    return this.reportSignature(
+      `${language} translations`,
+      verifyTranslationsSignature(language, translations, signature, this.options.signingKeys || [])
+    );
+  }
+
+  /**
+   * Verify the detached signature of a shared fragment or its removal, reported like config signatures
+   */
+  private isFragmentSigned(name: string, fragment: any, signature?: ConfigSignature): boolean {
+    if (!this.options.requireSignatures) return true;
+
+    return this.reportSignature(
+      `fragment ${name}`,
+      verifyFragmentSignature(name, fragment, signature, this.options.signingKeys || [])
+    );
+  }
+
+  private reportSignature(subject: string, result: SignatureVerificationResult): boolean {
+    if (!result.valid) {
+      console.warn(`🔏 Dropping ${subject}: ${result.reason}`);
+      this.handleError('signature_invalid', new ConfigSignatureError(subject, result.reason || 'invalid signature'));
+    }
+
+    return result.valid;
+  }
+
+  /**
+   * Apply a delta update to the cached screen configuration
+   * Falls back to requesting the whole screen whenever the patch cannot be
+   * trusted to reproduce the server's version of the config
+   */
+  private async applyScreenConfigPatch(data: ScreenConfigPatch): Promise<void> {
+    const { screen, params, language, patch, baseHash, targetHash } = data || ({} as ScreenConfigPatch);
+
+    if (!screen || !Array.isArray(patch)) {
+      console.warn('⚠️ Received invalid configuration patch, ignoring');
+      this.handleError('invalid_patch', new Error(`Invalid patch for ${screen}`));
+      return;
+    }
+
+    const currentConfig = this.configs[
+      getLanguageConfigKey(getScreenConfigKey(screen, params), language || this.options.language!)
+    ];
+    if (!currentConfig) {
+      this.resyncScreenConfig(screen, 'no base configuration cached', params);
+      return;
+    }
+
+    if (baseHash && computeConfigHash(currentConfig) !== baseHash) {
+      this.resyncScreenConfig(screen, 'base version mismatch', params);
+      return;
+    }
+
+    let patchedConfig: any;
+    try {
+      patchedConfig = applyJsonPatch(currentConfig, patch);
+    } catch (error) {
+      this.handleError('patch_failed', error);
+      this.resyncScreenConfig(screen, 'patch could not be applied', params);
+      return;
+    }
+
+    if (targetHash && computeConfigHash(patchedConfig) !== targetHash) {
+      this.resyncScreenConfig(screen, 'target version mismatch', params);
+      return;
+    }
+
+    if (await this.acceptScreenConfig(screen, patchedConfig, { ...data, source: 'patch' })) {
+      if (this.options.enableMetrics) {
+        this.metrics.patchesApplied++;
+      }
+      console.log(`🩹 Applied ${patch.length} patch operations to ${screen}`);
+    }
+  }
+
+  /**
+   * Discard a delta update and request the complete screen configuration instead
+   */
+  private resyncScreenConfig(screen: string, reason: string, params?: Record<string, any>): void {
+    console.warn(`⚠️ Cannot apply patch for ${screen} (${reason}), requesting full configuration`);
+
+    if (this.options.enableMetrics) {
+      this.metrics.patchResyncs++;
+    }
+
+    this.requestScreenConfig(screen, params);
+  }
+
   /**
    * Request full configuration from server
    */
@@ -486,24 +813,31 @@ export class ConfigClient {
     }
 
     console.log('🔄 Requesting full configuration from server');
-    this.socket.emit('requestFullConfig');
+    this.socket.emit('requestFullConfig', this.getRequestContext());
   }
 
   /**
    * Enhanced request screen configuration with caching
+   * Params, language, locale and app version are sent along so the server can return a config for them
    * @param screenName - Name of the screen
+   * @param params - Route params of the screen
    */
-  requestScreenConfig(screenName: string): void {
+  requestScreenConfig(screenName: string, params?: Record<string, any>): void {
     if (this.options.enableMetrics) {
       this.metrics.configRequests++;
     }
 
+    const key = getScreenConfigKey(screenName, params);
+    const hasParams = key !== screenName;
+
+    const cachedKey = this.resolveConfigKey(key);
+
     if (!this.socket || !this.connected) {
       // Try to serve from cache if offline support enabled
-      if (this.options.offlineSupport && this.configs[screenName]) {
-        console.log(`📱 Serving ${screenName} from cache (offline mode)`);
+      if (this.options.offlineSupport && cachedKey) {
+        console.log(`📱 Serving ${key} from cache (offline mode)`);
         if (this.options.onConfigUpdate) {
-          this.options.onConfigUpdate(screenName, this.configs[screenName], {
+          this.options.onConfigUpdate(key, this.configs[cachedKey], {
             source: 'cache',
             timestamp: new Date().toISOString(),
           });
@@ -516,11 +850,11 @@ export class ConfigClient {
       }
 
       // Only show message if no cache is available and not already pending
-      if (!this.configs[screenName] && !this.pendingRequests.has(screenName)) {
-        console.log(`🔄 ${screenName} configuration requested while connecting - will retry once connected`);
+      if (!cachedKey && !this.pendingRequests.has(key)) {
+        console.log(`🔄 ${key} configuration requested while connecting - will retry once connected`);
         
         // Store the request to retry once connected
-        this.pendingRequests.add(screenName);
+        this.pendingRequests.set(key, { screen: screenName, params: hasParams ? params : undefined });
       }
 
       if (this.options.enableMetrics) {
@@ -529,8 +863,266 @@ export class ConfigClient {
       return;
     }
 
-    console.log(`🔄 Requesting ${screenName} configuration from server`);
-    this.socket.emit('requestScreenConfig', screenName);
+    console.log(`🔄 Requesting ${key} configuration from server`);
+    this.socket.emit('requestScreenConfig', screenName, {
+      ...(hasParams ? { params } : {}),
+      ...this.getRequestContext(),
+    });
+  }
+
+  /**
+   * Language, locale and app version sent with config requests
+   */
+  getRequestContext(): ConfigRequestContext {
+    const language = this.options.language || 'en';
+    return {
+      language,
+      locale: this.options.locale || language,
+      appVersion: this.options.appVersion || APP_VERSION,
+    };
+  }
+
+  /**
+   * Switch the language whose config variants are requested and served
+   * Cached variants of the new language (or the screens' fallback languages) are published right away,
+   * then fresh ones are requested
+   * @param language - Language code, e.g. 'hi'
+   * @param locale - Locale, e.g. 'hi-IN'; the language code by default
+   */
+  setLanguage(language: string, locale?: string): void {
+    const changed = language !== this.options.language;
+    this.options.language = language;
+    this.options.locale = locale;
+    if (!changed) return;
+
+    console.log(`🌐 Switching configuration language to ${language}`);
+    this.notifyFullConfigSync();
+    this.requestFullConfig();
+  }
+
+  /**
+   * Stored key of the config variant serving a config key in the current language: the language's
+   * own variant, then the screen's declared fallback language, then English, then a config without language
+   */
+  private resolveConfigKey(key: string): string | undefined {
+    const fallbackLanguage = this.fallbackLanguages[getScreenFromConfigKey(key)];
+    const candidates = [
+      getLanguageConfigKey(key, this.options.language || 'en'),
+      fallbackLanguage ? getLanguageConfigKey(key, fallbackLanguage) : undefined,
+      getLanguageConfigKey(key, 'en'),
+      key,
+    ];
+
+    return candidates.find(candidate => candidate !== undefined && this.configs[candidate] !== undefined);
+  }
+
+  /**
+   * Request the translation bundle of a language
+   * A cached bundle is served first so text is translated offline and before the server answers
+   * @param language - Language code, e.g. 'hi'
+   */
+  async requestTranslations(language: string): Promise<void> {
+    if (!this.translations[language]) {
+      await this.loadCachedTranslations(language);
+    }
+    if (this.translations[language] && this.options.onTranslationsUpdate) {
+      this.options.onTranslationsUpdate(language, this.translations[language], {
+        source: 'cache',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    if (!this.socket || !this.connected) {
+      this.pendingTranslationRequests.add(language);
+      return;
+    }
+
+    console.log(`🔄 Requesting ${language} translations from server`);
+    this.socket.emit('requestTranslations', language);
+  }
+
+  /**
+   * Make sure the translation bundle of a language is available, downloading it if not cached
+   * Resolves false right away while offline, and when no bundle arrives within the timeout;
+   * a bundle that arrives later still applies
+   * @param language - Language code, e.g. 'hi'
+   * @param timeout - Milliseconds to wait for the server
+   */
+  async ensureTranslations(language: string, timeout = 10000): Promise<boolean> {
+    await this.requestTranslations(language);
+    if (this.translations[language]) return true;
+    if (!this.socket || !this.connected) return false;
+
+    return new Promise(resolve => {
+      const waiters = this.translationWaiters.get(language) || [];
+      const onArrival = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        const remaining = (this.translationWaiters.get(language) || []).filter(waiter => waiter !== onArrival);
+        if (remaining.length > 0) {
+          this.translationWaiters.set(language, remaining);
+        } else {
+          this.translationWaiters.delete(language);
+        }
+        console.warn(`⚠️ Timed out waiting for ${language} translations`);
+        resolve(false);
+      }, timeout);
+
+      this.translationWaiters.set(language, [...waiters, onArrival]);
+    });
+  }
+
+  /**
+   * Verify, store and cache a translation bundle from the server, then notify listeners
+   */
+  private async acceptTranslations(data: any): Promise<void> {
+    const { language, translations } = data || {};
+    if (!language || !translations || typeof translations !== 'object' || Array.isArray(translations)) {
+      console.warn('⚠️ Received invalid translations update, ignoring');
+      return;
+    }
+    if (!this.areTranslationsSigned(language, translations, data.signature)) {
+      return;
+    }
+
+    this.translations[language] = translations;
+    if (this.options.onTranslationsUpdate) {
+      this.options.onTranslationsUpdate(language, translations, data);
+    }
+
+    const waiters = this.translationWaiters.get(language);
+    if (waiters) {
+      this.translationWaiters.delete(language);
+      waiters.forEach(waiter => waiter());
+    }
+
+    if (!this.options.offlineSupport) return;
+    try {
+      await AsyncStorage.setItem(`${this.TRANSLATION_CACHE_KEY}${language}`, JSON.stringify({
+        translations,
+        signature: data.signature,
+        version: data.version,
+        timestamp: Date.now(),
+      }));
+    } catch (error) {
+      console.error(`❌ Failed to cache ${language} translations:`, error);
+      this.handleError('cache_save', error);
+    }
+  }
+
+  /**
+   * Load a cached translation bundle
+   * Bundles do not expire: a stale translation beats an untranslated key, and the server refreshes it
+   */
+  private async loadCachedTranslations(language: string): Promise<void> {
+    if (!this.options.offlineSupport) return;
+
+    try {
+      const cached = await AsyncStorage.getItem(`${this.TRANSLATION_CACHE_KEY}${language}`);
+      if (cached) {
+        // Re-verify like cached configs, so a tampered cache cannot inject text into actions
+        const { translations, signature } = JSON.parse(cached);
+        if (this.areTranslationsSigned(language, translations, signature)) {
+          this.translations[language] = translations;
+          console.log(`📱 Loaded cached ${language} translations`);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to load cached ${language} translations:`, error);
+      this.handleError('cache_load', error);
+    }
+  }
+
+  /**
+   * Verify, validate and store fragment updates, then cache and publish the whole fragment set
+   * `data.fragments` lists `{ name, fragment, signature }` entries; a null fragment removes it,
+   * and `data.full` replaces the set instead of updating it
+   */
+  private async acceptFragments(data: any): Promise<void> {
+    if (!Array.isArray(data?.fragments)) {
+      console.warn('⚠️ Received invalid fragments update, ignoring');
+      return;
+    }
+
+    const fragments: FragmentMap = data.full ? {} : { ...this.fragments };
+    const signatures: Record<string, ConfigSignature> = data.full ? {} : { ...this.fragmentSignatures };
+    data.fragments.forEach(({ name, fragment = null, signature }: any) => {
+      if (typeof name !== 'string' || !name || !this.isFragmentSigned(name, fragment, signature)) return;
+
+      if (fragment === null) {
+        delete fragments[name];
+        delete signatures[name];
+        return;
+      }
+
+      const issues = validateFragmentSchema(name, fragment);
+      if (issues.length > 0) {
+        console.warn(`⚠️ Dropping invalid fragment ${name}`);
+        this.handleError('invalid_config', new ConfigValidationError(`fragment ${name}`, issues));
+        return;
+      }
+      fragments[name] = fragment;
+      signatures[name] = signature;
+    });
+
+    this.fragments = fragments;
+    this.fragmentSignatures = signatures;
+    if (this.options.onFragmentsUpdate) {
+      this.options.onFragmentsUpdate(this.getFragments(), data);
+    }
+
+    if (!this.options.offlineSupport) return;
+    try {
+      await AsyncStorage.setItem(this.FRAGMENT_CACHE_KEY, JSON.stringify({
+        fragments,
+        signatures,
+        timestamp: Date.now(),
+      }));
+    } catch (error) {
+      console.error('❌ Failed to cache fragments:', error);
+      this.handleError('cache_save', error);
+    }
+  }
+
+  /**
+   * Load cached fragments, re-verifying each like cached configs
+   */
+  private async loadCachedFragments(): Promise<void> {
+    if (!this.options.offlineSupport) return;
+
+    try {
+      const cached = await AsyncStorage.getItem(this.FRAGMENT_CACHE_KEY);
+      if (cached) {
+        const { fragments = {}, signatures = {} } = JSON.parse(cached);
+        Object.keys(fragments).forEach(name => {
+          if (this.isFragmentSigned(name, fragments[name], signatures[name])) {
+            this.fragments[name] = fragments[name];
+            this.fragmentSignatures[name] = signatures[name];
+          }
+        });
+        console.log(`📱 Loaded ${Object.keys(this.fragments).length} cached fragments`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load cached fragments:', error);
+      this.handleError('cache_load', error);
+    }
+  }
+
+  /**
+   * Get the shared fragments received so far
+   */
+  getFragments(): FragmentMap {
+    return { ...this.fragments };
+  }
+
+  /**
+   * Get the translation bundle of a language
+   * @returns Translations or null if none have been received
+   */
+  getTranslations(language: string): Record<string, any> | null {
+    return this.translations[language] || null;
   }
 
   /**
@@ -575,6 +1167,8 @@ export class ConfigClient {
       cacheHits: 0,
       cacheMisses: 0,
       errors: 0,
+      patchesApplied: 0,
+      patchResyncs: 0,
     };
   }
 
@@ -592,37 +1186,36 @@ export class ConfigClient {
   }
 
   /**
-   * Validate screen configuration structure
+   * Validate a screen configuration against the screen config schema
+   * @returns Path-precise schema issues, empty when the config is valid
    */
-  private validateScreenConfig(screenName: string, config: any): boolean {
+  private getConfigIssues(screenName: string, config: any): SchemaValidationIssue[] {
     if (!config) {
       console.warn(`⚠️ Empty configuration for screen: ${screenName}`);
-      return false;
-    }
-
-    if (!config.screenType) {
-      console.warn(`⚠️ Missing screenType for screen: ${screenName}`);
-      return false;
+      return [{ path: '', message: 'is empty' }];
     }
 
-    if (!config.metadata) {
-      console.warn(`⚠️ Missing metadata for screen: ${screenName}`);
-      return false;
-    }
+    const issues = validateScreenConfigSchema(config);
+    issues.forEach(issue => {
+      console.warn(`⚠️ Invalid configuration for ${screenName}: ${issue.path || '(root)'} ${issue.message}`);
+    });
 
-    if (!config.components || !Array.isArray(config.components)) {
-      console.warn(`⚠️ Missing or invalid components array for screen: ${screenName}`);
-      return false;
-    }
+    return issues;
+  }
 
-    return true;
+  /**
+   * Validate screen configuration structure
+   */
+  private validateScreenConfig(screenName: string, config: any): boolean {
+    return this.getConfigIssues(screenName, config).length === 0;
   }
 
   /**
    * Get screen configuration with validation
    */
   getScreenConfig(screenName: string): any | null {
-    const config = this.configs[screenName] || null;
+    const variantKey = this.resolveConfigKey(screenName);
+    const config = variantKey ? this.configs[variantKey] : null;
     
     if (config && !this.validateScreenConfig(screenName, config)) {
       console.warn(`⚠️ Invalid configuration structure for screen: ${screenName}`);
@@ -633,10 +1226,17 @@ export class ConfigClient {
 
   /**
    * Get all current configurations
-   * @returns All configurations
+   * @returns All configurations in the current language, by config key
    */
   getAllConfigs(): Record<string, any> {
-    return { ...this.configs };
+    const configs: Record<string, any> = {};
+    new Set(Object.keys(this.configs).map(stripConfigKeyLanguage)).forEach(key => {
+      const variantKey = this.resolveConfigKey(key);
+      if (variantKey) {
+        configs[key] = this.configs[variantKey];
+      }
+    });
+    return configs;
   }
 
   /**
@@ -760,6 +1360,25 @@ export class ConfigClient {
     console.log('📝 Default handler: Full configuration sync received');
   }
 
+  /**
+   * Default translations update handler
+   * @param language - Language of the bundle
+   * @param _translations - Translation bundle (unused)
+   * @param _data - Full update data (unused)
+   */
+  private defaultTranslationsUpdateHandler(language: string, _translations: Record<string, any>, _data: any): void {
+    console.log(`📝 Default handler: Translations received for ${language}`);
+  }
+
+  /**
+   * Default fragments update handler
+   * @param fragments - All fragments
+   * @param _data - Full update data (unused)
+   */
+  private defaultFragmentsUpdateHandler(fragments: FragmentMap, _data: any): void {
+    console.log(`📝 Default handler: ${Object.keys(fragments).length} fragments received`);
+  }
+
   /**
    * Default connection change handler
    * @param connected - Connection status
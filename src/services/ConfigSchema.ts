@@ -0,0 +1,317 @@
+/**
+ * Screen Configuration Schema
+ * JSON Schema for the screen documents rendered by DynamicRenderer
+ * Mirrors the ComponentDefinition family of types so malformed trees are
+ * rejected at ingest instead of crashing inside the renderer
+ * @author Labor2Hire Team
+ */
+
+import { JsonSchema, SchemaValidationIssue, SchemaValidator, formatSchemaIssues } from '../utils/SchemaValidator';
+import { INPUT_TRANSFORMS } from '../utils/Binding';
+
+export const CONDITION_OPERATORS = [
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'lessThan',
+  'greaterThanOrEqual',
+  'lessThanOrEqual',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'exists',
+  'empty',
+  'regex',
+  'in',
+  'and',
+  'or',
+  'not',
+];
+
+const PRIORITY: JsonSchema = { type: 'string', enum: ['high', 'normal', 'low'] };
+
+const COMPONENT_PROPERTIES: Record<string, JsonSchema> = {
+  type: { type: 'string', minLength: 1 },
+  id: { type: 'string' },
+  props: { type: 'object' },
+  style: { type: 'object' },
+  styleRef: {
+    anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', items: { type: 'string', minLength: 1 } }],
+  },
+  variants: { type: 'object', additionalProperties: { $ref: '#/definitions/VariantDefinition' } },
+  children: { type: 'array', items: { $ref: '#/definitions/ComponentDefinition' } },
+  actions: { type: 'object', additionalProperties: { $ref: '#/definitions/ActionDefinition' } },
+  conditions: { $ref: '#/definitions/ConditionsDefinition' },
+  accessibility: { $ref: '#/definitions/AccessibilityDefinition' },
+  performance: { $ref: '#/definitions/PerformanceHints' },
+  validation: { $ref: '#/definitions/ValidationRules' },
+  bind: { anyOf: [{ type: 'string', minLength: 1 }, { $ref: '#/definitions/BindingDefinition' }] },
+  dataSource: {
+    anyOf: [{ type: 'string', minLength: 1 }, { type: 'array' }, { $ref: '#/definitions/DataSourceDefinition' }],
+  },
+  itemTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  keyExtractor: { type: 'string', minLength: 1 },
+  emptyTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  separatorTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  sectionHeaderTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  footerLoadingTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  footerErrorTemplate: { $ref: '#/definitions/ComponentDefinition' },
+  cacheKey: { type: 'string' },
+  priority: PRIORITY,
+};
+
+export const SCREEN_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['screenType', 'metadata', 'components'],
+  properties: {
+    screenType: { type: 'string', minLength: 1 },
+    metadata: { type: 'object' },
+    globalStyles: { type: 'object' },
+    initialState: { type: 'object' },
+    components: { type: 'array', items: { $ref: '#/definitions/ComponentDefinition' } },
+    loadingState: { $ref: '#/definitions/ComponentDefinition' },
+    errorState: { $ref: '#/definitions/ComponentDefinition' },
+    theme: { $ref: '#/definitions/ThemeDefinition' },
+    // Supported languages of the App config
+    languages: { type: 'array', items: { $ref: '#/definitions/LanguageOption' } },
+  },
+  definitions: {
+    // Fragment references carry `$ref` and overrides in place of a type
+    ComponentDefinition: {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/definitions/FragmentReference' },
+      else: { $ref: '#/definitions/ComponentNode' },
+    },
+    ComponentNode: {
+      type: 'object',
+      required: ['type'],
+      properties: COMPONENT_PROPERTIES,
+    },
+    FragmentReference: {
+      type: 'object',
+      required: ['$ref'],
+      properties: {
+        $ref: { type: 'string', minLength: 1 },
+        ...COMPONENT_PROPERTIES,
+      },
+    },
+    ActionDefinition: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { type: 'string', minLength: 1 },
+        payload: { type: 'object' },
+        condition: { $ref: '#/definitions/ConditionDefinition' },
+        debounce: { type: 'number', minimum: 0 },
+        throttle: { type: 'number', minimum: 0 },
+        retry: { $ref: '#/definitions/RetryConfig' },
+        analytics: { $ref: '#/definitions/AnalyticsConfig' },
+        fallback: { $ref: '#/definitions/ActionDefinition' },
+        actions: { type: 'array', items: { $ref: '#/definitions/ActionDefinition' } },
+        then: { $ref: '#/definitions/ActionBranch' },
+        else: { $ref: '#/definitions/ActionBranch' },
+        onSuccess: { $ref: '#/definitions/ActionDefinition' },
+        onError: { $ref: '#/definitions/ActionDefinition' },
+        resultAs: { type: 'string', minLength: 1 },
+      },
+    },
+    ActionBranch: {
+      anyOf: [
+        { $ref: '#/definitions/ActionDefinition' },
+        { type: 'array', items: { $ref: '#/definitions/ActionDefinition' } },
+      ],
+    },
+    ConditionsDefinition: {
+      type: 'object',
+      properties: {
+        show: { $ref: '#/definitions/ConditionDefinition' },
+        hide: { $ref: '#/definitions/ConditionDefinition' },
+        enable: { $ref: '#/definitions/ConditionDefinition' },
+        disable: { $ref: '#/definitions/ConditionDefinition' },
+      },
+    },
+    // Conditions are either an expression or an operator applied to a field
+    ConditionDefinition: {
+      if: { type: 'object', required: ['expr'] },
+      then: { $ref: '#/definitions/ExpressionCondition' },
+      else: { $ref: '#/definitions/OperatorCondition' },
+    },
+    ExpressionCondition: {
+      type: 'object',
+      required: ['expr'],
+      properties: {
+        expr: { type: 'string', minLength: 1, format: 'expression' },
+      },
+    },
+    OperatorCondition: {
+      type: 'object',
+      required: ['operator'],
+      properties: {
+        operator: { type: 'string', enum: CONDITION_OPERATORS },
+        field: { type: 'string' },
+        conditions: { type: 'array', items: { $ref: '#/definitions/ConditionDefinition' } },
+      },
+    },
+    AccessibilityDefinition: {
+      type: 'object',
+      properties: {
+        label: { type: 'string' },
+        hint: { type: 'string' },
+        role: { type: 'string' },
+        state: { type: 'object', additionalProperties: { type: 'boolean' } },
+        value: { type: 'string' },
+        traits: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    PerformanceHints: {
+      type: 'object',
+      properties: {
+        shouldUpdate: { type: 'boolean' },
+        priority: PRIORITY,
+        cacheEnabled: { type: 'boolean' },
+        preload: { type: 'boolean' },
+        lazy: { type: 'boolean' },
+      },
+    },
+    ValidationRules: {
+      type: 'object',
+      properties: {
+        required: { type: 'boolean' },
+        type: { type: 'string' },
+        minLength: { type: 'integer', minimum: 0 },
+        maxLength: { type: 'integer', minimum: 0 },
+        pattern: { type: 'string', format: 'regex' },
+        message: { type: 'string' },
+      },
+    },
+    BindingDefinition: {
+      type: 'object',
+      required: ['path'],
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        transforms: { type: 'array', items: { type: 'string', enum: INPUT_TRANSFORMS } },
+        maxLength: { type: 'integer', minimum: 0 },
+      },
+    },
+    DataSourceDefinition: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        // Static rows, or a template such as "{{language.available}}" resolving to them
+        items: { anyOf: [{ type: 'array' }, { type: 'string', minLength: 1 }] },
+        api: {
+          type: 'object',
+          required: ['url'],
+          properties: {
+            url: { type: 'string', minLength: 1 },
+            method: { type: 'string', minLength: 1 },
+            headers: { type: 'object', additionalProperties: { type: 'string' } },
+            select: { type: 'string', minLength: 1 },
+          },
+        },
+        pagination: { $ref: '#/definitions/PaginationDefinition' },
+        loadingPath: { type: 'string', minLength: 1 },
+        errorPath: { type: 'string', minLength: 1 },
+        statusPath: { type: 'string', minLength: 1 },
+      },
+    },
+    PaginationDefinition: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { type: 'string', enum: ['page', 'cursor'] },
+        pageParam: { type: 'string', minLength: 1 },
+        cursorParam: { type: 'string', minLength: 1 },
+        pageSizeParam: { type: 'string', minLength: 1 },
+        pageSize: { type: 'integer', minimum: 1 },
+        firstPage: { type: 'integer', minimum: 0 },
+        nextCursor: { type: 'string', minLength: 1 },
+        hasMore: { type: 'string', minLength: 1 },
+        threshold: { type: 'number', minimum: 0 },
+      },
+    },
+    VariantDefinition: {
+      type: 'object',
+      properties: {
+        props: { type: 'object' },
+        style: { type: 'object' },
+      },
+    },
+    ThemeDefinition: {
+      type: 'object',
+      properties: {
+        tokens: { $ref: '#/definitions/ThemeTokens' },
+        light: { $ref: '#/definitions/ThemeTokens' },
+        dark: { $ref: '#/definitions/ThemeTokens' },
+        styles: { type: 'object', additionalProperties: { type: 'object' } },
+      },
+    },
+    ThemeTokens: {
+      type: 'object',
+      additionalProperties: { type: 'object' },
+    },
+    LanguageOption: {
+      type: 'object',
+      required: ['code', 'name'],
+      properties: {
+        code: { type: 'string', minLength: 1 },
+        name: { type: 'string', minLength: 1 },
+        direction: { type: 'string', enum: ['ltr', 'rtl'] },
+        fontFamily: { type: 'string', minLength: 1 },
+        ready: { type: 'boolean' },
+      },
+    },
+    RetryConfig: {
+      type: 'object',
+      properties: {
+        maxAttempts: { type: 'integer', minimum: 1 },
+        delay: { type: 'number', minimum: 0 },
+        backoff: { type: 'string', enum: ['linear', 'exponential'] },
+      },
+    },
+    AnalyticsConfig: {
+      type: 'object',
+      properties: {
+        event: { type: 'string' },
+        properties: { type: 'object' },
+        trackPerformance: { type: 'boolean' },
+      },
+    },
+  },
+};
+
+const screenConfigValidator = new SchemaValidator(SCREEN_CONFIG_SCHEMA);
+
+// Fragments arrive on their own and are validated like the components that reference them
+const fragmentValidator = new SchemaValidator({
+  $ref: '#/definitions/ComponentDefinition',
+  definitions: SCREEN_CONFIG_SCHEMA.definitions,
+});
+
+/**
+ * Error reported through ConfigClient.onError when a config fails validation
+ */
+export class ConfigValidationError extends Error {
+  screen: string;
+  issues: SchemaValidationIssue[];
+
+  constructor(screen: string, issues: SchemaValidationIssue[]) {
+    super(`Invalid config for ${screen}: ${formatSchemaIssues(issues)}`);
+    this.name = 'ConfigValidationError';
+    this.screen = screen;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a screen configuration document
+ * @returns All schema issues - an empty array means the config is valid
+ */
+export const validateScreenConfigSchema = (config: any): SchemaValidationIssue[] =>
+  screenConfigValidator.validate(config);
+
+/**
+ * Validate a shared fragment; issue paths start with the fragment name
+ */
+export const validateFragmentSchema = (name: string, fragment: any): SchemaValidationIssue[] =>
+  fragmentValidator.validate(fragment, name);
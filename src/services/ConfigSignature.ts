@@ -0,0 +1,160 @@
+/**
+ * Configuration Signature Verification
+ * Verifies detached Ed25519 signatures on server-pushed screen configurations
+ * so that only configs signed by a pinned key can drive the UI
+ * @author Labor2Hire Team
+ */
+
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8 } from 'tweetnacl-util';
+import { canonicalJson } from '../utils/ConfigHash';
+import { parseConfigKey } from '../utils/ScreenConfigKey';
+
+/**
+ * Detached signature sent alongside a screen configuration
+ * `value` is the base64 Ed25519 signature over the canonical JSON of
+ * `{ screen, language, params, config }`, taken from the config key the config is stored under
+ * (`JobDetails@hi?jobId=42`), so a config cannot be replayed onto another screen, language or params
+ */
+export interface ConfigSignature {
+  keyId: string;
+  algorithm?: 'ed25519';
+  value: string;
+}
+
+/**
+ * Pinned public key trusted to sign configurations
+ * Several keys may be active at once to allow rotation: ship the new key,
+ * switch the server over, then let the old one expire
+ */
+export interface ConfigSigningKey {
+  keyId: string;
+  publicKey: string;
+  expiresAt?: string;
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Error reported through ConfigClient.onError when a signature is rejected
+ */
+export class ConfigSignatureError extends Error {
+  screen: string;
+  reason: string;
+
+  constructor(screen: string, reason: string) {
+    super(`Rejected config for ${screen}: ${reason}`);
+    this.name = 'ConfigSignatureError';
+    this.screen = screen;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Build the exact bytes covered by a config signature
+ * `params` is the canonical query string of the key (`jobId=42`), empty without params,
+ * and `language` is null for keys without one
+ */
+export const getSignedConfigPayload = (configKey: string, config: any): Uint8Array => {
+  const { screen, language, params } = parseConfigKey(configKey);
+  return decodeUTF8(canonicalJson({ screen, language, params, config }));
+};
+
+const decodeKeyMaterial = (value: string, expectedLength: number): Uint8Array | null => {
+  try {
+    const bytes = decodeBase64(value);
+    return bytes.length === expectedLength ? bytes : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build the exact bytes covered by a translation bundle signature
+ * Bundles are signed like configs because `$t` text can end up in action payloads such as URLs
+ */
+export const getSignedTranslationsPayload = (language: string, translations: Record<string, any>): Uint8Array =>
+  decodeUTF8(canonicalJson({ language, translations }));
+
+/**
+ * Build the exact bytes covered by a fragment signature
+ * Each fragment is signed on its own so one can change without resending the rest; a removal signs `null`
+ */
+export const getSignedFragmentPayload = (name: string, fragment: any): Uint8Array =>
+  decodeUTF8(canonicalJson({ fragment: name, definition: fragment ?? null }));
+
+/**
+ * Verify a detached signature over the given bytes against the pinned keys
+ */
+const verifyDetachedSignature = (
+  payload: Uint8Array,
+  signature: ConfigSignature | null | undefined,
+  trustedKeys: ConfigSigningKey[],
+  now: number
+): SignatureVerificationResult => {
+  if (!signature || !signature.keyId || !signature.value) {
+    return { valid: false, reason: 'missing signature' };
+  }
+
+  if (signature.algorithm && signature.algorithm !== 'ed25519') {
+    return { valid: false, reason: `unsupported algorithm ${signature.algorithm}` };
+  }
+
+  const key = trustedKeys.find(candidate => candidate.keyId === signature.keyId);
+  if (!key) {
+    return { valid: false, reason: `unknown signing key ${signature.keyId}` };
+  }
+
+  if (key.expiresAt && Date.parse(key.expiresAt) <= now) {
+    return { valid: false, reason: `signing key ${signature.keyId} has expired` };
+  }
+
+  const publicKey = decodeKeyMaterial(key.publicKey, nacl.sign.publicKeyLength);
+  const signatureBytes = decodeKeyMaterial(signature.value, nacl.sign.signatureLength);
+  if (!publicKey || !signatureBytes) {
+    return { valid: false, reason: 'malformed key or signature' };
+  }
+
+  const valid = nacl.sign.detached.verify(payload, signatureBytes, publicKey);
+  return valid ? { valid: true } : { valid: false, reason: 'signature does not match' };
+};
+
+/**
+ * Verify the signature of a screen configuration against the pinned keys
+ * @param configKey - Key the config is stored under, e.g. `JobDetails@hi?jobId=42`
+ */
+export const verifyConfigSignature = (
+  configKey: string,
+  config: any,
+  signature: ConfigSignature | null | undefined,
+  trustedKeys: ConfigSigningKey[],
+  now: number = Date.now()
+): SignatureVerificationResult =>
+  verifyDetachedSignature(getSignedConfigPayload(configKey, config), signature, trustedKeys, now);
+
+/**
+ * Verify the signature of a language's translation bundle against the pinned keys
+ */
+export const verifyTranslationsSignature = (
+  language: string,
+  translations: Record<string, any>,
+  signature: ConfigSignature | null | undefined,
+  trustedKeys: ConfigSigningKey[],
+  now: number = Date.now()
+): SignatureVerificationResult =>
+  verifyDetachedSignature(getSignedTranslationsPayload(language, translations), signature, trustedKeys, now);
+
+/**
+ * Verify the signature of a shared fragment, or of its removal, against the pinned keys
+ */
+export const verifyFragmentSignature = (
+  name: string,
+  fragment: any,
+  signature: ConfigSignature | null | undefined,
+  trustedKeys: ConfigSigningKey[],
+  now: number = Date.now()
+): SignatureVerificationResult =>
+  verifyDetachedSignature(getSignedFragmentPayload(name, fragment), signature, trustedKeys, now);
@@ -0,0 +1,52 @@
+/**
+ * Auth Provider Contract
+ * Single interface for OTP login and token lifecycle, implemented over HTTP
+ * for the app and in-process for tests
+ * @author Labor2Hire Team
+ */
+
+export interface OtpRequestResult {
+  // Epoch milliseconds after which the sent OTP can no longer be verified
+  expiresAt: number | null;
+  // Epoch milliseconds before which a resend will be rejected
+  resendAvailableAt: number | null;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds at which the access token expires
+  expiresAt: number;
+  userId: string;
+}
+
+export interface AuthProvider {
+  requestOtp(phone: string): Promise<OtpRequestResult>;
+  verifyOtp(phone: string, otp: string): Promise<AuthTokens>;
+  resendOtp(phone: string): Promise<OtpRequestResult>;
+  refresh(refreshToken: string): Promise<AuthTokens>;
+  logout(refreshToken?: string): Promise<void>;
+}
+
+export type AuthErrorCode =
+  | 'invalid_phone'
+  | 'invalid_otp'
+  | 'otp_expired'
+  | 'otp_not_requested'
+  | 'resend_too_soon'
+  | 'invalid_refresh_token'
+  | 'network'
+  | 'server';
+
+/**
+ * Error thrown by auth providers, with a machine-readable code
+ */
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
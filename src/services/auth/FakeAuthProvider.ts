@@ -0,0 +1,109 @@
+/**
+ * Fake Auth Provider
+ * In-process AuthProvider for tests and offline development
+ * OTPs are kept in memory and can be read back with getLastOtp
+ * @author Labor2Hire Team
+ */
+
+import { AuthError, AuthProvider, AuthTokens, OtpRequestResult } from './AuthProvider';
+
+export interface FakeAuthProviderOptions {
+  // Fixed OTP to issue instead of a random one
+  otpCode?: string;
+  otpTtlMs?: number;
+  resendCooldownMs?: number;
+  tokenTtlMs?: number;
+  now?: () => number;
+}
+
+export class FakeAuthProvider implements AuthProvider {
+  private options: Required<Omit<FakeAuthProviderOptions, 'otpCode'>> & { otpCode?: string };
+  private pendingOtps = new Map<string, { otp: string; expiresAt: number; resendAvailableAt: number }>();
+  private refreshTokens = new Map<string, string>();
+  private tokenCounter = 0;
+
+  constructor(options: FakeAuthProviderOptions = {}) {
+    this.options = {
+      otpTtlMs: 5 * 60 * 1000,
+      resendCooldownMs: 0,
+      tokenTtlMs: 15 * 60 * 1000,
+      now: Date.now,
+      ...options,
+    };
+  }
+
+  async requestOtp(phone: string): Promise<OtpRequestResult> {
+    if (!/^\+?[\d\s-()]{10,}$/.test(phone.trim())) {
+      throw new AuthError('invalid_phone', 'Invalid phone number format');
+    }
+
+    const now = this.options.now();
+    const otp = this.options.otpCode || Math.floor(100000 + Math.random() * 900000).toString();
+    const entry = {
+      otp,
+      expiresAt: now + this.options.otpTtlMs,
+      resendAvailableAt: now + this.options.resendCooldownMs,
+    };
+    this.pendingOtps.set(phone, entry);
+
+    return { expiresAt: entry.expiresAt, resendAvailableAt: entry.resendAvailableAt };
+  }
+
+  async verifyOtp(phone: string, otp: string): Promise<AuthTokens> {
+    const entry = this.pendingOtps.get(phone);
+    if (!entry) {
+      throw new AuthError('otp_not_requested', 'No OTP found. Please request a new OTP.');
+    }
+    if (this.options.now() > entry.expiresAt) {
+      throw new AuthError('otp_expired', 'OTP has expired. Please request a new OTP.');
+    }
+    if (otp.trim() !== entry.otp) {
+      throw new AuthError('invalid_otp', 'Invalid OTP code');
+    }
+
+    this.pendingOtps.delete(phone);
+    return this.issueTokens(`user-${phone.replace(/\D/g, '')}`);
+  }
+
+  async resendOtp(phone: string): Promise<OtpRequestResult> {
+    const entry = this.pendingOtps.get(phone);
+    if (entry && this.options.now() < entry.resendAvailableAt) {
+      throw new AuthError('resend_too_soon', 'Please wait before requesting another OTP');
+    }
+    return this.requestOtp(phone);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const userId = this.refreshTokens.get(refreshToken);
+    if (!userId) {
+      throw new AuthError('invalid_refresh_token', 'Refresh token is not valid');
+    }
+
+    this.refreshTokens.delete(refreshToken);
+    return this.issueTokens(userId);
+  }
+
+  async logout(refreshToken?: string): Promise<void> {
+    if (refreshToken) {
+      this.refreshTokens.delete(refreshToken);
+    }
+  }
+
+  // Test helper: the OTP most recently issued for a phone number
+  getLastOtp(phone: string): string | undefined {
+    return this.pendingOtps.get(phone)?.otp;
+  }
+
+  private issueTokens(userId: string): AuthTokens {
+    this.tokenCounter++;
+    const refreshToken = `fake-refresh-${this.tokenCounter}`;
+    this.refreshTokens.set(refreshToken, userId);
+
+    return {
+      accessToken: `fake-access-${this.tokenCounter}`,
+      refreshToken,
+      expiresAt: this.options.now() + this.options.tokenTtlMs,
+      userId,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * HTTP Auth Provider
+ * Talks to the backend OTP and token endpoints
+ * @author Labor2Hire Team
+ */
+
+import { API_TIMEOUT_MS } from '../../constants/ApiConfig';
+import { AuthError, AuthErrorCode, AuthProvider, AuthTokens, OtpRequestResult } from './AuthProvider';
+
+export interface HttpAuthProviderOptions {
+  baseUrl: string;
+  timeout?: number;
+}
+
+const KNOWN_ERROR_CODES: AuthErrorCode[] = [
+  'invalid_phone',
+  'invalid_otp',
+  'otp_expired',
+  'otp_not_requested',
+  'resend_too_soon',
+  'invalid_refresh_token',
+];
+
+export class HttpAuthProvider implements AuthProvider {
+  private options: Required<HttpAuthProviderOptions>;
+
+  constructor(options: HttpAuthProviderOptions) {
+    this.options = {
+      timeout: API_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  async requestOtp(phone: string): Promise<OtpRequestResult> {
+    return this.toOtpResult(await this.post('/otp/request', { phone }));
+  }
+
+  async verifyOtp(phone: string, otp: string): Promise<AuthTokens> {
+    return this.toTokens(await this.post('/otp/verify', { phone, otp }));
+  }
+
+  async resendOtp(phone: string): Promise<OtpRequestResult> {
+    return this.toOtpResult(await this.post('/otp/resend', { phone }));
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    return this.toTokens(await this.post('/token/refresh', { refreshToken }));
+  }
+
+  async logout(refreshToken?: string): Promise<void> {
+    await this.post('/logout', { refreshToken });
+  }
+
+  private async post(path: string, body: Record<string, any>): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new AuthError('network', `Auth request failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const code = KNOWN_ERROR_CODES.includes(data?.code) ? data.code : 'server';
+      throw new AuthError(code, data?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return data;
+  }
+
+  private toOtpResult(data: any): OtpRequestResult {
+    const now = Date.now();
+    return {
+      expiresAt: typeof data?.expiresIn === 'number' ? now + data.expiresIn * 1000 : null,
+      resendAvailableAt: typeof data?.resendAfter === 'number' ? now + data.resendAfter * 1000 : null,
+    };
+  }
+
+  private toTokens(data: any): AuthTokens {
+    if (!data?.accessToken || !data?.refreshToken || !data?.userId) {
+      throw new AuthError('server', 'Auth response is missing tokens');
+    }
+
+    return {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      expiresAt: Date.now() + (Number(data.expiresIn) || 0) * 1000,
+      userId: String(data.userId),
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Auth Service
+ * Holds the AuthProvider used by the auth slice
+ * @author Labor2Hire Team
+ */
+
+import { AUTH_API_URL } from '../../constants/ApiConfig';
+import { AuthProvider } from './AuthProvider';
+import { HttpAuthProvider } from './HttpAuthProvider';
+
+let authProvider: AuthProvider = new HttpAuthProvider({ baseUrl: AUTH_API_URL });
+
+export const getAuthProvider = (): AuthProvider => authProvider;
+
+// Swap the provider, e.g. for a FakeAuthProvider in tests
+export const setAuthProvider = (provider: AuthProvider): void => {
+  authProvider = provider;
+};
+
+export * from './AuthProvider';
+export { HttpAuthProvider } from './HttpAuthProvider';
+export { FakeAuthProvider } from './FakeAuthProvider';
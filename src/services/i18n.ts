@@ -0,0 +1,77 @@
+/**
+ * Internationalization Service
+ * i18next instance for text in screen configs
+ * Translation bundles arrive per language over ConfigClient and are added here;
+ * keys missing from the current language fall back to English
+ * @author Labor2Hire Team
+ */
+
+import i18next, { TOptions } from 'i18next';
+import { initReactI18next } from 'react-i18next';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Translation reference in a screen config: `{ "$t": "jobs.count", "params": { "count": 3 } }`
+export interface TranslationReference {
+  $t: string;
+  params?: Record<string, any>;
+  default?: string;
+}
+
+const i18n = i18next.createInstance();
+
+i18n.use(initReactI18next).init({
+  lng: DEFAULT_LANGUAGE,
+  fallbackLng: DEFAULT_LANGUAGE,
+  resources: {},
+  initAsync: false,
+  returnNull: false,
+  interpolation: {
+    // React Native renders text, so there is no markup to escape
+    escapeValue: false,
+  },
+  react: {
+    useSuspense: false,
+    // Re-render translated components when a bundle arrives, not only on language changes
+    bindI18nStore: 'added',
+  },
+});
+
+/**
+ * Add or replace the translations of a language
+ */
+export const addTranslations = (language: string, translations: Record<string, any>): void => {
+  i18n.addResourceBundle(language, 'translation', translations, true, true);
+};
+
+/**
+ * Switch the language used for translations
+ */
+export const setTranslationLanguage = async (language: string): Promise<void> => {
+  if (i18n.language !== language) {
+    await i18n.changeLanguage(language);
+  }
+};
+
+/**
+ * Translate a key with interpolation and plural params, e.g. `{ count: 3 }`
+ */
+export const translate = (key: string, params?: TOptions): string => i18n.t(key, params);
+
+/**
+ * Locale of a language in the device's region, e.g. 'hi-IN'; the language code when the region is unknown
+ */
+export const getLocale = (language: string): string => {
+  let region: string | undefined;
+  try {
+    region = Intl.DateTimeFormat().resolvedOptions().locale.split('-').slice(1).find(part => /^[A-Z]{2}$/.test(part));
+  } catch (error) {
+    console.warn('Failed to read the device region:', error);
+  }
+  return region ? `${language}-${region}` : language;
+};
+
+export const isTranslationReference = (value: any): value is TranslationReference =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.$t === 'string';
+
+export default i18n;
@@ -10,18 +10,31 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { combineReducers } from 'redux';
 import remoteConfigReducer from '../features/remoteConfig/remoteConfigSlice';
 import languageReducer from '../features/language/languageSlice';
+import screenStateReducer from '../features/screenState/screenStateSlice';
+import formsReducer from '../features/forms/formsSlice';
+import authReducer from '../features/auth/authSlice';
+import sessionReducer from '../features/session/sessionSlice';
+import navigationReducer from '../features/navigation/navigationSlice';
+import userReducer from '../features/user/userSlice';
 
 // Configure Redux Persist
 const persistConfig = {
   key: 'root',
   storage: AsyncStorage,
-  whitelist: ['remoteConfig'], // What reducers to persist
+  // What reducers to persist; screen configs are cached by ConfigClient, which re-verifies their signatures on load
+  whitelist: ['session', 'user'],
 };
 
 // Root reducer
 const rootReducer = combineReducers({
   remoteConfig: remoteConfigReducer,
   language: languageReducer,
+  screenState: screenStateReducer,
+  forms: formsReducer,
+  auth: authReducer,
+  session: sessionReducer,
+  navigation: navigationReducer,
+  user: userReducer,
   // Add other reducers here
 });
 
@@ -0,0 +1,62 @@
+/**
+ * Binding Utilities
+ * Normalizes `bind` definitions and applies input transforms for two-way
+ * bound components (TextInput, Switch, Picker)
+ * @author Labor2Hire Team
+ */
+
+export type InputTransform = 'trim' | 'digits' | 'uppercase';
+
+export interface BindingDefinition {
+    path: string;
+    transforms?: InputTransform[];
+    maxLength?: number;
+}
+
+export const INPUT_TRANSFORMS: InputTransform[] = ['trim', 'digits', 'uppercase'];
+
+/**
+ * Normalize a `bind` value to a binding definition with a `state.`-rooted path
+ * `"auth.phoneNumber"` -> `{ path: 'state.auth.phoneNumber' }`
+ */
+export const normalizeBinding = (bind?: string | BindingDefinition): BindingDefinition | null => {
+    const binding = typeof bind === 'string' ? { path: bind } : bind;
+    if (!binding?.path) return null;
+
+    const path = binding.path === 'state' || binding.path.startsWith('state.') || binding.path.startsWith('state[')
+        ? binding.path
+        : `state.${binding.path}`;
+
+    return { ...binding, path };
+};
+
+/**
+ * Apply a binding's transforms and max length to an incoming input value
+ * Non-string values (Switch booleans, Picker values) pass through unchanged
+ */
+export const applyInputTransforms = (value: any, binding: BindingDefinition): any => {
+    if (typeof value !== 'string') return value;
+
+    let result = value;
+    (binding.transforms || []).forEach(transform => {
+        switch (transform) {
+            case 'trim':
+                result = result.trim();
+                break;
+            case 'digits':
+                result = result.replace(/\D/g, '');
+                break;
+            case 'uppercase':
+                result = result.toUpperCase();
+                break;
+            default:
+                console.warn(`⚠️ Unknown input transform: ${transform}`);
+        }
+    });
+
+    if (typeof binding.maxLength === 'number' && binding.maxLength >= 0) {
+        result = result.slice(0, binding.maxLength);
+    }
+
+    return result;
+};
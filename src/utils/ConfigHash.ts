@@ -0,0 +1,35 @@
+/**
+ * Configuration Hashing Utilities
+ * Produces stable version hashes for configuration documents
+ * The server computes the same SHA-256 over the same canonical JSON form
+ * @author Labor2Hire Team
+ */
+
+import { sha256 } from 'js-sha256';
+
+/**
+ * Serialize a value as canonical JSON
+ * Object keys are sorted so that key order never changes the result
+ */
+export const canonicalJson = (value: any): string => {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+    }
+
+    const entries = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+
+    return `{${entries.join(',')}}`;
+};
+
+/**
+ * Compute the version hash of a configuration document
+ * @returns Lowercase hex SHA-256 of the canonical JSON
+ */
+export const computeConfigHash = (config: any): string => sha256(canonicalJson(config));
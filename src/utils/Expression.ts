@@ -0,0 +1,330 @@
+/**
+ * Expression Utilities
+ * A small sandboxed expression language for templates and conditions, parsed without `eval`:
+ * `state.auth.phoneNumber.length == 10 && !state.auth.isLoading`, `job.wage * days`,
+ * `item.skills.includes('welding') ? 'Welder' : 'Helper'`, `form.signup.values.pin == form.signup.values.confirmPin`
+ * Names are looked up through a resolver, and only plain data can be read - no globals, prototypes or
+ * arbitrary function calls
+ * @author Labor2Hire Team
+ */
+
+export type ExpressionNode =
+    | { type: 'literal'; value: any }
+    | { type: 'identifier'; name: string }
+    | { type: 'array'; elements: ExpressionNode[] }
+    | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+    | { type: 'call'; object: ExpressionNode; method: string; args: ExpressionNode[] }
+    | { type: 'unary'; operator: string; argument: ExpressionNode }
+    | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+/**
+ * Resolves a top-level name such as `state` or `item` to its value
+ */
+export type ExpressionResolver = (name: string) => any;
+
+/**
+ * Error raised when an expression cannot be parsed
+ */
+export class ExpressionError extends Error {
+    position?: number;
+
+    constructor(message: string, position?: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+type Token =
+    | { type: 'number' | 'string'; value: any; position: number }
+    | { type: 'name' | 'punctuator'; value: string; position: number };
+
+const PUNCTUATORS = [
+    '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+    '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+];
+
+const LITERALS: Record<string, any> = { true: true, false: false, null: null, undefined };
+
+// Binary operators from the loosest to the tightest binding
+const BINARY_PRECEDENCE: string[][] = [
+    ['||', '??'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+// String and array methods expressions may call; everything else is out of reach
+const ALLOWED_METHODS = new Set(['includes', 'startsWith', 'endsWith', 'indexOf', 'join', 'trim', 'toLowerCase', 'toUpperCase']);
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const char = source[index];
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        // After a `.` digits are an index, as in the path `items.0.name`
+        const previous = tokens[tokens.length - 1];
+        const number = previous?.value === '.' && previous.type === 'punctuator'
+            ? source.slice(index).match(/^\d+/)
+            : source.slice(index).match(/^(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?/);
+        if (number && !(char === '.' && previous && isOperand(previous))) {
+            tokens.push({ type: 'number', value: Number(number[0]), position: index });
+            index += number[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let value = '';
+            let end = index + 1;
+            while (end < source.length && source[end] !== char) {
+                value += source[end] === '\\' ? source[++end] : source[end];
+                end++;
+            }
+            if (end >= source.length) {
+                throw new ExpressionError(`Unterminated string in "${source}"`, index);
+            }
+            tokens.push({ type: 'string', value, position: index });
+            index = end + 1;
+            continue;
+        }
+
+        const name = source.slice(index).match(/^[A-Za-z_$][\w$]*/);
+        if (name) {
+            tokens.push({ type: 'name', value: name[0], position: index });
+            index += name[0].length;
+            continue;
+        }
+
+        const punctuator = PUNCTUATORS.find(candidate => source.startsWith(candidate, index));
+        if (!punctuator) {
+            throw new ExpressionError(`Unexpected character "${char}" in "${source}"`, index);
+        }
+        tokens.push({ type: 'punctuator', value: punctuator, position: index });
+        index += punctuator.length;
+    }
+
+    return tokens;
+};
+
+// Whether a token ends an operand, so a following `.5` is member access rather than a number
+const isOperand = (token: Token): boolean =>
+    token.type !== 'punctuator' || token.value === ')' || token.value === ']';
+
+/**
+ * Parse an expression into a tree that `evaluateExpression` can run repeatedly
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+    const tokens = tokenize(source);
+    let position = 0;
+
+    const peek = (value?: string): boolean => {
+        const token = tokens[position];
+        return !!token && token.type === 'punctuator' && (value === undefined || token.value === value);
+    };
+
+    const fail = (message: string): never => {
+        throw new ExpressionError(`${message} in "${source}"`, tokens[position]?.position ?? source.length);
+    };
+
+    const expect = (value: string) => {
+        if (!peek(value)) fail(`Expected "${value}"`);
+        position++;
+    };
+
+    const parseList = (close: string): ExpressionNode[] => {
+        const items: ExpressionNode[] = [];
+        while (!peek(close)) {
+            items.push(parseConditional());
+            if (!peek(close)) expect(',');
+        }
+        expect(close);
+        return items;
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[position++];
+        if (!token) return fail('Unexpected end of expression');
+
+        if (token.type === 'number' || token.type === 'string') {
+            return { type: 'literal', value: token.value };
+        }
+        if (token.type === 'name') {
+            return token.value in LITERALS
+                ? { type: 'literal', value: LITERALS[token.value] }
+                : { type: 'identifier', name: token.value };
+        }
+        if (token.value === '(') {
+            const inner = parseConditional();
+            expect(')');
+            return inner;
+        }
+        if (token.value === '[') {
+            return { type: 'array', elements: parseList(']') };
+        }
+
+        position--;
+        return fail(`Unexpected "${token.value}"`);
+    };
+
+    const parsePostfix = (): ExpressionNode => {
+        let node = parsePrimary();
+
+        while (peek('.') || peek('[') || peek('(')) {
+            const token = tokens[position++];
+            if (token.value === '.') {
+                const property = tokens[position++];
+                if (!property || (property.type !== 'name' && property.type !== 'number')) {
+                    return fail('Expected a property name');
+                }
+                node = { type: 'member', object: node, property: { type: 'literal', value: property.value } };
+            } else if (token.value === '[') {
+                const property = parseConditional();
+                expect(']');
+                node = { type: 'member', object: node, property };
+            } else {
+                if (node.type !== 'member' || node.property.type !== 'literal' || !ALLOWED_METHODS.has(node.property.value)) {
+                    position--;
+                    return fail('Only string and array methods can be called');
+                }
+                node = { type: 'call', object: node.object, method: node.property.value, args: parseList(')') };
+            }
+        }
+
+        return node;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (peek('!') || peek('-') || peek('+')) {
+            const operator = tokens[position++].value;
+            return { type: 'unary', operator, argument: parseUnary() };
+        }
+        return parsePostfix();
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level === BINARY_PRECEDENCE.length) return parseUnary();
+
+        let node = parseBinary(level + 1);
+        while (BINARY_PRECEDENCE[level].some(operator => peek(operator))) {
+            const operator = tokens[position++].value;
+            node = { type: 'binary', operator, left: node, right: parseBinary(level + 1) };
+        }
+        return node;
+    };
+
+    const parseConditional = (): ExpressionNode => {
+        const test = parseBinary(0);
+        if (!peek('?')) return test;
+
+        position++;
+        const consequent = parseConditional();
+        expect(':');
+        return { type: 'conditional', test, consequent, alternate: parseConditional() };
+    };
+
+    const tree = parseConditional();
+    if (position < tokens.length) fail(`Unexpected "${tokens[position].value}"`);
+    return tree;
+};
+
+const readProperty = (object: any, property: any): any => {
+    if (object === null || object === undefined || BLOCKED_PROPERTIES.has(String(property))) {
+        return undefined;
+    }
+    if (typeof object === 'string') {
+        return property === 'length' ? object.length : object[Number(property)];
+    }
+    if (typeof object !== 'object' || !Object.prototype.hasOwnProperty.call(object, property)) {
+        return undefined;
+    }
+
+    const value = object[property];
+    return typeof value === 'function' ? undefined : value;
+};
+
+const callMethod = (object: any, method: string, args: any[]): any => {
+    if (typeof object !== 'string' && !Array.isArray(object)) return undefined;
+
+    const fn = (object as any)[method];
+    return typeof fn === 'function' ? fn.apply(object, args) : undefined;
+};
+
+const applyBinary = (operator: string, left: any, right: any): any => {
+    switch (operator) {
+        // Equality is always strict so `"10" == 10` is false, as a config author reading JSON would expect
+        case '==':
+        case '===':
+            return left === right;
+        case '!=':
+        case '!==':
+            return left !== right;
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        case '>':
+            return left > right;
+        case '>=':
+            return left >= right;
+        case '+':
+            return left + right;
+        case '-':
+            return left - right;
+        case '*':
+            return left * right;
+        case '/':
+            return left / right;
+        case '%':
+            return left % right;
+        default:
+            throw new ExpressionError(`Unknown operator "${operator}"`);
+    }
+};
+
+/**
+ * Evaluate a parsed expression; missing values read as undefined instead of throwing
+ */
+export const evaluateExpression = (node: ExpressionNode, resolve: ExpressionResolver): any => {
+    const evaluate = (current: ExpressionNode): any => {
+        switch (current.type) {
+            case 'literal':
+                return current.value;
+            case 'identifier':
+                return resolve(current.name);
+            case 'array':
+                return current.elements.map(evaluate);
+            case 'member':
+                return readProperty(evaluate(current.object), evaluate(current.property));
+            case 'call':
+                return callMethod(evaluate(current.object), current.method, current.args.map(evaluate));
+            case 'unary': {
+                const argument = evaluate(current.argument);
+                if (current.operator === '!') return !argument;
+                return current.operator === '-' ? -argument : +argument;
+            }
+            case 'binary': {
+                const left = evaluate(current.left);
+                if (current.operator === '&&') return left && evaluate(current.right);
+                if (current.operator === '||') return left || evaluate(current.right);
+                if (current.operator === '??') return left ?? evaluate(current.right);
+                return applyBinary(current.operator, left, evaluate(current.right));
+            }
+            case 'conditional':
+                return evaluate(current.test) ? evaluate(current.consequent) : evaluate(current.alternate);
+        }
+    };
+
+    return evaluate(node);
+};
@@ -0,0 +1,121 @@
+/**
+ * Form Validation Utilities
+ * Evaluates ComponentDefinition.validation rules and collects the bound
+ * fields of a `Form` container
+ * @author Labor2Hire Team
+ */
+
+import type { ComponentDefinition, ValidationRules } from '../components/common/DynamicRenderer';
+import { normalizeBinding } from './Binding';
+import { parsePath } from './StatePath';
+
+export interface FormField {
+    name: string;
+    path: string;
+    rules: ValidationRules;
+}
+
+const TYPE_PATTERNS: Record<string, RegExp> = {
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    phone: /^\d{10}$/,
+    number: /^-?\d+(\.\d+)?$/,
+    digits: /^\d+$/,
+};
+
+const isEmpty = (value: any): boolean =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+
+/**
+ * Validate a value against a set of rules, returning every failed rule's message
+ * A `message` in the rules replaces the generated messages
+ */
+export const validateValue = (value: any, rules: ValidationRules, field = 'Field'): string[] => {
+    const errors: string[] = [];
+    const text = value === undefined || value === null ? '' : String(value);
+
+    if (rules.required && isEmpty(value)) {
+        errors.push(`${field} is required`);
+    }
+
+    if (!isEmpty(value)) {
+        if (rules.minLength && text.length < rules.minLength) {
+            errors.push(`${field} must be at least ${rules.minLength} characters`);
+        }
+
+        if (rules.maxLength && text.length > rules.maxLength) {
+            errors.push(`${field} must be no more than ${rules.maxLength} characters`);
+        }
+
+        if (rules.type && TYPE_PATTERNS[rules.type] && !TYPE_PATTERNS[rules.type].test(text)) {
+            errors.push(`${field} must be a valid ${rules.type}`);
+        }
+
+        if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+            errors.push(`${field} format is invalid`);
+        }
+    }
+
+    if (rules.custom && typeof rules.custom === 'function') {
+        const customResult = rules.custom(value);
+        if (typeof customResult === 'string') {
+            errors.push(customResult);
+        } else if (!customResult) {
+            errors.push(`${field} is invalid`);
+        }
+    }
+
+    if (errors.length > 0 && rules.message) {
+        return [rules.message];
+    }
+
+    return errors;
+};
+
+/**
+ * Name used for a field's error entry: the component id, else the last segment of its bind path
+ */
+export const getFormFieldName = (component: ComponentDefinition): string | null => {
+    if (component.id) return component.id;
+
+    const binding = normalizeBinding(component.bind);
+    if (!binding) return null;
+
+    const segments = parsePath(binding.path);
+    return String(segments[segments.length - 1]);
+};
+
+/**
+ * Collect the bound, validated fields under a Form, without descending into nested Forms
+ */
+export const collectFormFields = (children: ComponentDefinition[] = [], fields: FormField[] = []): FormField[] => {
+    children.forEach(child => {
+        if (child.type === 'Form') return;
+
+        const binding = normalizeBinding(child.bind);
+        const name = getFormFieldName(child);
+        if (binding && child.validation && name) {
+            fields.push({ name, path: binding.path, rules: child.validation });
+        }
+
+        collectFormFields(child.children, fields);
+    });
+
+    return fields;
+};
+
+/**
+ * Validate every field of a form, returning the first error per invalid field
+ */
+export const validateFormFields = (fields: FormField[], getValue: (path: string) => any): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    fields.forEach(({ name, path, rules }) => {
+        const [error] = validateValue(getValue(path), rules, name);
+        if (error) {
+            errors[name] = error;
+        }
+    });
+
+    return errors;
+};
@@ -0,0 +1,216 @@
+/**
+ * Template Formatters
+ * Formatter pipes for `{{ }}` templates, applied left to right in the current locale:
+ * `{{job.wage | currency:'INR'}}`, `{{job.postedAt | relativeTime}}`, `{{count | number}}`, `{{name | uppercase}}`
+ * Arguments follow the formatter name after `:` and are quoted strings, numbers or booleans
+ * Apps add their own formatters with `registerFormatter`
+ * @author Labor2Hire Team
+ */
+
+import { translate } from '../services/i18n';
+
+export type Formatter = (value: any, locale: string, ...args: any[]) => any;
+
+export interface FormatterCall {
+    name: string;
+    args: any[];
+}
+
+export interface TemplateExpression {
+    expression: string;
+    pipes: FormatterCall[];
+}
+
+const formatters = new Map<string, Formatter>();
+const parsedExpressions = new Map<string, TemplateExpression>();
+
+/**
+ * Add or replace a formatter
+ */
+export const registerFormatter = (name: string, formatter: Formatter): void => {
+    formatters.set(name, formatter);
+};
+
+export const getFormatter = (name: string): Formatter | undefined => formatters.get(name);
+
+/**
+ * Split on a separator outside quoted strings; `||` is never a pipe
+ */
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (quote) {
+            if (char === quote && text[index - 1] !== '\\') quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator && (separator !== '|' || (text[index - 1] !== '|' && text[index + 1] !== '|'))) {
+            parts.push(text.slice(start, index));
+            start = index + 1;
+        }
+    }
+
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim());
+};
+
+const parseArgument = (arg: string): any => {
+    const quoted = arg.match(/^(['"])(.*)\1$/);
+    if (quoted) return quoted[2].replace(/\\(['"])/g, '$1');
+    if (arg === 'true' || arg === 'false') return arg === 'true';
+    if (arg === 'null') return null;
+    if (arg !== '' && !isNaN(Number(arg))) return Number(arg);
+    return arg;
+};
+
+/**
+ * Split a template into its value expression and formatter pipes
+ */
+export const parseTemplateExpression = (expression: string): TemplateExpression => {
+    const cached = parsedExpressions.get(expression);
+    if (cached) return cached;
+
+    const [value, ...pipes] = splitOutsideQuotes(expression, '|');
+    const parsed = {
+        expression: value,
+        pipes: pipes.filter(Boolean).map(pipe => {
+            const [name, ...args] = splitOutsideQuotes(pipe, ':');
+            return { name, args: args.map(parseArgument) };
+        }),
+    };
+
+    parsedExpressions.set(expression, parsed);
+    return parsed;
+};
+
+/**
+ * Run a value through formatter pipes; unknown formatters pass the value on with a warning
+ */
+export const applyFormatters = (value: any, pipes: FormatterCall[], locale: string): any =>
+    pipes.reduce((result, { name, args }) => {
+        const formatter = formatters.get(name);
+        if (!formatter) {
+            console.warn(`⚠️ Unknown template formatter: ${name}`);
+            return result;
+        }
+
+        try {
+            return formatter(result, locale, ...args);
+        } catch (error) {
+            console.warn(`⚠️ Formatter ${name} failed:`, error);
+            return result;
+        }
+    }, value);
+
+const isBlank = (value: any): boolean => value === undefined || value === null || value === '';
+
+const toNumber = (value: any): number | null => {
+    if (isBlank(value)) return null;
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+};
+
+const toDate = (value: any): Date | null => {
+    if (isBlank(value)) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['year', 365 * 24 * 60 * 60],
+    ['month', 30 * 24 * 60 * 60],
+    ['week', 7 * 24 * 60 * 60],
+    ['day', 24 * 60 * 60],
+    ['hour', 60 * 60],
+    ['minute', 60],
+    ['second', 1],
+];
+
+registerFormatter('number', (value, locale, maximumFractionDigits?: number) => {
+    const number = toNumber(value);
+    return number === null ? value : new Intl.NumberFormat(locale, { maximumFractionDigits }).format(number);
+});
+
+registerFormatter('currency', (value, locale, currency = 'INR', fractionDigits?: number) => {
+    const number = toNumber(value);
+    if (number === null) return value;
+
+    // Whole amounts such as wages are shown without decimals unless asked for
+    const digits = fractionDigits ?? (Number.isInteger(number) ? 0 : 2);
+    return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+    }).format(number);
+});
+
+registerFormatter('date', (value, locale, dateStyle: 'full' | 'long' | 'medium' | 'short' = 'medium') => {
+    const date = toDate(value);
+    return date ? new Intl.DateTimeFormat(locale, { dateStyle }).format(date) : value;
+});
+
+registerFormatter('time', (value, locale, timeStyle: 'full' | 'long' | 'medium' | 'short' = 'short') => {
+    const date = toDate(value);
+    return date ? new Intl.DateTimeFormat(locale, { timeStyle }).format(date) : value;
+});
+
+/**
+ * Relative time from translation bundles where `Intl.RelativeTimeFormat` is missing, as on older Hermes builds
+ * Keys are `time.relative.<unit>.past` and `time.relative.<unit>.future` with i18next plural forms,
+ * e.g. `"time.relative.day.past_other": "{{count}} दिन पहले"`
+ */
+const formatRelativeTimeFallback = (amount: number, unit: Intl.RelativeTimeFormatUnit, locale: string): string => {
+    const count = Math.abs(amount);
+    const direction = amount < 0 ? 'past' : 'future';
+    const [one, other] = direction === 'past'
+        ? [`{{count}} ${unit} ago`, `{{count}} ${unit}s ago`]
+        : [`in {{count}} ${unit}`, `in {{count}} ${unit}s`];
+
+    return translate(`time.relative.${unit}.${direction}`, {
+        lng: locale.split('-')[0],
+        count,
+        defaultValue_one: one,
+        defaultValue_other: other,
+    });
+};
+
+// `numeric: 'auto'` gives words like "yesterday" where the locale has them
+registerFormatter('relativeTime', (value, locale, numeric: 'always' | 'auto' = 'always') => {
+    const date = toDate(value);
+    if (!date) return value;
+
+    const seconds = (date.getTime() - Date.now()) / 1000;
+    const [unit, size] = RELATIVE_TIME_UNITS.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds)
+        || RELATIVE_TIME_UNITS[RELATIVE_TIME_UNITS.length - 1];
+    const amount = Math.round(seconds / size);
+
+    if (typeof Intl.RelativeTimeFormat !== 'function') {
+        return formatRelativeTimeFallback(amount, unit, locale);
+    }
+    return new Intl.RelativeTimeFormat(locale, { numeric }).format(amount, unit);
+});
+
+// Distances in meters, or in kilometers with `distance:'km'`
+registerFormatter('distance', (value, locale, inputUnit: 'm' | 'km' = 'm') => {
+    const number = toNumber(value);
+    if (number === null) return value;
+
+    const meters = inputUnit === 'km' ? number * 1000 : number;
+    const [amount, unit] = meters < 1000 ? [Math.round(meters), 'meter'] : [meters / 1000, 'kilometer'];
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit,
+        unitDisplay: 'short',
+        maximumFractionDigits: 1,
+    }).format(amount);
+});
+
+registerFormatter('uppercase', (value, locale) => (isBlank(value) ? value : String(value).toLocaleUpperCase(locale)));
+
+registerFormatter('lowercase', (value, locale) => (isBlank(value) ? value : String(value).toLocaleLowerCase(locale)));
+
+registerFormatter('default', (value, _locale, fallback = '') => (isBlank(value) ? fallback : value));
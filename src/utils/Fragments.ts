@@ -0,0 +1,75 @@
+/**
+ * Fragment Utilities
+ * Resolves `{ "$ref": "primaryButton", ...overrides }` references in screen configs
+ * against the shared fragments ConfigClient receives with `fragmentsUpdate`
+ * Overrides are deep-merged over the fragment: objects merge, everything else replaces
+ * @author Labor2Hire Team
+ */
+
+export type FragmentMap = Record<string, any>;
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Deep-merge overrides over a fragment without modifying either
+ */
+export const mergeFragment = (base: any, overrides: any): any => {
+    if (overrides === undefined) return base;
+    if (!isPlainObject(base) || !isPlainObject(overrides)) return overrides;
+
+    const result: Record<string, any> = { ...base };
+    Object.entries(overrides).forEach(([key, value]) => {
+        result[key] = mergeFragment(base[key], value);
+    });
+    return result;
+};
+
+/**
+ * Replace every fragment reference in a config tree, including references inside fragments
+ * Unknown and circular references are dropped with a warning
+ * Subtrees without references are returned as-is, so unchanged components keep their identity
+ */
+export const resolveFragments = (node: any, fragments?: FragmentMap, trail: string[] = []): any => {
+    if (Array.isArray(node)) {
+        let changed = false;
+        const resolved: any[] = [];
+        node.forEach(item => {
+            const next = resolveFragments(item, fragments, trail);
+            if (next !== item) changed = true;
+            if (next !== undefined) resolved.push(next);
+        });
+        return changed ? resolved : node;
+    }
+
+    if (!isPlainObject(node)) return node;
+
+    const ref = node.$ref;
+    if (typeof ref === 'string') {
+        const fragment = fragments?.[ref];
+        if (!fragment) {
+            console.warn(`⚠️ Unknown fragment: ${ref}`);
+            return undefined;
+        }
+        if (trail.includes(ref)) {
+            console.warn(`⚠️ Circular fragment reference: ${[...trail, ref].join(' -> ')}`);
+            return undefined;
+        }
+
+        const resolvedFragment = resolveFragments(fragment, fragments, [...trail, ref]);
+        if (resolvedFragment === undefined) return undefined;
+
+        const overrides = { ...node };
+        delete overrides.$ref;
+        return mergeFragment(resolvedFragment, resolveFragments(overrides, fragments, trail));
+    }
+
+    let changed = false;
+    const result: Record<string, any> = {};
+    Object.entries(node).forEach(([key, value]) => {
+        const next = resolveFragments(value, fragments, trail);
+        if (next !== value) changed = true;
+        result[key] = next;
+    });
+    return changed ? result : node;
+};
@@ -0,0 +1,214 @@
+/**
+ * JSON Patch Utilities
+ * Minimal RFC 6902 implementation used to apply delta screen config updates
+ * Patches are applied to a copy - the source document is never mutated
+ * @author Labor2Hire Team
+ */
+
+export type JsonPatchOperation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: any }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+/**
+ * Error raised when a patch cannot be applied to a document
+ */
+export class JsonPatchError extends Error {
+    operationIndex?: number;
+
+    constructor(message: string, operationIndex?: number) {
+        super(message);
+        this.name = 'JsonPatchError';
+        this.operationIndex = operationIndex;
+    }
+}
+
+const ARRAY_INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into its reference tokens
+ */
+export const parseJsonPointer = (pointer: string): string[] => {
+    if (pointer === '') return [];
+
+    if (!pointer.startsWith('/')) {
+        throw new JsonPatchError(`Invalid JSON pointer: "${pointer}"`);
+    }
+
+    return pointer
+        .substring(1)
+        .split('/')
+        .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const cloneJson = <T>(value: T): T =>
+    value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const isContainer = (value: any): boolean =>
+    value !== null && typeof value === 'object';
+
+const deepEqual = (a: any, b: any): boolean => {
+    if (a === b) return true;
+    if (!isContainer(a) || !isContainer(b)) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+
+    return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+};
+
+const toArrayIndex = (token: string, length: number, allowEnd: boolean): number => {
+    if (allowEnd && token === '-') return length;
+
+    if (!ARRAY_INDEX_PATTERN.test(token)) {
+        throw new JsonPatchError(`Invalid array index: "${token}"`);
+    }
+
+    const index = Number(token);
+    if (index > length || (!allowEnd && index === length)) {
+        throw new JsonPatchError(`Array index out of bounds: ${index}`);
+    }
+
+    return index;
+};
+
+/**
+ * Resolve the value referenced by a list of tokens
+ */
+const resolveTokens = (document: any, tokens: string[]): any => {
+    let current = document;
+
+    for (const token of tokens) {
+        if (Array.isArray(current)) {
+            current = current[toArrayIndex(token, current.length, false)];
+        } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+            current = current[token];
+        } else {
+            throw new JsonPatchError(`Path not found: "/${tokens.join('/')}"`);
+        }
+    }
+
+    return current;
+};
+
+const resolveParent = (document: any, tokens: string[]): any => {
+    const parent = resolveTokens(document, tokens.slice(0, -1));
+    if (!isContainer(parent)) {
+        throw new JsonPatchError(`Parent of "/${tokens.join('/')}" is not an object or array`);
+    }
+    return parent;
+};
+
+const addValue = (document: any, tokens: string[], value: any): any => {
+    if (tokens.length === 0) return value;
+
+    const parent = resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent.splice(toArrayIndex(key, parent.length, true), 0, value);
+    } else {
+        parent[key] = value;
+    }
+
+    return document;
+};
+
+const removeValue = (document: any, tokens: string[]): any => {
+    if (tokens.length === 0) {
+        throw new JsonPatchError('Cannot remove the document root');
+    }
+
+    const parent = resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent.splice(toArrayIndex(key, parent.length, false), 1);
+    } else if (Object.prototype.hasOwnProperty.call(parent, key)) {
+        delete parent[key];
+    } else {
+        throw new JsonPatchError(`Path not found: "/${tokens.join('/')}"`);
+    }
+
+    return document;
+};
+
+const replaceValue = (document: any, tokens: string[], value: any): any => {
+    if (tokens.length === 0) return value;
+
+    // Replace requires the target to exist
+    resolveTokens(document, tokens);
+
+    const parent = resolveParent(document, tokens);
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent[toArrayIndex(key, parent.length, false)] = value;
+    } else {
+        parent[key] = value;
+    }
+
+    return document;
+};
+
+/**
+ * Apply a list of RFC 6902 operations to a document
+ * @param document - Source document (left untouched)
+ * @param operations - Patch operations, applied in order
+ * @returns The patched copy of the document
+ * @throws JsonPatchError if any operation fails - the patch is all or nothing
+ */
+export const applyJsonPatch = <T = any>(document: T, operations: JsonPatchOperation[]): T => {
+    if (!Array.isArray(operations)) {
+        throw new JsonPatchError('Patch must be an array of operations');
+    }
+
+    let result: any = cloneJson(document);
+
+    operations.forEach((operation, index) => {
+        try {
+            const tokens = parseJsonPointer(operation.path);
+
+            switch (operation.op) {
+                case 'add':
+                    result = addValue(result, tokens, cloneJson(operation.value));
+                    break;
+                case 'remove':
+                    result = removeValue(result, tokens);
+                    break;
+                case 'replace':
+                    result = replaceValue(result, tokens, cloneJson(operation.value));
+                    break;
+                case 'move': {
+                    if (operation.path.startsWith(`${operation.from}/`)) {
+                        throw new JsonPatchError('Cannot move a value into one of its own children');
+                    }
+                    const fromTokens = parseJsonPointer(operation.from);
+                    const value = resolveTokens(result, fromTokens);
+                    result = removeValue(result, fromTokens);
+                    result = addValue(result, tokens, value);
+                    break;
+                }
+                case 'copy': {
+                    const value = resolveTokens(result, parseJsonPointer(operation.from));
+                    result = addValue(result, tokens, cloneJson(value));
+                    break;
+                }
+                case 'test':
+                    if (!deepEqual(resolveTokens(result, tokens), operation.value)) {
+                        throw new JsonPatchError(`Test failed at "${operation.path}"`);
+                    }
+                    break;
+                default:
+                    throw new JsonPatchError(`Unsupported patch operation: ${(operation as any).op}`);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new JsonPatchError(`Operation ${index} (${(operation as any)?.op}) failed: ${message}`, index);
+        }
+    });
+
+    return result;
+};
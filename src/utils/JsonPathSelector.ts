@@ -0,0 +1,76 @@
+/**
+ * JSONPath Selector Utilities
+ * Picks values out of API responses with a JSONPath subset:
+ * `$`, `.key`, `['key']`, `[0]` and the `*` / `[*]` wildcards
+ * e.g. `$.data.jobs[*].title`
+ * @author Labor2Hire Team
+ */
+
+type SelectorToken = string | number | '*';
+
+const TOKEN_PATTERN = /\.([A-Za-z_$][\w$]*|\*)|\[(\d+|\*)\]|\[(['"])(.*?)\3\]/y;
+
+const parseSelector = (selector: string): SelectorToken[] => {
+    const source = selector.trim().replace(/^\$/, '');
+    const tokens: SelectorToken[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) {
+            throw new Error(`Invalid JSONPath selector: ${selector} (at position ${start + 1})`);
+        }
+
+        const [, name, index, , quoted] = match;
+        if (name !== undefined) {
+            tokens.push(name);
+        } else if (index !== undefined) {
+            tokens.push(index === '*' ? '*' : Number(index));
+        } else {
+            tokens.push(quoted);
+        }
+    }
+
+    return tokens;
+};
+
+const childrenOf = (node: any): any[] => {
+    if (Array.isArray(node)) return node;
+    if (node !== null && typeof node === 'object') return Object.values(node);
+    return [];
+};
+
+/**
+ * Select a value from data; selectors with a wildcard return an array of every match
+ */
+export const selectJsonPath = (data: any, selector: string): any => {
+    const tokens = parseSelector(selector);
+    let nodes = [data];
+
+    tokens.forEach(token => {
+        nodes = token === '*'
+            ? nodes.flatMap(childrenOf)
+            : nodes
+                .filter(node => node !== null && node !== undefined)
+                .map(node => node[token])
+                .filter(value => value !== undefined);
+    });
+
+    return tokens.includes('*') ? nodes : nodes[0];
+};
+
+/**
+ * Map a response with a single selector, or build an object from a selector per key
+ */
+export const mapResponse = (data: any, select: string | Record<string, string>): any => {
+    if (typeof select === 'string') {
+        return selectJsonPath(data, select);
+    }
+
+    const result: Record<string, any> = {};
+    Object.entries(select).forEach(([key, selector]) => {
+        result[key] = selectJsonPath(data, selector);
+    });
+    return result;
+};
@@ -0,0 +1,189 @@
+/**
+ * List Data Source Utilities
+ * Normalizes the `dataSource` of config-driven FlatList/SectionList components:
+ * a screen state path (`"jobs"`, `"state.jobs"`), a static array, or an
+ * object that loads its items from an API endpoint into screen state,
+ * optionally one page at a time
+ * @author Labor2Hire Team
+ */
+
+import { normalizeBinding } from './Binding';
+import { selectJsonPath } from './JsonPathSelector';
+import { getValueAtPath, parsePath } from './StatePath';
+
+export interface ApiDataSource {
+    url: string;
+    method?: string;
+    data?: any;
+    headers?: Record<string, string>;
+    // JSONPath selector picking the items out of the response
+    select?: string;
+}
+
+export interface PaginationDefinition {
+    type: 'page' | 'cursor';
+    // Request parameters: sent in the query string of GET requests and in the body otherwise
+    pageParam?: string;
+    cursorParam?: string;
+    pageSizeParam?: string;
+    pageSize?: number;
+    firstPage?: number;
+    // JSONPath selectors for the next cursor and an explicit has-more flag in the response
+    nextCursor?: string;
+    hasMore?: string;
+    // onEndReachedThreshold of the list
+    threshold?: number;
+}
+
+export interface DataSourceDefinition {
+    // Screen state path holding the items; API responses are stored here
+    path?: string;
+    // Static rows, or a template such as "{{language.available}}" resolving to them
+    items?: any[] | string;
+    api?: ApiDataSource;
+    pagination?: PaginationDefinition;
+    loadingPath?: string;
+    errorPath?: string;
+    // Screen state path of the ListStatus of API sources, `<path>Status` by default
+    statusPath?: string;
+}
+
+export type DataSource = string | any[] | DataSourceDefinition;
+
+export type ListLoadMode = 'initial' | 'refresh' | 'more';
+
+// Progress of an API data source, kept in screen state for footers and pull-to-refresh
+export interface ListStatus {
+    page?: number;
+    cursor?: any;
+    hasMore: boolean;
+    loading: boolean;
+    loadingMore: boolean;
+    refreshing: boolean;
+    error: string | null;
+}
+
+export interface ListPage {
+    items: any[];
+    hasMore: boolean;
+    page?: number;
+    cursor?: any;
+}
+
+/**
+ * Normalize a data source to a definition with `state.`-rooted paths
+ * API sources without a path store their items at `state.lists.<listId>`
+ */
+export const normalizeDataSource = (source?: DataSource, listId?: string): DataSourceDefinition | null => {
+    if (source === undefined || source === null) return null;
+    if (Array.isArray(source)) return { items: source };
+    if (typeof source === 'string') {
+        const binding = normalizeBinding(source);
+        return binding ? { path: binding.path } : null;
+    }
+
+    const path = source.path || (source.api && listId ? `lists.${listId}` : undefined);
+    if (source.api && !path) {
+        console.warn('⚠️ API data sources need a path or a list id to store their items');
+        return null;
+    }
+
+    const statePath = normalizeBinding(path)?.path;
+    return {
+        ...source,
+        path: statePath,
+        loadingPath: normalizeBinding(source.loadingPath)?.path,
+        errorPath: normalizeBinding(source.errorPath)?.path,
+        statusPath: normalizeBinding(source.statusPath)?.path || (source.api && statePath ? `${statePath}Status` : undefined),
+    };
+};
+
+/**
+ * Append query parameters to a URL that may already have a query string
+ */
+export const appendQueryParams = (url: string, params: Record<string, any>): string => {
+    const query = Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+        .join('&');
+
+    if (!query) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+/**
+ * Build the request for a page of an API data source
+ * `initial` and `refresh` loads start over at the first page; `more` continues from the status
+ */
+export const buildPageRequest = (
+    api: ApiDataSource,
+    pagination: PaginationDefinition | undefined,
+    status: Partial<ListStatus> | undefined,
+    mode: ListLoadMode
+): { request: ApiDataSource; page?: number } => {
+    if (!pagination) return { request: api };
+
+    const more = mode === 'more';
+    const params: Record<string, any> = {};
+    let page: number | undefined;
+
+    if (pagination.pageSize) {
+        params[pagination.pageSizeParam || 'limit'] = pagination.pageSize;
+    }
+    if (pagination.type === 'cursor') {
+        params[pagination.cursorParam || 'cursor'] = more ? status?.cursor : undefined;
+    } else {
+        const firstPage = pagination.firstPage ?? 1;
+        page = more && typeof status?.page === 'number' ? status.page + 1 : firstPage;
+        params[pagination.pageParam || 'page'] = page;
+    }
+
+    const method = (api.method || 'GET').toUpperCase();
+    const request = method === 'GET' || method === 'DELETE'
+        ? { ...api, url: appendQueryParams(api.url, params) }
+        : { ...api, data: { ...api.data, ...params } };
+
+    return { request, page };
+};
+
+/**
+ * Read the items of a response and whether another page follows
+ * Without a `hasMore` selector, cursor lists continue while a next cursor is returned
+ * and page lists while pages come back full (or non-empty when no page size is set)
+ */
+export const readPage = (response: any, api: ApiDataSource, pagination?: PaginationDefinition, page?: number): ListPage => {
+    const selected = api.select ? selectJsonPath(response, api.select) : response;
+    const items = Array.isArray(selected) ? selected : [];
+    if (!pagination) return { items, hasMore: false };
+
+    const cursor = pagination.nextCursor ? selectJsonPath(response, pagination.nextCursor) : undefined;
+    let hasMore: boolean;
+    if (pagination.hasMore) {
+        hasMore = Boolean(selectJsonPath(response, pagination.hasMore));
+    } else if (pagination.type === 'cursor') {
+        hasMore = cursor !== undefined && cursor !== null && cursor !== '';
+    } else {
+        hasMore = pagination.pageSize ? items.length >= pagination.pageSize : items.length > 0;
+    }
+
+    return { items, hasMore, page, cursor: cursor ?? null };
+};
+
+/**
+ * Key for a list row from a `keyExtractor` path, falling back to the row index
+ * The path is read from the item (`"id"`) or from the row scope (`"item.id"`)
+ */
+export const getItemKey = (item: any, index: number, keyExtractor?: string): string => {
+    if (keyExtractor) {
+        const root = parsePath(keyExtractor)[0];
+        const value = root === 'item' || root === 'index'
+            ? getValueAtPath({ item, index }, keyExtractor)
+            : getValueAtPath(item, keyExtractor);
+        if (value !== undefined && value !== null) return String(value);
+    }
+
+    if (item && typeof item === 'object' && (item.id !== undefined || item.key !== undefined)) {
+        return String(item.id !== undefined ? item.id : item.key);
+    }
+    return String(index);
+};
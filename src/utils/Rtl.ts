@@ -0,0 +1,40 @@
+/**
+ * RTL Utilities
+ * Mirrors config styles for right-to-left languages
+ * Native layout only switches direction after a restart, so until then the renderer
+ * mirrors styles itself whenever the language's direction differs from the native one
+ * @author Labor2Hire Team
+ */
+
+export type LayoutDirection = 'ltr' | 'rtl';
+
+const MIRRORED_VALUES: Record<string, Record<string, string>> = {
+    flexDirection: { row: 'row-reverse', 'row-reverse': 'row' },
+    textAlign: { left: 'right', right: 'left' },
+};
+
+const mirrorKey = (key: string): string => {
+    if (key === 'left') return 'right';
+    if (key === 'right') return 'left';
+    if (key.includes('Left')) return key.replace('Left', 'Right');
+    if (key.includes('Right')) return key.replace('Right', 'Left');
+    return key;
+};
+
+/**
+ * Whether config styles need mirroring for a language direction under the native direction
+ */
+export const shouldMirror = (direction: LayoutDirection | undefined, nativeRTL: boolean): boolean =>
+    (direction === 'rtl') !== nativeRTL;
+
+/**
+ * Swap the left and right sides of a style: `marginLeft`, `paddingLeft`, `left`, `borderTopLeftRadius`...,
+ * and reverse `flexDirection: 'row'` and `textAlign: 'left'`
+ */
+export const mirrorStyle = (style: Record<string, any>): Record<string, any> => {
+    const result: Record<string, any> = {};
+    Object.entries(style).forEach(([key, value]) => {
+        result[mirrorKey(key)] = MIRRORED_VALUES[key]?.[value] ?? value;
+    });
+    return result;
+};
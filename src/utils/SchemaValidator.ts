@@ -0,0 +1,229 @@
+/**
+ * Schema Validation Utilities
+ * Lightweight validator for the JSON Schema subset used by backend-driven configs
+ * Reports every problem with a path such as `components[0].actions.onPress.type`
+ * @author Labor2Hire Team
+ */
+
+import { parseExpression } from './Expression';
+
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+    type?: SchemaType | SchemaType[];
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: any[];
+    anyOf?: JsonSchema[];
+    if?: JsonSchema;
+    then?: JsonSchema;
+    else?: JsonSchema;
+    minLength?: number;
+    minItems?: number;
+    minimum?: number;
+    format?: 'regex' | 'expression';
+    $ref?: string;
+    definitions?: Record<string, JsonSchema>;
+}
+
+export interface SchemaValidationIssue {
+    path: string;
+    message: string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Append a property name or array index to a validation path
+ */
+export const joinSchemaPath = (path: string, key: string | number): string => {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    if (!IDENTIFIER_PATTERN.test(key)) return `${path}[${JSON.stringify(key)}]`;
+    return path ? `${path}.${key}` : key;
+};
+
+const getValueType = (value: any): SchemaType => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as SchemaType;
+};
+
+const matchesType = (value: any, expected: SchemaType | SchemaType[]): boolean => {
+    const actual = getValueType(value);
+    const types = Array.isArray(expected) ? expected : [expected];
+    return types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+};
+
+const isValidRegex = (pattern: string): boolean => {
+    try {
+        return RegExp(pattern) instanceof RegExp;
+    } catch {
+        return false;
+    }
+};
+
+const isValidExpression = (source: string): boolean => {
+    try {
+        parseExpression(source);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const describeType = (expected: SchemaType | SchemaType[]): string =>
+    Array.isArray(expected) ? expected.join(' or ') : expected;
+
+/**
+ * Schema validator bound to a root schema so that `#/definitions/...`
+ * references (including recursive ones) can be resolved
+ */
+export class SchemaValidator {
+    private root: JsonSchema;
+
+    constructor(root: JsonSchema) {
+        this.root = root;
+    }
+
+    /**
+     * Validate a value against the root schema
+     * @returns All issues found - an empty array means the value is valid
+     */
+    validate(value: any, path = ''): SchemaValidationIssue[] {
+        const issues: SchemaValidationIssue[] = [];
+        this.validateNode(value, this.root, path, issues);
+        return issues;
+    }
+
+    private resolveRef(ref: string): JsonSchema {
+        const match = ref.match(/^#\/definitions\/(.+)$/);
+        const schema = match ? this.root.definitions?.[match[1]] : undefined;
+        if (!schema) {
+            throw new Error(`Unresolvable schema reference: ${ref}`);
+        }
+        return schema;
+    }
+
+    private resolveSchema(schema: JsonSchema): JsonSchema {
+        return schema.$ref ? this.resolveSchema(this.resolveRef(schema.$ref)) : schema;
+    }
+
+    private validateNode(value: any, schema: JsonSchema, path: string, issues: SchemaValidationIssue[]): void {
+        if (schema.$ref) {
+            this.validateNode(value, this.resolveRef(schema.$ref), path, issues);
+            return;
+        }
+
+        if (schema.anyOf) {
+            this.validateAnyOf(value, schema.anyOf, path, issues);
+            return;
+        }
+
+        // The `if` schema only picks the branch; its own issues are never reported
+        if (schema.if) {
+            const conditionIssues: SchemaValidationIssue[] = [];
+            this.validateNode(value, schema.if, path, conditionIssues);
+            const branch = conditionIssues.length === 0 ? schema.then : schema.else;
+            if (branch) {
+                this.validateNode(value, branch, path, issues);
+            }
+            return;
+        }
+
+        if (schema.type && !matchesType(value, schema.type)) {
+            issues.push({ path, message: `must be ${describeType(schema.type)}` });
+            return;
+        }
+
+        if (schema.enum && !schema.enum.includes(value)) {
+            issues.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+        }
+
+        if (typeof value === 'string') {
+            if (schema.minLength !== undefined && value.length < schema.minLength) {
+                issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+            }
+            if (schema.format === 'regex' && !isValidRegex(value)) {
+                issues.push({ path, message: 'must be a valid regular expression' });
+            }
+            if (schema.format === 'expression' && !isValidExpression(value)) {
+                issues.push({ path, message: 'must be a valid expression' });
+            }
+        }
+
+        if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, message: `must be >= ${schema.minimum}` });
+        }
+
+        if (Array.isArray(value)) {
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                issues.push({ path, message: `must contain at least ${schema.minItems} items` });
+            }
+            if (schema.items) {
+                value.forEach((item, index) =>
+                    this.validateNode(item, schema.items as JsonSchema, joinSchemaPath(path, index), issues)
+                );
+            }
+        } else if (value !== null && typeof value === 'object') {
+            this.validateObject(value, schema, path, issues);
+        }
+    }
+
+    private validateObject(value: Record<string, any>, schema: JsonSchema, path: string, issues: SchemaValidationIssue[]): void {
+        schema.required?.forEach(key => {
+            if (value[key] === undefined) {
+                issues.push({ path: joinSchemaPath(path, key), message: 'is required' });
+            }
+        });
+
+        Object.keys(value).forEach(key => {
+            const propertySchema = schema.properties?.[key];
+            const childPath = joinSchemaPath(path, key);
+
+            if (propertySchema) {
+                if (value[key] !== undefined) {
+                    this.validateNode(value[key], propertySchema, childPath, issues);
+                }
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: childPath, message: 'is not an allowed property' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                this.validateNode(value[key], schema.additionalProperties, childPath, issues);
+            }
+        });
+    }
+
+    private validateAnyOf(value: any, options: JsonSchema[], path: string, issues: SchemaValidationIssue[]): void {
+        const results = options.map(option => {
+            const optionIssues: SchemaValidationIssue[] = [];
+            this.validateNode(value, option, path, optionIssues);
+            return optionIssues;
+        });
+
+        if (results.some(result => result.length === 0)) return;
+
+        // Report the errors of the single alternative whose type fits the value,
+        // which is far more useful than a generic "no alternative matched"
+        const typeMatches = results.filter((_result, index) => {
+            const option = this.resolveSchema(options[index]);
+            return !option.type || matchesType(value, option.type);
+        });
+        if (typeMatches.length === 1) {
+            issues.push(...typeMatches[0]);
+            return;
+        }
+
+        issues.push({ path, message: 'does not match any allowed shape' });
+    }
+}
+
+/**
+ * Format validation issues as a single human readable line
+ */
+export const formatSchemaIssues = (issues: SchemaValidationIssue[], limit = 3): string => {
+    const shown = issues.slice(0, limit).map(issue => `${issue.path || '(root)'} ${issue.message}`);
+    const remaining = issues.length - shown.length;
+    return remaining > 0 ? `${shown.join('; ')} (+${remaining} more)` : shown.join('; ');
+};
@@ -0,0 +1,58 @@
+/**
+ * Screen Config Key Utilities
+ * Configs requested with route params are stored under `Screen?key=value`,
+ * next to the plain `Screen` config the server sends without params
+ * ConfigClient caches each language's variant of a config under `Screen@hi` / `Screen@hi?key=value`
+ * @author Labor2Hire Team
+ */
+
+const formatParam = (value: any): string =>
+    encodeURIComponent(value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+/**
+ * Key for a screen config requested with the given params; params are sorted so order never matters
+ */
+export const getScreenConfigKey = (screen: string, params?: Record<string, any> | null): string => {
+    const entries = Object.keys(params || {})
+        .filter(key => params![key] !== undefined)
+        .sort()
+        .map(key => `${encodeURIComponent(key)}=${formatParam(params![key])}`);
+
+    return entries.length > 0 ? `${screen}?${entries.join('&')}` : screen;
+};
+
+/**
+ * Screen name part of a config key
+ */
+export const getScreenFromConfigKey = (key: string): string => key.split('?')[0].split('@')[0];
+
+/**
+ * Config key without its language, as the app looks configs up
+ */
+export const stripConfigKeyLanguage = (key: string): string => key.replace(/^([^?@]*)@[^?]*/, '$1');
+
+/**
+ * Key of the variant of a config for a language
+ */
+export const getLanguageConfigKey = (key: string, language: string): string => {
+    const base = stripConfigKeyLanguage(key);
+    const queryIndex = base.indexOf('?');
+    return queryIndex === -1
+        ? `${base}@${language}`
+        : `${base.slice(0, queryIndex)}@${language}${base.slice(queryIndex)}`;
+};
+
+
+/**
+ * Parts of a config key: `JobDetails@hi?jobId=42` -> screen `JobDetails`, language `hi`, params `jobId=42`
+ * `params` is the canonical, sorted query string built by getScreenConfigKey
+ */
+export const parseConfigKey = (key: string): { screen: string; language: string | null; params: string } => {
+    const queryIndex = key.indexOf('?');
+    const [screen, language] = (queryIndex === -1 ? key : key.slice(0, queryIndex)).split('@');
+    return {
+        screen,
+        language: language || null,
+        params: queryIndex === -1 ? '' : key.slice(queryIndex + 1),
+    };
+};
@@ -0,0 +1,143 @@
+/**
+ * State Path Utilities
+ * Helpers for JSON-addressable paths such as `state.form.name` or `items[0].title`
+ * used by the screen state store and the dynamic renderer
+ * @author Labor2Hire Team
+ */
+
+export type PathSegment = string | number;
+
+/**
+ * Split a dotted/bracketed path into segments
+ * `form.items[2].name` -> ['form', 'items', 2, 'name']
+ */
+export const parsePath = (path: string): PathSegment[] => {
+    if (!path) return [];
+
+    const segments: PathSegment[] = [];
+    path.split('.').forEach(part => {
+        const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+        if (!match) {
+            segments.push(part);
+            return;
+        }
+
+        if (match[1]) segments.push(match[1]);
+        (match[2].match(/\d+/g) || []).forEach(index => segments.push(Number(index)));
+    });
+
+    return segments;
+};
+
+/**
+ * Strip a leading root namespace from a path
+ * `state.form.name` with root `state` -> `form.name`
+ */
+export const stripPathRoot = (path: string, root: string): string => {
+    if (path === root) return '';
+    return path.startsWith(`${root}.`) ? path.substring(root.length + 1) : path;
+};
+
+/**
+ * Read the value at a path, returning undefined if any segment is missing
+ */
+export const getValueAtPath = (source: any, path: string | PathSegment[]): any => {
+    const segments = typeof path === 'string' ? parsePath(path) : path;
+    let value = source;
+
+    for (const segment of segments) {
+        if (value === null || typeof value !== 'object' || !(segment in value)) {
+            return undefined;
+        }
+        value = value[segment];
+    }
+
+    return value;
+};
+
+/**
+ * Write a value at a path in place, creating intermediate objects/arrays as needed
+ * Intended for Immer drafts inside Redux reducers
+ */
+export const setValueAtPath = (target: Record<string, any>, path: string | PathSegment[], value: any): void => {
+    const segments = typeof path === 'string' ? parsePath(path) : path;
+    if (segments.length === 0) {
+        throw new Error('Cannot set a value at an empty path');
+    }
+
+    let current: any = target;
+    segments.slice(0, -1).forEach((segment, index) => {
+        const next = current[segment];
+        if (next === null || typeof next !== 'object') {
+            current[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+        }
+        current = current[segment];
+    });
+
+    current[segments[segments.length - 1]] = value;
+};
+
+/**
+ * Delete the value at a path in place (array entries are spliced out)
+ */
+export const deleteValueAtPath = (target: Record<string, any>, path: string | PathSegment[]): void => {
+    const segments = typeof path === 'string' ? parsePath(path) : path;
+    if (segments.length === 0) return;
+
+    const parent = getValueAtPath(target, segments.slice(0, -1));
+    const key = segments[segments.length - 1];
+
+    if (Array.isArray(parent) && typeof key === 'number') {
+        parent.splice(key, 1);
+    } else if (parent && typeof parent === 'object') {
+        delete parent[key];
+    }
+};
+
+const TEMPLATE_PATTERN = /\{\{([^}]+)\}\}/g;
+
+/**
+ * Collect every path under the given roots that a value references,
+ * either inside `{{ }}` templates or as a condition `field` or `expr`
+ * Used to subscribe components only to the state they actually read
+ * Expressions such as `state.phone.length` or `state.skills.includes('x')` subscribe to the value they read from
+ */
+export const collectPathReferences = (value: any, roots: string[], found: Set<string> = new Set()): Set<string> => {
+    const referencePattern = new RegExp(
+        `(?:^|[^\\w$.])((?:${roots.join('|')})(?:\\.[A-Za-z_$][\\w$]*|\\[\\d+\\])*)`,
+        'g'
+    );
+
+    const scan = (expression: string) => {
+        let match: RegExpExecArray | null;
+        referencePattern.lastIndex = 0;
+        while ((match = referencePattern.exec(expression)) !== null) {
+            let path = match[1];
+            if (expression[referencePattern.lastIndex] === '(' && path.includes('.')) {
+                path = path.substring(0, path.lastIndexOf('.'));
+            }
+            found.add(path.replace(/\.length$/, ''));
+        }
+    };
+
+    const visit = (node: any, key?: string) => {
+        if (typeof node === 'string') {
+            if (key === 'field' || key === 'expr') {
+                scan(node);
+            } else {
+                let template: RegExpExecArray | null;
+                TEMPLATE_PATTERN.lastIndex = 0;
+                while ((template = TEMPLATE_PATTERN.exec(node)) !== null) {
+                    scan(template[1]);
+                }
+            }
+        } else if (Array.isArray(node)) {
+            node.forEach(item => visit(item));
+        } else if (node && typeof node === 'object') {
+            Object.entries(node).forEach(([childKey, child]) => visit(child, childKey));
+        }
+    };
+
+    visit(value);
+    return found;
+};
@@ -0,0 +1,106 @@
+/**
+ * Theme Utilities
+ * Resolves the App config's design tokens and named style classes for the renderer
+ * Style values reference tokens as `"$colors.primary"`; components pick style classes
+ * with `"styleRef": "button.primary"` (or an array of classes, applied in order)
+ * @author Labor2Hire Team
+ */
+
+import { mergeFragment } from './Fragments';
+import { getValueAtPath } from './StatePath';
+
+export type ColorScheme = 'light' | 'dark';
+
+export interface ThemeTokens {
+    colors?: Record<string, any>;
+    spacing?: Record<string, any>;
+    typography?: Record<string, any>;
+    radii?: Record<string, any>;
+    [group: string]: Record<string, any> | undefined;
+}
+
+export interface ThemeDefinition {
+    tokens?: ThemeTokens;
+    // Token overrides for each color scheme, merged over `tokens`
+    light?: ThemeTokens;
+    dark?: ThemeTokens;
+    styles?: Record<string, any>;
+}
+
+export interface ResolvedTheme {
+    scheme: ColorScheme;
+    tokens: ThemeTokens;
+    styles: Record<string, any>;
+}
+
+export type StyleRef = string | string[];
+
+const TOKEN_REFERENCE_PATTERN = /^\$([A-Za-z_][\w-]*(?:\.[\w-]+)+)$/;
+
+/**
+ * Tokens and style classes for a color scheme
+ * A screen's `globalStyles` add to and override the theme's style classes
+ */
+export const resolveTheme = (
+    theme: ThemeDefinition | undefined,
+    scheme: ColorScheme,
+    globalStyles?: Record<string, any>
+): ResolvedTheme => ({
+    scheme,
+    tokens: mergeFragment(theme?.tokens || {}, theme?.[scheme]),
+    styles: mergeFragment(theme?.styles || {}, globalStyles),
+});
+
+/**
+ * Replace `$group.name` token references in a style or prop value
+ * References to missing tokens are left as written
+ */
+export const resolveTokenReferences = (value: any, tokens: ThemeTokens): any => {
+    if (typeof value === 'string') {
+        const match = value.match(TOKEN_REFERENCE_PATTERN);
+        if (!match) return value;
+
+        const token = getValueAtPath(tokens, match[1]);
+        return token !== undefined ? token : value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => resolveTokenReferences(item, tokens));
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        Object.entries(value).forEach(([key, item]) => {
+            result[key] = resolveTokenReferences(item, tokens);
+        });
+        return result;
+    }
+
+    return value;
+};
+
+/**
+ * Look up a style class by its exact name or as a dotted path, e.g. `button.primary`
+ */
+export const getStyleClass = (styles: Record<string, any>, name: string): Record<string, any> | undefined => {
+    const style = name in styles ? styles[name] : getValueAtPath(styles, name);
+    if (style === undefined) {
+        console.warn(`⚠️ Unknown style class: ${name}`);
+    }
+    return style;
+};
+
+/**
+ * A component's final style: its style classes in order, then its own style, with tokens resolved
+ */
+export const resolveStyle = (
+    style: Record<string, any> | undefined,
+    styleRef: StyleRef | undefined,
+    theme: ResolvedTheme | null
+): Record<string, any> => {
+    const refs = styleRef === undefined ? [] : Array.isArray(styleRef) ? styleRef : [styleRef];
+    const classes = theme ? refs.map(name => getStyleClass(theme.styles, name)) : [];
+    const combined = Object.assign({}, ...classes, style);
+
+    return theme ? resolveTokenReferences(combined, theme.tokens) : combined;
+};
@@ -0,0 +1,97 @@
+/**
+ * Variant Utilities
+ * Merges responsive and platform-specific variant blocks into a component's props and style
+ * Variant keys are conditions on the device, joined with `&`:
+ * `platform:ios`, `orientation:landscape`, `direction:rtl`, `width>600`, `height<=700`, `fontScale>=1.3`
+ * @author Labor2Hire Team
+ */
+
+import { mergeFragment } from './Fragments';
+import { LayoutDirection } from './Rtl';
+
+export interface DeviceEnvironment {
+    platform: string;
+    width: number;
+    height: number;
+    fontScale: number;
+    orientation: 'portrait' | 'landscape';
+    // Layout direction of the current language
+    direction: LayoutDirection;
+}
+
+export interface VariantDefinition {
+    props?: Record<string, any>;
+    style?: Record<string, any>;
+}
+
+const KEYWORD_CONDITION = /^(platform|orientation|direction):([\w-]+)$/;
+const NUMERIC_CONDITION = /^(width|height|fontScale)\s*(>=|<=|>|<|=)\s*(\d+(?:\.\d+)?)$/;
+
+/**
+ * Device environment for variant matching from the window metrics and the language direction
+ */
+export const getDeviceEnvironment = (
+    platform: string,
+    window: { width: number; height: number; fontScale?: number },
+    direction: LayoutDirection = 'ltr'
+): DeviceEnvironment => ({
+    platform,
+    width: window.width,
+    height: window.height,
+    fontScale: window.fontScale ?? 1,
+    orientation: window.width > window.height ? 'landscape' : 'portrait',
+    direction,
+});
+
+const matchesCondition = (condition: string, device: DeviceEnvironment): boolean => {
+    const keyword = condition.match(KEYWORD_CONDITION);
+    if (keyword) {
+        return device[keyword[1] as 'platform' | 'orientation' | 'direction'] === keyword[2];
+    }
+
+    const numeric = condition.match(NUMERIC_CONDITION);
+    if (numeric) {
+        const actual = device[numeric[1] as 'width' | 'height' | 'fontScale'];
+        const expected = Number(numeric[3]);
+        switch (numeric[2]) {
+            case '>':
+                return actual > expected;
+            case '>=':
+                return actual >= expected;
+            case '<':
+                return actual < expected;
+            case '<=':
+                return actual <= expected;
+            default:
+                return actual === expected;
+        }
+    }
+
+    console.warn(`⚠️ Unknown variant condition: ${condition}`);
+    return false;
+};
+
+/**
+ * Whether every condition of a variant key holds for the device
+ */
+export const matchesVariant = (key: string, device: DeviceEnvironment): boolean =>
+    key.split('&').every(condition => matchesCondition(condition.trim(), device));
+
+/**
+ * Props and style with every matching variant deep-merged over them, in declaration order
+ */
+export const applyVariants = (
+    props: Record<string, any> = {},
+    style: Record<string, any> = {},
+    variants: Record<string, VariantDefinition> | undefined,
+    device: DeviceEnvironment | null
+): { props: Record<string, any>; style: Record<string, any> } => {
+    if (!variants || !device) return { props, style };
+
+    return Object.entries(variants).reduce(
+        (result, [key, variant]) => matchesVariant(key, device)
+            ? { props: mergeFragment(result.props, variant.props), style: mergeFragment(result.style, variant.style) }
+            : result,
+        { props, style }
+    );
+};